@@ -24,5 +24,6 @@ module.exports = {
     node: true,
     es6: true,
   },
-  ignorePatterns: ['dist/', 'node_modules/', '*.js'],
+  // Tests are left out of tsconfig.json (and so of the typed lint rules); ts-jest type-checks them
+  ignorePatterns: ['dist/', 'node_modules/', '*.js', '*.test.ts', 'src/test/'],
 };
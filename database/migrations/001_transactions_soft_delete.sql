@@ -0,0 +1,4 @@
+-- Soft delete for transactions: rows are hidden once deleted_at is set and purged after the retention window
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_deleted_at ON transactions(deleted_at);
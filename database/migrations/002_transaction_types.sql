@@ -0,0 +1,13 @@
+-- Transaction type: expense (default for existing rows), income, transfer or refund
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS type VARCHAR(20) NOT NULL DEFAULT 'expense';
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+    CHECK (type IN ('expense', 'income', 'transfer', 'refund'));
+
+CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(type);
+
+-- Default category for income transactions
+INSERT INTO categories (name, color, icon, is_default)
+SELECT 'Income', '#2ECC71', 'dollar-sign', true
+WHERE NOT EXISTS (SELECT 1 FROM categories WHERE name = 'Income' AND is_default = true);
@@ -0,0 +1,13 @@
+-- Per-user timezone used to bucket transactions into months
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+-- month used to be derived from the UTC instant, so it could disagree with the stored calendar date.
+-- Recompute it from date, leaving rows alone where either the old or the new month is already closed.
+UPDATE transactions t
+SET month = to_char(t.date, 'YYYY-MM')
+WHERE t.month <> to_char(t.date, 'YYYY-MM')
+  AND NOT EXISTS (
+    SELECT 1 FROM monthly_history h
+    WHERE h.user_id = t.user_id
+      AND h.month IN (t.month, to_char(t.date, 'YYYY-MM'))
+  );
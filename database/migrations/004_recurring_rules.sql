@@ -0,0 +1,38 @@
+-- Recurring transaction rules materialized by the in-process scheduler
+CREATE TABLE IF NOT EXISTS recurring_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+    category_name VARCHAR(100) NOT NULL,
+    type VARCHAR(20) NOT NULL DEFAULT 'expense' CHECK (type IN ('expense', 'income', 'transfer', 'refund')),
+    amount DECIMAL(12,2) NOT NULL,
+    description TEXT NOT NULL,
+    frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+    interval INTEGER NOT NULL DEFAULT 1 CHECK (interval > 0),
+    start_date DATE NOT NULL,
+    end_date DATE,
+    max_occurrences INTEGER CHECK (max_occurrences > 0),
+    occurrences_created INTEGER NOT NULL DEFAULT 0,
+    next_occurrence DATE,
+    last_occurrence DATE,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS recurring_rule_id UUID REFERENCES recurring_rules(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_recurring_occurrence ON transactions(recurring_rule_id, date)
+    WHERE recurring_rule_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_recurring_rules_user_id ON recurring_rules(user_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_rules_next_occurrence ON recurring_rules(next_occurrence) WHERE is_active = true;
+
+DROP TRIGGER IF EXISTS update_recurring_rules_updated_at ON recurring_rules;
+CREATE TRIGGER update_recurring_rules_updated_at BEFORE UPDATE ON recurring_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE recurring_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own recurring rules" ON recurring_rules;
+CREATE POLICY "Users can manage own recurring rules" ON recurring_rules
+    FOR ALL USING (user_id::text = auth.uid()::text);
@@ -0,0 +1,27 @@
+-- User-defined rules that pick a category for transactions created without one
+CREATE TABLE IF NOT EXISTS category_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 100,
+    conditions JSONB NOT NULL,
+    category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+    category_name VARCHAR(100) NOT NULL,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS category_rule_id UUID REFERENCES category_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_category_rules_user_priority ON category_rules(user_id, priority);
+
+DROP TRIGGER IF EXISTS update_category_rules_updated_at ON category_rules;
+CREATE TRIGGER update_category_rules_updated_at BEFORE UPDATE ON category_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE category_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own category rules" ON category_rules;
+CREATE POLICY "Users can manage own category rules" ON category_rules
+    FOR ALL USING (user_id::text = auth.uid()::text);
@@ -0,0 +1,5 @@
+-- Split transactions: per-category lines that add up to the transaction amount
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS splits JSONB;
+
+-- Supports filtering by category across split lines (splits @> '[{"category_id": ...}]')
+CREATE INDEX IF NOT EXISTS idx_transactions_splits ON transactions USING GIN (splits jsonb_path_ops);
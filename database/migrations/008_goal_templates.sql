@@ -0,0 +1,23 @@
+-- Named monthly goals that can be applied to new months
+CREATE TABLE IF NOT EXISTS goal_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    income DECIMAL(12,2) NOT NULL,
+    expenses JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_goal_templates_user_id ON goal_templates(user_id);
+
+DROP TRIGGER IF EXISTS update_goal_templates_updated_at ON goal_templates;
+CREATE TRIGGER update_goal_templates_updated_at BEFORE UPDATE ON goal_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE goal_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own goal templates" ON goal_templates;
+CREATE POLICY "Users can manage own goal templates" ON goal_templates
+    FOR ALL USING (user_id::text = auth.uid()::text);
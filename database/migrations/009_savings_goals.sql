@@ -0,0 +1,46 @@
+-- Savings goals and the contributions/withdrawals (transfer transactions) made towards them
+CREATE TABLE IF NOT EXISTS savings_goals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    target_amount DECIMAL(12,2) NOT NULL,
+    target_date DATE,
+    is_archived BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS savings_contributions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    savings_goal_id UUID NOT NULL REFERENCES savings_goals(id) ON DELETE CASCADE,
+    transaction_id UUID NOT NULL UNIQUE REFERENCES transactions(id) ON DELETE CASCADE,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('contribution', 'withdrawal')),
+    amount DECIMAL(12,2) NOT NULL,
+    date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_savings_goals_user_id ON savings_goals(user_id);
+CREATE INDEX IF NOT EXISTS idx_savings_contributions_goal_id ON savings_contributions(savings_goal_id);
+CREATE INDEX IF NOT EXISTS idx_savings_contributions_user_date ON savings_contributions(user_id, date);
+
+DROP TRIGGER IF EXISTS update_savings_goals_updated_at ON savings_goals;
+CREATE TRIGGER update_savings_goals_updated_at BEFORE UPDATE ON savings_goals
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Default category for the transfer transactions
+INSERT INTO categories (name, color, icon, is_default)
+SELECT 'Savings', '#F1C40F', 'piggy-bank', true
+WHERE NOT EXISTS (SELECT 1 FROM categories WHERE name = 'Savings' AND is_default = true);
+
+ALTER TABLE savings_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE savings_contributions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own savings goals" ON savings_goals;
+CREATE POLICY "Users can manage own savings goals" ON savings_goals
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can manage own savings contributions" ON savings_contributions;
+CREATE POLICY "Users can manage own savings contributions" ON savings_contributions
+    FOR ALL USING (user_id::text = auth.uid()::text);
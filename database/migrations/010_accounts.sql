@@ -0,0 +1,56 @@
+-- Accounts/wallets with opening balances, transfers between them and statement reconciliation
+CREATE TABLE IF NOT EXISTS accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('checking', 'savings', 'credit_card', 'cash')),
+    currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+    opening_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+    is_archived BOOLEAN DEFAULT false,
+    last_reconciled_date DATE,
+    last_reconciled_balance DECIMAL(12,2),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS account_reconciliations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    statement_date DATE NOT NULL,
+    statement_balance DECIMAL(12,2) NOT NULL,
+    cleared_balance DECIMAL(12,2) NOT NULL,
+    difference DECIMAL(12,2) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('balanced', 'unbalanced')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS cleared BOOLEAN DEFAULT false;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transfer_id UUID;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transfer_direction VARCHAR(3) CHECK (transfer_direction IN ('out', 'in'));
+
+CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON accounts(user_id);
+CREATE INDEX IF NOT EXISTS idx_account_reconciliations_account_id ON account_reconciliations(account_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_account_date ON transactions(account_id, date);
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_id ON transactions(transfer_id);
+
+DROP TRIGGER IF EXISTS update_accounts_updated_at ON accounts;
+CREATE TRIGGER update_accounts_updated_at BEFORE UPDATE ON accounts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Default category for the transfer legs
+INSERT INTO categories (name, color, icon, is_default)
+SELECT 'Transfer', '#95A5A6', 'repeat', true
+WHERE NOT EXISTS (SELECT 1 FROM categories WHERE name = 'Transfer' AND is_default = true);
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE account_reconciliations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own accounts" ON accounts;
+CREATE POLICY "Users can manage own accounts" ON accounts
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can manage own account reconciliations" ON account_reconciliations;
+CREATE POLICY "Users can manage own account reconciliations" ON account_reconciliations
+    FOR ALL USING (user_id::text = auth.uid()::text);
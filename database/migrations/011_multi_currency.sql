@@ -0,0 +1,40 @@
+-- Per-user base currency, a currency on every transaction and user-maintained exchange rates
+ALTER TABLE users ADD COLUMN IF NOT EXISTS base_currency VARCHAR(3) NOT NULL DEFAULT 'USD';
+-- Transactions from before currencies keep a NULL currency, read as the owner's base currency whatever it is set to
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+ALTER TABLE monthly_history ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+
+-- Accounts are opened in the owner's base currency unless another one is given
+ALTER TABLE accounts ALTER COLUMN currency DROP DEFAULT;
+
+-- Money on an account is in the account's currency
+UPDATE transactions t
+SET currency = a.currency
+FROM accounts a
+WHERE t.account_id = a.id
+  AND t.currency IS DISTINCT FROM a.currency;
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    currency VARCHAR(3) NOT NULL,
+    base_currency VARCHAR(3) NOT NULL,
+    rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+    date DATE NOT NULL,
+    source VARCHAR(10) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'file')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, currency, base_currency, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_user_date ON exchange_rates(user_id, date);
+
+DROP TRIGGER IF EXISTS update_exchange_rates_updated_at ON exchange_rates;
+CREATE TRIGGER update_exchange_rates_updated_at BEFORE UPDATE ON exchange_rates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own exchange rates" ON exchange_rates;
+CREATE POLICY "Users can manage own exchange rates" ON exchange_rates
+    FOR ALL USING (user_id::text = auth.uid()::text);
@@ -0,0 +1,111 @@
+-- Shared household budgets: households, their members and email invitations
+CREATE TABLE IF NOT EXISTS households (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE, -- Creator; the budget uses their settings
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS household_members (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(10) NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(household_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS household_invitations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL, -- Lowercased; matched against the invitee's account email
+    role VARCHAR(10) NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    invited_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked', 'expired')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_household_members_user_id ON household_members(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_household_invitations_pending ON household_invitations(household_id, email)
+    WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_household_invitations_email ON household_invitations(email);
+
+-- Budget data belongs to a personal budget (household_id NULL) or a household
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE monthly_goals ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE monthly_history ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+
+-- Uniqueness is now per personal budget or per household
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_name_user_id_key;
+ALTER TABLE monthly_goals DROP CONSTRAINT IF EXISTS monthly_goals_user_id_month_key;
+ALTER TABLE monthly_history DROP CONSTRAINT IF EXISTS monthly_history_user_id_month_key;
+DROP INDEX IF EXISTS idx_monthly_goals_user_month;
+DROP INDEX IF EXISTS idx_monthly_history_user_month;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_user_name ON categories(user_id, name) WHERE household_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_household_name ON categories(household_id, name) WHERE household_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monthly_goals_user_month ON monthly_goals(user_id, month) WHERE household_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monthly_goals_household_month ON monthly_goals(household_id, month) WHERE household_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_household_month ON transactions(household_id, month);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monthly_history_user_month ON monthly_history(user_id, month) WHERE household_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monthly_history_household_month ON monthly_history(household_id, month) WHERE household_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_households_updated_at ON households;
+CREATE TRIGGER update_households_updated_at BEFORE UPDATE ON households
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_household_members_updated_at ON household_members;
+CREATE TRIGGER update_household_members_updated_at BEFORE UPDATE ON household_members
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their households" ON households;
+CREATE POLICY "Members can view their households" ON households
+    FOR SELECT USING (
+        id IN (SELECT household_id FROM household_members WHERE user_id::text = auth.uid()::text)
+    );
+
+DROP POLICY IF EXISTS "Users can view own household memberships" ON household_members;
+CREATE POLICY "Users can view own household memberships" ON household_members
+    FOR SELECT USING (user_id::text = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Owners can manage household invitations" ON household_invitations;
+CREATE POLICY "Owners can manage household invitations" ON household_invitations
+    FOR ALL USING (
+        household_id IN (
+            SELECT household_id FROM household_members
+            WHERE user_id::text = auth.uid()::text AND role = 'owner'
+        )
+    );
+
+DROP POLICY IF EXISTS "Members can view household categories" ON categories;
+CREATE POLICY "Members can view household categories" ON categories
+    FOR SELECT USING (
+        household_id IN (SELECT household_id FROM household_members WHERE user_id::text = auth.uid()::text)
+    );
+
+DROP POLICY IF EXISTS "Members can view household monthly goals" ON monthly_goals;
+CREATE POLICY "Members can view household monthly goals" ON monthly_goals
+    FOR SELECT USING (
+        household_id IN (SELECT household_id FROM household_members WHERE user_id::text = auth.uid()::text)
+    );
+
+DROP POLICY IF EXISTS "Members can view household transactions" ON transactions;
+CREATE POLICY "Members can view household transactions" ON transactions
+    FOR SELECT USING (
+        household_id IN (SELECT household_id FROM household_members WHERE user_id::text = auth.uid()::text)
+    );
+
+DROP POLICY IF EXISTS "Members can view household monthly history" ON monthly_history;
+CREATE POLICY "Members can view household monthly history" ON monthly_history
+    FOR SELECT USING (
+        household_id IN (SELECT household_id FROM household_members WHERE user_id::text = auth.uid()::text)
+    );
@@ -0,0 +1,3 @@
+-- Date-range scans for the analytics endpoints
+CREATE INDEX IF NOT EXISTS idx_transactions_user_date ON transactions(user_id, date) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_household_date ON transactions(household_id, date) WHERE deleted_at IS NULL;
@@ -0,0 +1,51 @@
+-- Budget alert rules and the in-app notification inbox they write to
+CREATE TABLE IF NOT EXISTS alert_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('category_threshold', 'large_transaction', 'bill_due', 'month_closing')),
+    category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+    category_name VARCHAR(100),
+    threshold_percent DECIMAL(7,2) CHECK (threshold_percent > 0),
+    amount DECIMAL(12,2) CHECK (amount > 0),
+    days_before INTEGER CHECK (days_before >= 0),
+    channels JSONB NOT NULL DEFAULT '[]',
+    webhook_url TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    alert_rule_id UUID REFERENCES alert_rules(id) ON DELETE SET NULL,
+    type VARCHAR(20) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    message TEXT NOT NULL,
+    data JSONB NOT NULL DEFAULT '{}',
+    dedupe_key VARCHAR(255) NOT NULL,
+    deliveries JSONB NOT NULL DEFAULT '[]',
+    read_at TIMESTAMP WITH TIME ZONE,
+    dismissed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_user_id ON alert_rules(user_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_alert_rules_updated_at ON alert_rules;
+CREATE TRIGGER update_alert_rules_updated_at BEFORE UPDATE ON alert_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own alert rules" ON alert_rules;
+CREATE POLICY "Users can manage own alert rules" ON alert_rules
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can manage own notifications" ON notifications;
+CREATE POLICY "Users can manage own notifications" ON notifications
+    FOR ALL USING (user_id::text = auth.uid()::text);
@@ -0,0 +1,4 @@
+-- Display preferences and the email change waiting for confirmation
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locale VARCHAR(35) NOT NULL DEFAULT 'en-US';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS week_start SMALLINT NOT NULL DEFAULT 0 CHECK (week_start BETWEEN 0 AND 6);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pending_email VARCHAR(255);
@@ -0,0 +1,2 @@
+-- Reopened months keep their history row, marked reopened, so the auto-close job leaves them alone
+ALTER TABLE monthly_history ADD COLUMN IF NOT EXISTS reopened_at TIMESTAMP WITH TIME ZONE;
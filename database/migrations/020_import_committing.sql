@@ -0,0 +1,4 @@
+-- A batch is claimed ('committing') before its rows are imported, so concurrent commits cannot import it twice
+ALTER TABLE import_batches DROP CONSTRAINT IF EXISTS import_batches_status_check;
+ALTER TABLE import_batches ADD CONSTRAINT import_batches_status_check
+    CHECK (status IN ('pending', 'committing', 'committed', 'undone'));
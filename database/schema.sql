@@ -7,11 +7,73 @@ CREATE TABLE IF NOT EXISTS users (
     email VARCHAR(255) UNIQUE NOT NULL,
     password VARCHAR(255) NOT NULL,
     name VARCHAR(100) NOT NULL,
+    timezone VARCHAR(64) NOT NULL DEFAULT 'UTC', -- IANA timezone used for month bucketing
+    base_currency VARCHAR(3) NOT NULL DEFAULT 'USD', -- ISO 4217 code reports are converted into
+    locale VARCHAR(35) NOT NULL DEFAULT 'en-US', -- BCP 47 tag used to format amounts and dates
+    week_start SMALLINT NOT NULL DEFAULT 0 CHECK (week_start BETWEEN 0 AND 6), -- First day of the week, 0 = Sunday
+    pending_email VARCHAR(255), -- New email waiting for confirmation through Supabase Auth
+    deleted_at TIMESTAMP WITH TIME ZONE, -- Deletion requested; the account is purged after the grace period
     is_active BOOLEAN DEFAULT true,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create password_reset_tokens table
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE, -- SHA-256 of the token; the token itself is only ever emailed
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE, -- Set when the token is used or replaced by a newer one
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create user_sessions table
+CREATE TABLE IF NOT EXISTS user_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    session_id UUID NOT NULL UNIQUE, -- Supabase Auth session the tokens belong to
+    device_name VARCHAR(100) NOT NULL,
+    user_agent TEXT,
+    ip_address VARCHAR(45),
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    revoked_at TIMESTAMP WITH TIME ZONE, -- Tokens of a revoked session are refused
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create households table
+CREATE TABLE IF NOT EXISTS households (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE, -- Creator; the budget uses their settings
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create household_members table
+CREATE TABLE IF NOT EXISTS household_members (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(10) NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(household_id, user_id)
+);
+
+-- Create household_invitations table
+CREATE TABLE IF NOT EXISTS household_invitations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL, -- Lowercased; matched against the invitee's account email
+    role VARCHAR(10) NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    invited_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked', 'expired')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create categories table
 CREATE TABLE IF NOT EXISTS categories (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -20,72 +82,304 @@ CREATE TABLE IF NOT EXISTS categories (
     icon VARCHAR(50) NOT NULL,
     is_default BOOLEAN DEFAULT false,
     user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    household_id UUID REFERENCES households(id) ON DELETE CASCADE, -- Set for a shared household category
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    UNIQUE(name, user_id) -- Prevent duplicate category names per user
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Create monthly_goals table
 CREATE TABLE IF NOT EXISTS monthly_goals (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    household_id UUID REFERENCES households(id) ON DELETE CASCADE, -- Set for a shared household budget
     month VARCHAR(7) NOT NULL, -- YYYY-MM format
     income DECIMAL(12,2) NOT NULL,
     expenses JSONB NOT NULL, -- Array of category expenses
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create goal_templates table
+CREATE TABLE IF NOT EXISTS goal_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    income DECIMAL(12,2) NOT NULL,
+    expenses JSONB NOT NULL, -- Same shape as monthly_goals.expenses
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    UNIQUE(user_id, month) -- One goal per user per month
+    UNIQUE(user_id, name)
+);
+
+-- Create recurring_rules table
+CREATE TABLE IF NOT EXISTS recurring_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+    category_name VARCHAR(100) NOT NULL,
+    type VARCHAR(20) NOT NULL DEFAULT 'expense' CHECK (type IN ('expense', 'income', 'transfer', 'refund')),
+    amount DECIMAL(12,2) NOT NULL,
+    description TEXT NOT NULL,
+    frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+    interval INTEGER NOT NULL DEFAULT 1 CHECK (interval > 0),
+    start_date DATE NOT NULL,
+    end_date DATE,
+    max_occurrences INTEGER CHECK (max_occurrences > 0),
+    occurrences_created INTEGER NOT NULL DEFAULT 0,
+    next_occurrence DATE, -- NULL once the rule is exhausted
+    last_occurrence DATE,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create import_batches table
+CREATE TABLE IF NOT EXISTS import_batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    format VARCHAR(10) NOT NULL CHECK (format IN ('csv', 'ofx', 'qfx')),
+    filename VARCHAR(255),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'committing', 'committed', 'undone')),
+    rows JSONB NOT NULL, -- Parsed rows with duplicate flags and created transaction ids
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    imported_count INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0,
+    committed_at TIMESTAMP WITH TIME ZONE,
+    undone_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create category_rules table
+CREATE TABLE IF NOT EXISTS category_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 100, -- Lower runs first; the first matching rule wins
+    conditions JSONB NOT NULL, -- Array of {field, operator, value}, all of which must match
+    category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+    category_name VARCHAR(100) NOT NULL,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create accounts table
+CREATE TABLE IF NOT EXISTS accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('checking', 'savings', 'credit_card', 'cash')),
+    currency VARCHAR(3) NOT NULL, -- ISO 4217 code
+    opening_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+    is_archived BOOLEAN DEFAULT false,
+    last_reconciled_date DATE,
+    last_reconciled_balance DECIMAL(12,2),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create savings_goals table
+CREATE TABLE IF NOT EXISTS savings_goals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    target_amount DECIMAL(12,2) NOT NULL,
+    target_date DATE,
+    is_archived BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Create transactions table
 CREATE TABLE IF NOT EXISTS transactions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE, -- Member who entered it, for household transactions
+    household_id UUID REFERENCES households(id) ON DELETE CASCADE, -- Set for a shared household budget
     category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
     category_name VARCHAR(100) NOT NULL, -- Denormalized for performance
+    type VARCHAR(20) NOT NULL DEFAULT 'expense' CHECK (type IN ('expense', 'income', 'transfer', 'refund')),
     amount DECIMAL(12,2) NOT NULL,
+    currency VARCHAR(3), -- ISO 4217 code of amount; NULL (older rows) = the owner's base currency
     description TEXT NOT NULL,
     date DATE NOT NULL,
     month VARCHAR(7) NOT NULL, -- YYYY-MM format for easy querying
+    recurring_rule_id UUID REFERENCES recurring_rules(id) ON DELETE SET NULL, -- Set when created by a recurring rule
+    import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL, -- Set when created by a statement import
+    category_rule_id UUID REFERENCES category_rules(id) ON DELETE SET NULL, -- Set when the category was chosen by a rule
+    splits JSONB, -- Optional [{category_id, category_name, amount, note}] lines summing to amount
+    account_id UUID REFERENCES accounts(id) ON DELETE SET NULL,
+    cleared BOOLEAN DEFAULT false, -- Confirmed against an account statement
+    transfer_id UUID, -- Shared by both legs of a transfer between accounts
+    transfer_direction VARCHAR(3) CHECK (transfer_direction IN ('out', 'in')),
+    deleted_at TIMESTAMP WITH TIME ZONE, -- Soft delete marker, purged after the retention window
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create savings_contributions table
+CREATE TABLE IF NOT EXISTS savings_contributions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    savings_goal_id UUID NOT NULL REFERENCES savings_goals(id) ON DELETE CASCADE,
+    transaction_id UUID NOT NULL UNIQUE REFERENCES transactions(id) ON DELETE CASCADE, -- The transfer that moved the money
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('contribution', 'withdrawal')),
+    amount DECIMAL(12,2) NOT NULL,
+    date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create account_reconciliations table
+CREATE TABLE IF NOT EXISTS account_reconciliations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    statement_date DATE NOT NULL,
+    statement_balance DECIMAL(12,2) NOT NULL,
+    cleared_balance DECIMAL(12,2) NOT NULL,
+    difference DECIMAL(12,2) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('balanced', 'unbalanced')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create exchange_rates table
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    currency VARCHAR(3) NOT NULL,
+    base_currency VARCHAR(3) NOT NULL,
+    rate DECIMAL(18,8) NOT NULL CHECK (rate > 0), -- Units of base_currency per unit of currency
+    date DATE NOT NULL, -- Applies from this day until the next rate for the pair
+    source VARCHAR(10) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'file')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, currency, base_currency, date)
+);
+
 -- Create monthly_history table
 CREATE TABLE IF NOT EXISTS monthly_history (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    household_id UUID REFERENCES households(id) ON DELETE CASCADE, -- Set for a shared household budget
     month VARCHAR(7) NOT NULL, -- YYYY-MM format
     goal JSONB NOT NULL, -- Complete monthly goal data
     transactions JSONB NOT NULL, -- All transactions for the month
     total_income DECIMAL(12,2) NOT NULL,
     total_expenses DECIMAL(12,2) NOT NULL,
     actual_savings DECIMAL(12,2) NOT NULL,
+    currency VARCHAR(3), -- Base currency the totals were converted into
     finalized_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    reopened_at TIMESTAMP WITH TIME ZONE, -- Set while the month is reopened for editing; auto-close skips it
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create alert_rules table
+CREATE TABLE IF NOT EXISTS alert_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('category_threshold', 'large_transaction', 'bill_due', 'month_closing')),
+    category_id UUID REFERENCES categories(id) ON DELETE CASCADE, -- Threshold alerts without a category watch the whole budget
+    category_name VARCHAR(100),
+    threshold_percent DECIMAL(7,2) CHECK (threshold_percent > 0), -- Percent of the planned amount
+    amount DECIMAL(12,2) CHECK (amount > 0), -- Large transaction alerts, in the base currency
+    days_before INTEGER CHECK (days_before >= 0), -- Bill due and month closing alerts
+    channels JSONB NOT NULL DEFAULT '[]', -- Delivery channels besides the in-app inbox: email, webhook
+    webhook_url TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    alert_rule_id UUID REFERENCES alert_rules(id) ON DELETE SET NULL,
+    type VARCHAR(20) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    message TEXT NOT NULL,
+    data JSONB NOT NULL DEFAULT '{}',
+    dedupe_key VARCHAR(255) NOT NULL, -- Keeps an alert from firing twice for the same occurrence
+    deliveries JSONB NOT NULL DEFAULT '[]', -- Array of {channel, status, error, attempted_at}
+    read_at TIMESTAMP WITH TIME ZONE,
+    dismissed_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    UNIQUE(user_id, month) -- One history entry per user per month
+    UNIQUE(user_id, dedupe_key)
 );
 
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 CREATE INDEX IF NOT EXISTS idx_users_active ON users(is_active);
+CREATE INDEX IF NOT EXISTS idx_users_deleted_at ON users(deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_created ON password_reset_tokens(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_household_members_user_id ON household_members(user_id);
+-- One pending invitation per person per household
+CREATE UNIQUE INDEX IF NOT EXISTS idx_household_invitations_pending ON household_invitations(household_id, email)
+    WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_household_invitations_email ON household_invitations(email);
 
 CREATE INDEX IF NOT EXISTS idx_categories_user_id ON categories(user_id);
+-- Category names are unique per personal budget and per household
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_user_name ON categories(user_id, name) WHERE household_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_household_name ON categories(household_id, name) WHERE household_id IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_categories_default ON categories(is_default);
 
 CREATE INDEX IF NOT EXISTS idx_monthly_goals_user_id ON monthly_goals(user_id);
 CREATE INDEX IF NOT EXISTS idx_monthly_goals_month ON monthly_goals(month);
-CREATE INDEX IF NOT EXISTS idx_monthly_goals_user_month ON monthly_goals(user_id, month);
+-- One goal per month for each personal budget and each household
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monthly_goals_user_month ON monthly_goals(user_id, month) WHERE household_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monthly_goals_household_month ON monthly_goals(household_id, month) WHERE household_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_goal_templates_user_id ON goal_templates(user_id);
 
 CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON transactions(user_id);
 CREATE INDEX IF NOT EXISTS idx_transactions_category_id ON transactions(category_id);
 CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
 CREATE INDEX IF NOT EXISTS idx_transactions_month ON transactions(month);
 CREATE INDEX IF NOT EXISTS idx_transactions_user_month ON transactions(user_id, month);
+CREATE INDEX IF NOT EXISTS idx_transactions_household_month ON transactions(household_id, month);
+-- Date-range scans for analytics
+CREATE INDEX IF NOT EXISTS idx_transactions_user_date ON transactions(user_id, date) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_household_date ON transactions(household_id, date) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_deleted_at ON transactions(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(type);
+-- One transaction per recurring occurrence guards against duplicate materialization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_recurring_occurrence ON transactions(recurring_rule_id, date)
+    WHERE recurring_rule_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_import_batch_id ON transactions(import_batch_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_splits ON transactions USING GIN (splits jsonb_path_ops);
+CREATE INDEX IF NOT EXISTS idx_transactions_account_date ON transactions(account_id, date);
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_id ON transactions(transfer_id);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_rules_user_id ON recurring_rules(user_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_rules_next_occurrence ON recurring_rules(next_occurrence) WHERE is_active = true;
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_user_id ON import_batches(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_category_rules_user_priority ON category_rules(user_id, priority);
+
+CREATE INDEX IF NOT EXISTS idx_savings_goals_user_id ON savings_goals(user_id);
+CREATE INDEX IF NOT EXISTS idx_savings_contributions_goal_id ON savings_contributions(savings_goal_id);
+CREATE INDEX IF NOT EXISTS idx_savings_contributions_user_date ON savings_contributions(user_id, date);
+
+CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON accounts(user_id);
+CREATE INDEX IF NOT EXISTS idx_account_reconciliations_account_id ON account_reconciliations(account_id);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_user_date ON exchange_rates(user_id, date);
 
 CREATE INDEX IF NOT EXISTS idx_monthly_history_user_id ON monthly_history(user_id);
 CREATE INDEX IF NOT EXISTS idx_monthly_history_month ON monthly_history(month);
-CREATE INDEX IF NOT EXISTS idx_monthly_history_user_month ON monthly_history(user_id, month);
+-- One history entry per month for each personal budget and each household
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monthly_history_user_month ON monthly_history(user_id, month) WHERE household_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monthly_history_household_month ON monthly_history(household_id, month) WHERE household_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_user_id ON alert_rules(user_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
 
 -- Create function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -100,15 +394,45 @@ $$ language 'plpgsql';
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_households_updated_at BEFORE UPDATE ON households
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_household_members_updated_at BEFORE UPDATE ON household_members
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_categories_updated_at BEFORE UPDATE ON categories
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_monthly_goals_updated_at BEFORE UPDATE ON monthly_goals
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_goal_templates_updated_at BEFORE UPDATE ON goal_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_transactions_updated_at BEFORE UPDATE ON transactions
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_recurring_rules_updated_at BEFORE UPDATE ON recurring_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_import_batches_updated_at BEFORE UPDATE ON import_batches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_category_rules_updated_at BEFORE UPDATE ON category_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_savings_goals_updated_at BEFORE UPDATE ON savings_goals
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_accounts_updated_at BEFORE UPDATE ON accounts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_exchange_rates_updated_at BEFORE UPDATE ON exchange_rates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_alert_rules_updated_at BEFORE UPDATE ON alert_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Insert default categories
 INSERT INTO categories (name, color, icon, is_default) VALUES
 ('Food & Groceries', '#FF6B6B', 'shopping-cart', true),
@@ -117,7 +441,10 @@ INSERT INTO categories (name, color, icon, is_default) VALUES
 ('Transport', '#96CEB4', 'car', true),
 ('Health/Medical', '#FFEAA7', 'heart', true),
 ('Entertainment', '#DDA0DD', 'music', true),
-('Miscellaneous', '#98D8C8', 'more-horizontal', true)
+('Miscellaneous', '#98D8C8', 'more-horizontal', true),
+('Income', '#2ECC71', 'dollar-sign', true),
+('Savings', '#F1C40F', 'piggy-bank', true),
+('Transfer', '#95A5A6', 'repeat', true)
 ON CONFLICT DO NOTHING;
 
 -- Enable Row Level Security (RLS)
@@ -126,6 +453,22 @@ ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
 ALTER TABLE monthly_goals ENABLE ROW LEVEL SECURITY;
 ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE monthly_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurring_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE category_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE goal_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE savings_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE savings_contributions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE account_reconciliations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE password_reset_tokens ENABLE ROW LEVEL SECURITY; -- No policies: only the server reads reset tokens
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
 
 -- Create RLS policies
 -- Users can only access their own data
@@ -135,6 +478,10 @@ CREATE POLICY "Users can view own profile" ON users
 CREATE POLICY "Users can update own profile" ON users
     FOR UPDATE USING (auth.uid()::text = id::text);
 
+-- Sessions policies
+CREATE POLICY "Users can view own sessions" ON user_sessions
+    FOR SELECT USING (user_id::text = auth.uid()::text);
+
 -- Categories policies
 CREATE POLICY "Users can view own categories and default categories" ON categories
     FOR SELECT USING (
@@ -161,3 +508,82 @@ CREATE POLICY "Users can manage own transactions" ON transactions
 -- Monthly history policies
 CREATE POLICY "Users can manage own monthly history" ON monthly_history
     FOR ALL USING (user_id::text = auth.uid()::text);
+
+-- Recurring rules policies
+CREATE POLICY "Users can manage own recurring rules" ON recurring_rules
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+-- Import batches policies
+CREATE POLICY "Users can manage own import batches" ON import_batches
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+-- Category rules policies
+CREATE POLICY "Users can manage own category rules" ON category_rules
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+-- Goal templates policies
+CREATE POLICY "Users can manage own goal templates" ON goal_templates
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+-- Savings goals policies
+CREATE POLICY "Users can manage own savings goals" ON savings_goals
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+CREATE POLICY "Users can manage own savings contributions" ON savings_contributions
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+-- Accounts policies
+CREATE POLICY "Users can manage own accounts" ON accounts
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+CREATE POLICY "Users can manage own account reconciliations" ON account_reconciliations
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+-- Exchange rates policies
+CREATE POLICY "Users can manage own exchange rates" ON exchange_rates
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+-- Alert rules and notifications policies
+CREATE POLICY "Users can manage own alert rules" ON alert_rules
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+CREATE POLICY "Users can manage own notifications" ON notifications
+    FOR ALL USING (user_id::text = auth.uid()::text);
+
+-- Household policies
+CREATE POLICY "Members can view their households" ON households
+    FOR SELECT USING (
+        id IN (SELECT household_id FROM household_members WHERE user_id::text = auth.uid()::text)
+    );
+
+-- Membership rows are only readable by their own user; a self-referencing policy would recurse
+CREATE POLICY "Users can view own household memberships" ON household_members
+    FOR SELECT USING (user_id::text = auth.uid()::text);
+
+CREATE POLICY "Owners can manage household invitations" ON household_invitations
+    FOR ALL USING (
+        household_id IN (
+            SELECT household_id FROM household_members
+            WHERE user_id::text = auth.uid()::text AND role = 'owner'
+        )
+    );
+
+CREATE POLICY "Members can view household categories" ON categories
+    FOR SELECT USING (
+        household_id IN (SELECT household_id FROM household_members WHERE user_id::text = auth.uid()::text)
+    );
+
+CREATE POLICY "Members can view household monthly goals" ON monthly_goals
+    FOR SELECT USING (
+        household_id IN (SELECT household_id FROM household_members WHERE user_id::text = auth.uid()::text)
+    );
+
+CREATE POLICY "Members can view household transactions" ON transactions
+    FOR SELECT USING (
+        household_id IN (SELECT household_id FROM household_members WHERE user_id::text = auth.uid()::text)
+    );
+
+CREATE POLICY "Members can view household monthly history" ON monthly_history
+    FOR SELECT USING (
+        household_id IN (SELECT household_id FROM household_members WHERE user_id::text = auth.uid()::text)
+    );
@@ -38,6 +38,20 @@ export const supabase = createClient(
   process.env.SUPABASE_ANON_KEY as string
 );
 
+// Create a Supabase client for signing a user in or refreshing their session. Each call gets its own,
+// so no session is kept on the server or refreshed in the background (which would rotate the refresh
+// token handed to the client)
+export const createAuthClient = () => createClient(
+  process.env.SUPABASE_URL as string,
+  process.env.SUPABASE_ANON_KEY as string,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
 // Create Supabase admin client for server-side operations
 export const supabaseAdmin = createClient(
   process.env.SUPABASE_URL as string,
@@ -0,0 +1,267 @@
+import { Request, Response, NextFunction } from 'express';
+import { AccountService } from '../services/accountService';
+import {
+  CreateAccountRequest,
+  CreateTransferRequest,
+  ReconcileAccountRequest,
+  UpdateAccountRequest,
+  ApiResponse
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export class AccountController {
+  /**
+   * Get user's accounts with balances
+   */
+  static async getAccounts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const accounts = await AccountService.getAccounts(user.id, (req.query as any).include_archived);
+
+      const response: ApiResponse = {
+        success: true,
+        data: accounts,
+        message: 'Accounts retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get an account with its balance
+   */
+  static async getAccount(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { accountId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!accountId) {
+        throw createError('Account ID is required', 400);
+      }
+
+      const account = await AccountService.getAccount(user.id, accountId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: account,
+        message: 'Account retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create an account
+   */
+  static async createAccount(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const accountData: CreateAccountRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const account = await AccountService.createAccount(user.id, accountData);
+
+      const response: ApiResponse = {
+        success: true,
+        data: account,
+        message: 'Account created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update an account
+   */
+  static async updateAccount(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { accountId } = req.params;
+      const updates: UpdateAccountRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!accountId) {
+        throw createError('Account ID is required', 400);
+      }
+
+      const account = await AccountService.updateAccount(user.id, accountId, updates);
+
+      const response: ApiResponse = {
+        success: true,
+        data: account,
+        message: 'Account updated successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete an account
+   */
+  static async deleteAccount(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { accountId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!accountId) {
+        throw createError('Account ID is required', 400);
+      }
+
+      await AccountService.deleteAccount(user.id, accountId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Account deleted successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get an account's transactions with running balance
+   */
+  static async getLedger(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { accountId } = req.params;
+      const { from, to } = req.query as { from?: string; to?: string };
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!accountId) {
+        throw createError('Account ID is required', 400);
+      }
+
+      const ledger = await AccountService.getLedger(user.id, accountId, from, to);
+
+      const response: ApiResponse = {
+        success: true,
+        data: ledger,
+        message: 'Account ledger retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Transfer money between two accounts
+   */
+  static async createTransfer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const transferData: CreateTransferRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const transfer = await AccountService.createTransfer(user.id, transferData);
+
+      const response: ApiResponse = {
+        success: true,
+        data: transfer,
+        message: 'Transfer created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reconcile an account against a statement
+   */
+  static async reconcile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { accountId } = req.params;
+      const request: ReconcileAccountRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!accountId) {
+        throw createError('Account ID is required', 400);
+      }
+
+      const reconciliation = await AccountService.reconcile(user.id, accountId, request);
+
+      const response: ApiResponse = {
+        success: true,
+        data: reconciliation,
+        message: reconciliation.status === 'balanced'
+          ? 'Account reconciled successfully'
+          : `Cleared balance differs from the statement by ${Number(reconciliation.difference).toFixed(2)}`
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get an account's reconciliation history
+   */
+  static async getReconciliations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { accountId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!accountId) {
+        throw createError('Account ID is required', 400);
+      }
+
+      const reconciliations = await AccountService.getReconciliations(user.id, accountId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: reconciliations,
+        message: 'Reconciliations retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
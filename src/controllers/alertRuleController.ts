@@ -0,0 +1,144 @@
+import { Request, Response, NextFunction } from 'express';
+import { AlertService } from '../services/alertService';
+import { CreateAlertRuleRequest, UpdateAlertRuleRequest, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export class AlertRuleController {
+  /**
+   * Get user's alert rules
+   */
+  static async getRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const rules = await AlertService.getRules(user.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rules,
+        message: 'Alert rules retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get an alert rule
+   */
+  static async getRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { ruleId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!ruleId) {
+        throw createError('Rule ID is required', 400);
+      }
+
+      const rule = await AlertService.getRule(user.id, ruleId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rule,
+        message: 'Alert rule retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create an alert rule
+   */
+  static async createRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const ruleData: CreateAlertRuleRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const rule = await AlertService.createRule(user.id, ruleData);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rule,
+        message: 'Alert rule created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update an alert rule
+   */
+  static async updateRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { ruleId } = req.params;
+      const updates: UpdateAlertRuleRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!ruleId) {
+        throw createError('Rule ID is required', 400);
+      }
+
+      const rule = await AlertService.updateRule(user.id, ruleId, updates);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rule,
+        message: 'Alert rule updated successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete an alert rule
+   */
+  static async deleteRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { ruleId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!ruleId) {
+        throw createError('Rule ID is required', 400);
+      }
+
+      await AlertService.deleteRule(user.id, ruleId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Alert rule deleted successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
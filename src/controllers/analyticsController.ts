@@ -0,0 +1,131 @@
+import { Request, Response, NextFunction } from 'express';
+import { AnalyticsService } from '../services/analyticsService';
+import { AnalyticsQuery, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export class AnalyticsController {
+  /**
+   * Get month-over-month spending per category
+   */
+  static async getCategoryTrends(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const trends = await AnalyticsService.getCategoryTrends(user.id, req.query as AnalyticsQuery, (req as any).householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: trends,
+        message: 'Category trends retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the average daily spending
+   */
+  static async getBurnRate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const burnRate = await AnalyticsService.getBurnRate(user.id, req.query as AnalyticsQuery, (req as any).householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: burnRate,
+        message: 'Burn rate retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get spending by day of the week
+   */
+  static async getDayOfWeekBreakdown(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const breakdown = await AnalyticsService.getDayOfWeekBreakdown(user.id, req.query as AnalyticsQuery, (req as any).householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: breakdown,
+        message: 'Day of week breakdown retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get spending by merchant
+   */
+  static async getMerchantBreakdown(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const breakdown = await AnalyticsService.getMerchantBreakdown(user.id, req.query as AnalyticsQuery, (req as any).householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: breakdown,
+        message: 'Merchant breakdown retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the largest transactions
+   */
+  static async getLargestTransactions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const largest = await AnalyticsService.getLargestTransactions(user.id, req.query as AnalyticsQuery, (req as any).householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: largest,
+        message: 'Largest transactions retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
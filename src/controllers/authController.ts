@@ -1,8 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../services/authService';
-import { CreateUserRequest, LoginRequest, ApiResponse } from '../types';
+import { SessionService } from '../services/sessionService';
+import { CreateUserRequest, LoginRequest, ApiResponse, SessionClient } from '../types';
 import { createError } from '../middleware/errorHandler';
 
+// The device and address a request came from, recorded with new sessions
+const sessionClient = (req: Request): SessionClient => ({
+  user_agent: req.get('user-agent'),
+  ip_address: req.ip
+});
+
 export class AuthController {
   /**
    * Sign up a new user
@@ -11,7 +18,7 @@ export class AuthController {
     try {
       const userData: CreateUserRequest = req.body;
       
-      const result = await AuthService.signup(userData);
+      const result = await AuthService.signup(userData, sessionClient(req));
       
       const response: ApiResponse = {
         success: true,
@@ -32,7 +39,7 @@ export class AuthController {
     try {
       const loginData: LoginRequest = req.body;
       
-      const result = await AuthService.login(loginData);
+      const result = await AuthService.login(loginData, sessionClient(req));
       
       const response: ApiResponse = {
         success: true,
@@ -89,7 +96,7 @@ export class AuthController {
         throw createError('New password must be at least 6 characters long', 400);
       }
       
-      await AuthService.changePassword(user.id, currentPassword, newPassword);
+      await AuthService.changePassword(user.id, currentPassword, newPassword, req.headers.authorization?.split(' ')[1] || '');
       
       const response: ApiResponse = {
         success: true,
@@ -103,15 +110,157 @@ export class AuthController {
   }
 
   /**
-   * Logout user (client-side token removal)
+   * Email a password reset link
+   */
+  static async forgotPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      await AuthService.requestPasswordReset(email);
+
+      // Same answer whether or not the email has an account
+      const response: ApiResponse = {
+        success: true,
+        message: 'If an account exists for that email, a password reset link has been sent'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Check a password reset token before asking for the new password
+   */
+  static async verifyResetToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      const status = await AuthService.verifyResetToken(token);
+
+      const response: ApiResponse = {
+        success: true,
+        data: status,
+        message: 'Reset token is valid'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set a new password with a password reset token
+   */
+  static async resetPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token, newPassword } = req.body;
+
+      await AuthService.resetPassword(token, newPassword);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Password reset successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new access token
+   */
+  static async refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { refresh_token } = req.body;
+
+      const result = await AuthService.refresh(refresh_token, sessionClient(req));
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        message: 'Session refreshed successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Logout user, revoking the current session
    */
   static async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
+      const token = req.headers.authorization?.split(' ')[1];
+
+      if (token) {
+        await SessionService.endSession(token);
+      }
+
       const response: ApiResponse = {
         success: true,
         message: 'Logout successful'
       };
-      
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the user's active sessions
+   */
+  static async getSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const sessions = await SessionService.getSessions(user.id, (req as any).sessionId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: sessions,
+        message: 'Sessions retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke one of the user's sessions
+   */
+  static async revokeSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { sessionId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!sessionId) {
+        throw createError('Session ID is required', 400);
+      }
+
+      await SessionService.revokeSession(user.id, sessionId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Session revoked successfully'
+      };
+
       res.status(200).json(response);
     } catch (error) {
       next(error);
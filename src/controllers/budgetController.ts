@@ -1,11 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import { BudgetService } from '../services/budgetService';
-import { CreateMonthlyGoalRequest, CreateTransactionRequest, ApiResponse } from '../types';
+import { CreateMonthlyGoalRequest, CreateTransactionRequest, ApiResponse, PaginatedResponse, Transaction, TransactionQuery } from '../types';
 import { createError } from '../middleware/errorHandler';
 
 export class BudgetController {
   /**
-   * Get dashboard summary data
+   * Get dashboard summary data (current month unless ?month=YYYY-MM is given)
    */
   static async getDashboardSummary(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -15,7 +15,8 @@ export class BudgetController {
         throw createError('User not found', 404);
       }
 
-      const summary = await BudgetService.getDashboardSummary(user.id);
+      const { month } = req.query as { month?: string };
+      const summary = await BudgetService.getDashboardSummary(user.id, month, (req as any).householdId);
       
       const response: ApiResponse = {
         success: true,
@@ -30,7 +31,7 @@ export class BudgetController {
   }
 
   /**
-   * Get user's monthly goal
+   * Get user's monthly goal (current month unless ?month=YYYY-MM is given)
    */
   static async getMonthlyGoal(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -40,7 +41,8 @@ export class BudgetController {
         throw createError('User not found', 404);
       }
 
-      const goal = await BudgetService.getCurrentMonthlyGoal(user.id);
+      const { month } = req.query as { month?: string };
+      const goal = await BudgetService.getMonthlyGoal(user.id, month, (req as any).householdId);
       
       const response: ApiResponse = {
         success: true,
@@ -66,7 +68,7 @@ export class BudgetController {
         throw createError('User not found', 404);
       }
 
-      const goal = await BudgetService.createMonthlyGoal(user.id, goalData);
+      const goal = await BudgetService.createMonthlyGoal(user.id, goalData, (req as any).householdId);
       
       const response: ApiResponse = {
         success: true,
@@ -81,7 +83,7 @@ export class BudgetController {
   }
 
   /**
-   * Get user's transactions
+   * Search user's transactions (filtered, sorted and paginated)
    */
   static async getTransactions(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -91,12 +93,20 @@ export class BudgetController {
         throw createError('User not found', 404);
       }
 
-      const transactions = await BudgetService.getCurrentMonthTransactions(user.id);
-      
-      const response: ApiResponse = {
+      const query = req.query as unknown as TransactionQuery;
+      const { transactions, total, nextCursor } = await BudgetService.searchTransactions(user.id, query, (req as any).householdId);
+
+      const response: PaginatedResponse<Transaction> = {
         success: true,
         data: transactions,
-        message: 'Transactions retrieved successfully'
+        message: 'Transactions retrieved successfully',
+        pagination: {
+          page: query.page || 1,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+          nextCursor
+        }
       };
       
       res.status(200).json(response);
@@ -117,7 +127,7 @@ export class BudgetController {
         throw createError('User not found', 404);
       }
 
-      const transaction = await BudgetService.createTransaction(user.id, transactionData);
+      const transaction = await BudgetService.createTransaction(user.id, transactionData, { householdId: (req as any).householdId });
       
       const response: ApiResponse = {
         success: true,
@@ -147,7 +157,7 @@ export class BudgetController {
         throw createError('Transaction ID is required', 400);
       }
 
-      const transaction = await BudgetService.updateTransaction(user.id, transactionId, updates);
+      const transaction = await BudgetService.updateTransaction(user.id, transactionId, updates, (req as any).householdId);
 
       const response: ApiResponse = {
         success: true,
@@ -161,6 +171,116 @@ export class BudgetController {
     }
   }
 
+  /**
+   * Soft delete a transaction
+   */
+  static async deleteTransaction(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { transactionId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!transactionId) {
+        throw createError('Transaction ID is required', 400);
+      }
+
+      const ids = await BudgetService.deleteTransactions(user.id, [transactionId], (req as any).householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { ids },
+        message: 'Transaction deleted successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Soft delete several transactions at once
+   */
+  static async bulkDeleteTransactions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { ids } = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const deletedIds = await BudgetService.deleteTransactions(user.id, ids, (req as any).householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { ids: deletedIds },
+        message: 'Transactions deleted successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Restore a soft-deleted transaction
+   */
+  static async restoreTransaction(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { transactionId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!transactionId) {
+        throw createError('Transaction ID is required', 400);
+      }
+
+      const [transaction] = await BudgetService.restoreTransactions(user.id, [transactionId], (req as any).householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: transaction,
+        message: 'Transaction restored successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Restore several soft-deleted transactions at once
+   */
+  static async bulkRestoreTransactions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { ids } = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const transactions = await BudgetService.restoreTransactions(user.id, ids, (req as any).householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: transactions,
+        message: 'Transactions restored successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get user's monthly history
    */
@@ -172,7 +292,7 @@ export class BudgetController {
         throw createError('User not found', 404);
       }
 
-      const history = await BudgetService.getMonthlyHistory(user.id);
+      const history = await BudgetService.getMonthlyHistory(user.id, (req as any).householdId);
       
       const response: ApiResponse = {
         success: true,
@@ -186,6 +306,92 @@ export class BudgetController {
     }
   }
 
+  /**
+   * Finalize (close) a month into history
+   */
+  static async finalizeMonth(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { month } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!month || !/^\d{4}-\d{2}$/.test(month)) {
+        throw createError('Month must be in YYYY-MM format', 400);
+      }
+
+      const history = await BudgetService.finalizeMonth(user.id, month, (req as any).householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: history,
+        message: 'Month finalized successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reopen a closed month
+   */
+  static async reopenMonth(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { month } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!month || !/^\d{4}-\d{2}$/.test(month)) {
+        throw createError('Month must be in YYYY-MM format', 400);
+      }
+
+      await BudgetService.reopenMonth(user.id, month, (req as any).householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Month reopened successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get budget vs actual progress per category for a month
+   */
+  static async getGoalProgress(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { month } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!month || !/^\d{4}-\d{2}$/.test(month)) {
+        throw createError('Month must be in YYYY-MM format', 400);
+      }
+
+      const progress = await BudgetService.getGoalProgress(user.id, month, (req as any).householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: progress,
+        message: 'Goal progress retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get user's categories
    */
@@ -197,7 +403,7 @@ export class BudgetController {
         throw createError('User not found', 404);
       }
 
-      const categories = await BudgetService.getUserCategories(user.id);
+      const categories = await BudgetService.getUserCategories(user.id, (req as any).householdId);
       
       const response: ApiResponse = {
         success: true,
@@ -227,7 +433,7 @@ export class BudgetController {
         throw createError('Name, color, and icon are required', 400);
       }
 
-      const category = await BudgetService.createCategory(user.id, categoryData);
+      const category = await BudgetService.createCategory(user.id, categoryData, (req as any).householdId);
       
       const response: ApiResponse = {
         success: true,
@@ -257,7 +463,7 @@ export class BudgetController {
         throw createError('Category ID is required', 400);
       }
 
-      await BudgetService.deleteCategory(user.id, categoryId);
+      await BudgetService.deleteCategory(user.id, categoryId, (req as any).householdId);
       
       const response: ApiResponse = {
         success: true,
@@ -0,0 +1,195 @@
+import { Request, Response, NextFunction } from 'express';
+import { CategoryRuleService } from '../services/categoryRuleService';
+import { ApplyCategoryRuleChangesRequest, ApplyCategoryRulesRequest, CreateCategoryRuleRequest, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export class CategoryRuleController {
+  /**
+   * Get user's categorization rules
+   */
+  static async getRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const rules = await CategoryRuleService.getRules(user.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rules,
+        message: 'Categorization rules retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a categorization rule
+   */
+  static async getRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { ruleId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!ruleId) {
+        throw createError('Rule ID is required', 400);
+      }
+
+      const rule = await CategoryRuleService.getRule(user.id, ruleId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rule,
+        message: 'Categorization rule retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a categorization rule
+   */
+  static async createRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const ruleData: CreateCategoryRuleRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const rule = await CategoryRuleService.createRule(user.id, ruleData);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rule,
+        message: 'Categorization rule created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a categorization rule
+   */
+  static async updateRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { ruleId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!ruleId) {
+        throw createError('Rule ID is required', 400);
+      }
+
+      const rule = await CategoryRuleService.updateRule(user.id, ruleId, req.body);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rule,
+        message: 'Categorization rule updated successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a categorization rule
+   */
+  static async deleteRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { ruleId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!ruleId) {
+        throw createError('Rule ID is required', 400);
+      }
+
+      await CategoryRuleService.deleteRule(user.id, ruleId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Categorization rule deleted successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Preview which past transactions the rules would recategorize
+   */
+  static async previewApply(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const request: ApplyCategoryRulesRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const changes = await CategoryRuleService.previewApply(user.id, request);
+
+      const response: ApiResponse = {
+        success: true,
+        data: changes,
+        message: 'Categorization preview generated successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Apply previewed re-categorizations
+   */
+  static async applyRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const request: ApplyCategoryRuleChangesRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const result = await CategoryRuleService.applyRules(user.id, request);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        message: 'Categorization rules applied successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { Request, Response, NextFunction } from 'express';
+import { ExchangeRateService } from '../services/exchangeRateService';
+import { ExchangeRateQuery, ImportExchangeRatesRequest, SetExchangeRateRequest, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export class ExchangeRateController {
+  /**
+   * Get user's exchange rates
+   */
+  static async getRates(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const rates = await ExchangeRateService.getRates(user.id, req.query as ExchangeRateQuery);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rates,
+        message: 'Exchange rates retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set an exchange rate manually
+   */
+  static async setRate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const rateData: SetExchangeRateRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const rate = await ExchangeRateService.setRate(user.id, rateData);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rate,
+        message: 'Exchange rate saved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Load exchange rates from a CSV file
+   */
+  static async importRates(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const request: ImportExchangeRatesRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const result = await ExchangeRateService.importRates(user.id, request);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        message: `Imported ${result.imported} exchange rate(s)`
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete an exchange rate
+   */
+  static async deleteRate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { rateId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!rateId) {
+        throw createError('Exchange rate ID is required', 400);
+      }
+
+      await ExchangeRateService.deleteRate(user.id, rateId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Exchange rate deleted successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import { ExportService } from '../services/exportService';
+import { ExportFormat, ExportOptions } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+export class ExportController {
+  /**
+   * Stream an export of the user's data as a file download
+   */
+  static async exportData(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const options = req.query as unknown as ExportOptions;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const filename = `budgetwise-export-${new Date().toISOString().slice(0, 10)}.${options.format}`;
+      res.status(200);
+      res.setHeader('Content-Type', CONTENT_TYPES[options.format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+      await ExportService.streamExport(user.id, options, res);
+    } catch (error) {
+      // Once streaming has started the status line is gone, so the only signal left is aborting the download
+      if (res.headersSent) {
+        console.error('Export stream error:', error);
+        res.destroy(error as Error);
+        return;
+      }
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import { ForecastService } from '../services/forecastService';
+import { ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export class ForecastController {
+  /**
+   * Get the month-end spending forecast (current month unless ?month=YYYY-MM is given)
+   */
+  static async getForecast(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const { month } = req.query as { month?: string };
+      const forecast = await ForecastService.getForecast(user.id, month, (req as any).householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: forecast,
+        message: 'Forecast retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { Request, Response, NextFunction } from 'express';
+import { GoalTemplateService } from '../services/goalTemplateService';
+import { ApplyGoalRequest, CreateGoalTemplateRequest, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export class GoalTemplateController {
+  /**
+   * Get user's goal templates
+   */
+  static async getTemplates(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const templates = await GoalTemplateService.getTemplates(user.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: templates,
+        message: 'Goal templates retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a goal template
+   */
+  static async getTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { templateId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!templateId) {
+        throw createError('Template ID is required', 400);
+      }
+
+      const template = await GoalTemplateService.getTemplate(user.id, templateId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: template,
+        message: 'Goal template retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a goal template
+   */
+  static async createTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const templateData: CreateGoalTemplateRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const template = await GoalTemplateService.createTemplate(user.id, templateData);
+
+      const response: ApiResponse = {
+        success: true,
+        data: template,
+        message: 'Goal template created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a goal template
+   */
+  static async updateTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { templateId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!templateId) {
+        throw createError('Template ID is required', 400);
+      }
+
+      const template = await GoalTemplateService.updateTemplate(user.id, templateId, req.body);
+
+      const response: ApiResponse = {
+        success: true,
+        data: template,
+        message: 'Goal template updated successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a goal template
+   */
+  static async deleteTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { templateId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!templateId) {
+        throw createError('Template ID is required', 400);
+      }
+
+      await GoalTemplateService.deleteTemplate(user.id, templateId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Goal template deleted successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create goals for one or more months from a template or the previous month
+   */
+  static async applyGoal(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const request: ApplyGoalRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const result = await GoalTemplateService.applyGoal(user.id, request);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        message: `Created ${result.created.length} monthly goal(s)`
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,377 @@
+import { Request, Response, NextFunction } from 'express';
+import { HouseholdService } from '../services/householdService';
+import {
+  CreateHouseholdInvitationRequest,
+  CreateHouseholdRequest,
+  HouseholdRole,
+  ApiResponse
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export class HouseholdController {
+  /**
+   * Get the households the user belongs to
+   */
+  static async getHouseholds(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const households = await HouseholdService.getHouseholds(user.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: households,
+        message: 'Households retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a household with its members
+   */
+  static async getHousehold(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { householdId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!householdId) {
+        throw createError('Household ID is required', 400);
+      }
+
+      const household = await HouseholdService.getHousehold(user.id, householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: household,
+        message: 'Household retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a household owned by the user
+   */
+  static async createHousehold(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const householdData: CreateHouseholdRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const household = await HouseholdService.createHousehold(user.id, householdData);
+
+      const response: ApiResponse = {
+        success: true,
+        data: household,
+        message: 'Household created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rename a household
+   */
+  static async updateHousehold(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { householdId } = req.params;
+      const updates: CreateHouseholdRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!householdId) {
+        throw createError('Household ID is required', 400);
+      }
+
+      const household = await HouseholdService.updateHousehold(user.id, householdId, updates);
+
+      const response: ApiResponse = {
+        success: true,
+        data: household,
+        message: 'Household updated successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a household and its shared budget
+   */
+  static async deleteHousehold(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { householdId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!householdId) {
+        throw createError('Household ID is required', 400);
+      }
+
+      await HouseholdService.deleteHousehold(user.id, householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Household deleted successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Invite someone to a household by email
+   */
+  static async inviteMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { householdId } = req.params;
+      const invitationData: CreateHouseholdInvitationRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!householdId) {
+        throw createError('Household ID is required', 400);
+      }
+
+      const invitation = await HouseholdService.inviteMember(user.id, householdId, invitationData);
+
+      const response: ApiResponse = {
+        success: true,
+        data: invitation,
+        message: 'Invitation sent successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a household's pending invitations
+   */
+  static async getInvitations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { householdId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!householdId) {
+        throw createError('Household ID is required', 400);
+      }
+
+      const invitations = await HouseholdService.getInvitations(user.id, householdId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: invitations,
+        message: 'Invitations retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  static async revokeInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { householdId, invitationId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!householdId || !invitationId) {
+        throw createError('Household ID and Invitation ID are required', 400);
+      }
+
+      await HouseholdService.revokeInvitation(user.id, householdId, invitationId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Invitation revoked successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the pending invitations sent to the user's email
+   */
+  static async getMyInvitations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const invitations = await HouseholdService.getMyInvitations(user.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: invitations,
+        message: 'Invitations retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Accept an invitation and join the household
+   */
+  static async acceptInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { invitationId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!invitationId) {
+        throw createError('Invitation ID is required', 400);
+      }
+
+      const invitation = await HouseholdService.respondToInvitation(user.id, invitationId, true);
+
+      const response: ApiResponse = {
+        success: true,
+        data: invitation,
+        message: 'Invitation accepted successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Decline an invitation
+   */
+  static async declineInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { invitationId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!invitationId) {
+        throw createError('Invitation ID is required', 400);
+      }
+
+      const invitation = await HouseholdService.respondToInvitation(user.id, invitationId, false);
+
+      const response: ApiResponse = {
+        success: true,
+        data: invitation,
+        message: 'Invitation declined successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change a member's role
+   */
+  static async updateMemberRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { householdId, userId } = req.params;
+      const { role } = req.body as { role: HouseholdRole };
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!householdId || !userId) {
+        throw createError('Household ID and User ID are required', 400);
+      }
+
+      const household = await HouseholdService.updateMemberRole(user.id, householdId, userId, role);
+
+      const response: ApiResponse = {
+        success: true,
+        data: household,
+        message: 'Member role updated successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a member, or leave the household
+   */
+  static async removeMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { householdId, userId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!householdId || !userId) {
+        throw createError('Household ID and User ID are required', 400);
+      }
+
+      await HouseholdService.removeMember(user.id, householdId, userId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Member removed successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { Request, Response, NextFunction } from 'express';
+import { ImportService } from '../services/importService';
+import { CommitImportRequest, CreateImportRequest, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export class ImportController {
+  /**
+   * Upload a statement and get a dry-run preview
+   */
+  static async previewImport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const importData: CreateImportRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const batch = await ImportService.previewImport(user.id, importData);
+
+      const response: ApiResponse = {
+        success: true,
+        data: batch,
+        message: 'Import preview created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Commit a previewed import
+   */
+  static async commitImport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { batchId } = req.params;
+      const options: CommitImportRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!batchId) {
+        throw createError('Import ID is required', 400);
+      }
+
+      const batch = await ImportService.commitImport(user.id, batchId, options);
+
+      const response: ApiResponse = {
+        success: true,
+        data: batch,
+        message: 'Import committed successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Undo an import
+   */
+  static async undoImport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { batchId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!batchId) {
+        throw createError('Import ID is required', 400);
+      }
+
+      const batch = await ImportService.undoImport(user.id, batchId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: batch,
+        message: 'Import undone successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get user's imports
+   */
+  static async getImports(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const batches = await ImportService.getImports(user.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: batches,
+        message: 'Imports retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get an import with its rows
+   */
+  static async getImport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { batchId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!batchId) {
+        throw createError('Import ID is required', 400);
+      }
+
+      const batch = await ImportService.getImport(user.id, batchId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: batch,
+        message: 'Import retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { Request, Response, NextFunction } from 'express';
+import { NotificationService } from '../services/notificationService';
+import { ApiResponse, Notification, NotificationQuery, PaginatedResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export class NotificationController {
+  /**
+   * Get user's notifications (newest first, paginated)
+   */
+  static async getNotifications(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const query = req.query as unknown as NotificationQuery;
+      const { notifications, total } = await NotificationService.getNotifications(user.id, query);
+
+      const response: PaginatedResponse<Notification> = {
+        success: true,
+        data: notifications,
+        message: 'Notifications retrieved successfully',
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit)
+        }
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the number of unread notifications
+   */
+  static async getUnreadCount(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const count = await NotificationService.getUnreadCount(user.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { count },
+        message: 'Unread notification count retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Mark a notification as read
+   */
+  static async markRead(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { notificationId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!notificationId) {
+        throw createError('Notification ID is required', 400);
+      }
+
+      const notification = await NotificationService.markRead(user.id, notificationId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: notification,
+        message: 'Notification marked as read'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Mark all notifications as read
+   */
+  static async markAllRead(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const updated = await NotificationService.markAllRead(user.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { updated },
+        message: 'Notifications marked as read'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Dismiss a notification
+   */
+  static async dismiss(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { notificationId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!notificationId) {
+        throw createError('Notification ID is required', 400);
+      }
+
+      await NotificationService.dismiss(user.id, notificationId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Notification dismissed successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { Request, Response, NextFunction } from 'express';
+import { RecurringService } from '../services/recurringService';
+import { CreateRecurringRuleRequest, UpdateRecurringRuleRequest, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export class RecurringController {
+  /**
+   * Get user's recurring rules
+   */
+  static async getRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const rules = await RecurringService.getRules(user.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rules,
+        message: 'Recurring rules retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a recurring rule
+   */
+  static async getRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { ruleId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!ruleId) {
+        throw createError('Rule ID is required', 400);
+      }
+
+      const rule = await RecurringService.getRule(user.id, ruleId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rule,
+        message: 'Recurring rule retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a recurring rule
+   */
+  static async createRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const ruleData: CreateRecurringRuleRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const rule = await RecurringService.createRule(user.id, ruleData);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rule,
+        message: 'Recurring rule created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a recurring rule
+   */
+  static async updateRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { ruleId } = req.params;
+      const updates: UpdateRecurringRuleRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!ruleId) {
+        throw createError('Rule ID is required', 400);
+      }
+
+      const rule = await RecurringService.updateRule(user.id, ruleId, updates);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rule,
+        message: 'Recurring rule updated successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a recurring rule
+   */
+  static async deleteRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { ruleId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!ruleId) {
+        throw createError('Rule ID is required', 400);
+      }
+
+      await RecurringService.deleteRule(user.id, ruleId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Recurring rule deleted successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Preview upcoming bills from recurring rules
+   */
+  static async getUpcoming(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { days } = req.query as unknown as { days: number };
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const upcoming = await RecurringService.getUpcoming(user.id, days);
+
+      const response: ApiResponse = {
+        success: true,
+        data: upcoming,
+        message: 'Upcoming bills retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
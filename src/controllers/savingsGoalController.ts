@@ -0,0 +1,208 @@
+import { Request, Response, NextFunction } from 'express';
+import { SavingsGoalService } from '../services/savingsGoalService';
+import {
+  CreateSavingsContributionRequest,
+  CreateSavingsGoalRequest,
+  UpdateSavingsGoalRequest,
+  ApiResponse
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export class SavingsGoalController {
+  /**
+   * Get user's savings goals
+   */
+  static async getGoals(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const goals = await SavingsGoalService.getGoals(user.id, (req.query as any).include_archived);
+
+      const response: ApiResponse = {
+        success: true,
+        data: goals,
+        message: 'Savings goals retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a savings goal
+   */
+  static async getGoal(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { goalId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!goalId) {
+        throw createError('Savings goal ID is required', 400);
+      }
+
+      const goal = await SavingsGoalService.getGoal(user.id, goalId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: goal,
+        message: 'Savings goal retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a savings goal
+   */
+  static async createGoal(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const goalData: CreateSavingsGoalRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const goal = await SavingsGoalService.createGoal(user.id, goalData);
+
+      const response: ApiResponse = {
+        success: true,
+        data: goal,
+        message: 'Savings goal created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a savings goal
+   */
+  static async updateGoal(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { goalId } = req.params;
+      const updates: UpdateSavingsGoalRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!goalId) {
+        throw createError('Savings goal ID is required', 400);
+      }
+
+      const goal = await SavingsGoalService.updateGoal(user.id, goalId, updates);
+
+      const response: ApiResponse = {
+        success: true,
+        data: goal,
+        message: 'Savings goal updated successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a savings goal
+   */
+  static async deleteGoal(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { goalId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!goalId) {
+        throw createError('Savings goal ID is required', 400);
+      }
+
+      await SavingsGoalService.deleteGoal(user.id, goalId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Savings goal deleted successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add a contribution to or withdrawal from a savings goal
+   */
+  static async addContribution(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { goalId } = req.params;
+      const contributionData: CreateSavingsContributionRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!goalId) {
+        throw createError('Savings goal ID is required', 400);
+      }
+
+      const goal = await SavingsGoalService.addContribution(user.id, goalId, contributionData);
+
+      const response: ApiResponse = {
+        success: true,
+        data: goal,
+        message: contributionData.kind === 'withdrawal' ? 'Withdrawal recorded successfully' : 'Contribution recorded successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a contribution or withdrawal
+   */
+  static async deleteContribution(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { goalId, contributionId } = req.params;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!goalId || !contributionId) {
+        throw createError('Savings goal ID and contribution ID are required', 400);
+      }
+
+      const goal = await SavingsGoalService.deleteContribution(user.id, goalId, contributionId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: goal,
+        message: 'Contribution deleted successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
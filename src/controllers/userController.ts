@@ -0,0 +1,143 @@
+import { Request, Response, NextFunction } from 'express';
+import { UserService } from '../services/userService';
+import { ExportService } from '../services/exportService';
+import { UpdatePreferencesRequest, UpdateProfileRequest, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export class UserController {
+  /**
+   * Get user profile
+   */
+  static async getProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const profile = await UserService.getProfile(user.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: profile,
+        message: 'Profile retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update user profile
+   */
+  static async updateProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const updates: UpdateProfileRequest = req.body;
+      const token = req.headers.authorization?.split(' ')[1];
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const profile = await UserService.updateProfile(user.id, token, updates);
+
+      const response: ApiResponse = {
+        success: true,
+        data: profile,
+        message: profile.pending_email && updates.email
+          ? 'Profile updated successfully; check your new email to confirm the change'
+          : 'Profile updated successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update user preferences
+   */
+  static async updatePreferences(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const preferences: UpdatePreferencesRequest = req.body;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const updated = await UserService.updatePreferences(user.id, preferences);
+
+      const response: ApiResponse = {
+        success: true,
+        data: updated,
+        message: 'Preferences updated successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete the user's account after the grace period
+   */
+  static async deleteAccount(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const deletion = await UserService.requestDeletion(
+        user.id,
+        parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30')
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: deletion,
+        message: 'Account scheduled for deletion; sign in before then to keep it'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download everything tied to the user as a JSON archive
+   */
+  static async exportData(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const filename = `budgetwise-data-export-${new Date().toISOString().slice(0, 10)}.json`;
+      res.status(200);
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+      await ExportService.streamDataArchive(user.id, res);
+    } catch (error) {
+      // Once streaming has started the status line is gone, so the only signal left is aborting the download
+      if (res.headersSent) {
+        console.error('Data export stream error:', error);
+        res.destroy(error as Error);
+        return;
+      }
+      next(error);
+    }
+  }
+}
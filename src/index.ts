@@ -16,7 +16,14 @@ import { notFoundHandler } from './middleware/notFoundHandler';
 import authRoutes from './routes/auth';
 import userRoutes from './routes/user';
 import budgetRoutes from './routes/budget';
+import householdRoutes from './routes/household';
+import notificationRoutes from './routes/notification';
 import { connectDatabase } from './config/database';
+import { scheduleJob } from './utils/scheduler';
+import { BudgetService } from './services/budgetService';
+import { RecurringService } from './services/recurringService';
+import { AlertService } from './services/alertService';
+import { UserService } from './services/userService';
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -67,6 +74,8 @@ app.get('/health', (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/user', userRoutes);
 app.use('/api/budget', budgetRoutes);
+app.use('/api/households', householdRoutes);
+app.use('/api/notifications', notificationRoutes);
 
 // Error handling middleware
 app.use(notFoundHandler);
@@ -77,7 +86,34 @@ const startServer = async () => {
   try {
     // Connect to database
     await connectDatabase();
-    
+
+    // Background jobs
+    scheduleJob(
+      'close-ended-months',
+      parseInt(process.env.MONTH_CLOSE_INTERVAL_MS || '3600000'), // 1 hour
+      () => BudgetService.closeEndedMonths()
+    );
+    scheduleJob(
+      'purge-deleted-transactions',
+      parseInt(process.env.PURGE_INTERVAL_MS || '86400000'), // 24 hours
+      () => BudgetService.purgeDeletedTransactions(parseInt(process.env.TRANSACTION_RETENTION_DAYS || '30'))
+    );
+    scheduleJob(
+      'materialize-recurring-transactions',
+      parseInt(process.env.RECURRING_INTERVAL_MS || '3600000'), // 1 hour
+      () => RecurringService.materializeDueOccurrences()
+    );
+    scheduleJob(
+      'purge-deleted-accounts',
+      parseInt(process.env.PURGE_INTERVAL_MS || '86400000'), // 24 hours
+      () => UserService.purgeDeletedUsers(parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30'))
+    );
+    scheduleJob(
+      'evaluate-alerts',
+      parseInt(process.env.ALERT_INTERVAL_MS || '3600000'), // 1 hour
+      () => AlertService.evaluateScheduledAlerts()
+    );
+
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`📊 Environment: ${process.env.NODE_ENV}`);
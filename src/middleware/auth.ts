@@ -2,6 +2,8 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { supabase, supabaseAdmin } from '../config/database';
 import { JWTPayload, AuthenticatedRequest } from '../types';
+import { UserService } from '../services/userService';
+import { SessionService } from '../services/sessionService';
 
 export const authenticateToken = async (
   req: AuthenticatedRequest,
@@ -20,29 +22,20 @@ export const authenticateToken = async (
       return;
     }
 
-    // Prefer Supabase token validation
+    // Only Supabase tokens are accepted: they belong to a session that can be revoked
     const { data, error: supaError } = await supabase.auth.getUser(token);
     if (supaError || !data?.user) {
-      // fallback to legacy custom JWT if present
-      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JWTPayload;
-      const { data: user, error } = await supabaseAdmin
-        .from('users')
-        .select('*')
-        .eq('id', decoded.userId)
-        .eq('is_active', true)
-        .single();
-
-      if (error || !user) {
-        res.status(401).json({ success: false, error: 'Invalid token or user not found' });
-        return;
-      }
+      res.status(401).json({ success: false, error: 'Invalid token' });
+      return;
+    }
 
-      (req as any).user = user;
-      next();
+    // Sessions revoked from another device are refused even if the token has not expired
+    const client = { user_agent: req.get('user-agent'), ip_address: req.ip };
+    if (!(await SessionService.isActive(data.user.id, token, client))) {
+      res.status(401).json({ success: false, error: 'Session has been revoked' });
       return;
     }
 
-    // Supabase token path
     const authUserId = data.user.id;
     const { data: user, error } = await supabaseAdmin
       .from('users')
@@ -56,17 +49,11 @@ export const authenticateToken = async (
       return;
     }
 
-    (req as any).user = user;
+    // Pick up an email change the user has confirmed through Supabase Auth
+    (req as any).user = await UserService.syncEmail(user, data.user.email);
+    (req as any).sessionId = SessionService.sessionIdOf(token);
     next();
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      res.status(401).json({
-        success: false,
-        error: 'Invalid token'
-      });
-      return;
-    }
-
     res.status(500).json({
       success: false,
       error: 'Authentication error'
@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+import { createError } from './errorHandler';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Read the household budget a request works on from the X-Household-Id header.
+ * Without the header requests use the caller's personal budget.
+ */
+export const householdScope = (req: Request, res: Response, next: NextFunction): void => {
+  const householdId = req.header('x-household-id');
+
+  if (householdId && !UUID_PATTERN.test(householdId)) {
+    next(createError('X-Household-Id must be a valid household ID', 400));
+    return;
+  }
+
+  (req as any).householdId = householdId || null;
+  next();
+};
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { createError } from './errorHandler';
+import { isValidTimeZone } from '../utils/date';
+import { CURRENCY_PATTERN } from '../utils/currency';
 
 export const validateRequest = (schema: Joi.ObjectSchema) => {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -17,7 +19,55 @@ export const validateRequest = (schema: Joi.ObjectSchema) => {
   };
 };
 
+export const validateQuery = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { error, value } = schema.validate(req.query);
+
+    if (error) {
+      const errorMessage = error.details.map(detail => detail.message).join(', ');
+      const validationError = createError(`Validation Error: ${errorMessage}`, 400);
+      next(validationError);
+      return;
+    }
+
+    // Replace the raw query strings with the converted values (numbers, arrays, defaults)
+    req.query = value;
+    next();
+  };
+};
+
 // Validation schemas
+const timezone = Joi.string().custom((value, helpers) => {
+  return isValidTimeZone(value) ? value : helpers.error('any.invalid');
+}).messages({
+  'any.invalid': 'Timezone must be a valid IANA timezone, e.g. America/New_York'
+});
+
+const currency = Joi.string().pattern(CURRENCY_PATTERN).messages({
+  'string.pattern.base': 'Currency must be a 3-letter ISO code, e.g. EUR'
+});
+
+const locale = Joi.string().custom((value, helpers) => {
+  try {
+    Intl.getCanonicalLocales(value);
+    return value;
+  } catch {
+    return helpers.error('any.invalid');
+  }
+}).messages({
+  'any.invalid': 'Locale must be a valid BCP 47 language tag, e.g. en-US'
+});
+
+const weekStart = Joi.number().integer().min(0).max(6).messages({
+  'number.min': 'Week start must be a day from 0 (Sunday) to 6 (Saturday)',
+  'number.max': 'Week start must be a day from 0 (Sunday) to 6 (Saturday)'
+});
+
+const resetToken = Joi.string().hex().length(64).messages({
+  'string.hex': 'Invalid or expired reset token',
+  'string.length': 'Invalid or expired reset token'
+});
+
 export const authSchemas = {
   signup: Joi.object({
     email: Joi.string().email().required().messages({
@@ -32,7 +82,10 @@ export const authSchemas = {
       'string.min': 'Name must be at least 2 characters long',
       'string.max': 'Name must not exceed 50 characters',
       'any.required': 'Name is required'
-    })
+    }),
+    timezone: timezone.optional(),
+    base_currency: currency.optional(),
+    device_name: Joi.string().trim().max(100).optional()
   }),
 
   login: Joi.object({
@@ -42,18 +95,137 @@ export const authSchemas = {
     }),
     password: Joi.string().required().messages({
       'any.required': 'Password is required'
+    }),
+    device_name: Joi.string().trim().max(100).optional()
+  }),
+
+  refresh: Joi.object({
+    refresh_token: Joi.string().required().messages({
+      'any.required': 'Refresh token is required'
+    })
+  }),
+
+  changePassword: Joi.object({
+    currentPassword: Joi.string().required().messages({
+      'any.required': 'Current password is required'
+    }),
+    newPassword: Joi.string().min(6).required().messages({
+      'string.min': 'New password must be at least 6 characters long',
+      'any.required': 'New password is required'
+    })
+  }),
+
+  forgotPassword: Joi.object({
+    email: Joi.string().email().required().messages({
+      'string.email': 'Please provide a valid email address',
+      'any.required': 'Email is required'
+    })
+  }),
+
+  verifyResetToken: Joi.object({
+    token: resetToken.required()
+  }),
+
+  resetPassword: Joi.object({
+    token: resetToken.required(),
+    newPassword: Joi.string().min(6).required().messages({
+      'string.min': 'New password must be at least 6 characters long',
+      'any.required': 'New password is required'
     })
   })
 };
 
 export const userSchemas = {
   updateProfile: Joi.object({
-    name: Joi.string().min(2).max(50).optional(),
-    email: Joi.string().email().optional()
+    name: Joi.string().trim().min(2).max(50).optional(),
+    email: Joi.string().email().optional(),
+    timezone: timezone.optional(),
+    base_currency: currency.optional(),
+    locale: locale.optional(),
+    week_start: weekStart.optional()
+  }).min(1),
+
+  updatePreferences: Joi.object({
+    timezone: timezone.optional(),
+    base_currency: currency.optional(),
+    locale: locale.optional(),
+    week_start: weekStart.optional()
+  }).min(1)
+};
+
+const householdRole = Joi.string().valid('owner', 'editor', 'viewer');
+
+export const householdSchemas = {
+  createHousehold: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required()
+  }),
+
+  inviteMember: Joi.object({
+    email: Joi.string().email().required(),
+    role: householdRole.required()
+  }),
+
+  updateMemberRole: Joi.object({
+    role: householdRole.required()
+  })
+};
+
+export const notificationSchemas = {
+  notificationsQuery: Joi.object({
+    unread: Joi.boolean().optional(),
+    include_dismissed: Joi.boolean().default(false),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20)
   })
 };
 
+// A single categorization rule condition; text operators apply to description/type, comparisons to amount
+const categoryRuleCondition = Joi.object({
+  field: Joi.string().valid('description', 'amount', 'type').required(),
+  operator: Joi.when('field', {
+    is: 'amount',
+    then: Joi.string().valid('equals', 'gt', 'gte', 'lt', 'lte').required(),
+    otherwise: Joi.string().valid('contains', 'equals', 'starts_with', 'ends_with', 'matches').required()
+  }),
+  value: Joi.when('field', {
+    is: 'amount',
+    then: Joi.number().required(),
+    otherwise: Joi.string().min(1).max(200).required()
+  })
+});
+
+const alertChannels = Joi.array().items(Joi.string().valid('email', 'webhook')).unique().max(2);
+const alertWebhookUrl = Joi.string().uri({ scheme: ['https'] }).allow(null);
+
+// One line of a split transaction
+const transactionSplit = Joi.object({
+  category_id: Joi.string().optional(),
+  category_name: Joi.string().optional(),
+  amount: Joi.number().positive().required(),
+  note: Joi.string().max(200).optional()
+}).or('category_id', 'category_name');
+
+// A planned category in a monthly goal or goal template
+const categoryExpense = Joi.object({
+  category_id: Joi.string().required(),
+  category_name: Joi.string().required(),
+  expected_amount: Joi.number().min(0).required(),
+  rollover: Joi.string().valid('none', 'full', 'capped').optional(),
+  rollover_cap: Joi.number().min(0).when('rollover', {
+    is: 'capped',
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  rollover_amount: Joi.any().strip() // computed when the goal is saved
+});
+
 export const budgetSchemas = {
+  monthQuery: Joi.object({
+    month: Joi.string().pattern(/^\d{4}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'Month must be in YYYY-MM format'
+    })
+  }),
+
   createMonthlyGoal: Joi.object({
     month: Joi.string().pattern(/^\d{4}-\d{2}$/).required().messages({
       'string.pattern.base': 'Month must be in YYYY-MM format',
@@ -63,28 +235,374 @@ export const budgetSchemas = {
       'number.positive': 'Income must be a positive number',
       'any.required': 'Income is required'
     }),
-    expenses: Joi.array().items(
-      Joi.object({
-        category_id: Joi.string().required(),
-        category_name: Joi.string().required(),
-        expected_amount: Joi.number().min(0).required()
-      })
-    ).required()
+    expenses: Joi.array().items(categoryExpense).required()
+  }),
+
+  createGoalTemplate: Joi.object({
+    name: Joi.string().min(1).max(100).required(),
+    income: Joi.number().positive().required(),
+    expenses: Joi.array().items(categoryExpense).required()
+  }),
+
+  updateGoalTemplate: Joi.object({
+    name: Joi.string().min(1).max(100).optional(),
+    income: Joi.number().positive().optional(),
+    expenses: Joi.array().items(categoryExpense).optional()
+  }).min(1),
+
+  applyGoal: Joi.object({
+    source: Joi.string().valid('template', 'previous_month').required(),
+    template_id: Joi.when('source', {
+      is: 'template',
+      then: Joi.string().guid().required(),
+      otherwise: Joi.forbidden()
+    }),
+    month: Joi.string().pattern(/^\d{4}-\d{2}$/).required().messages({
+      'string.pattern.base': 'Month must be in YYYY-MM format',
+      'any.required': 'Month is required'
+    }),
+    to_month: Joi.string().pattern(/^\d{4}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'To month must be in YYYY-MM format'
+    }),
+    amounts: Joi.string().valid('source', 'average').default('source'),
+    average_months: Joi.number().integer().min(1).max(12).optional(),
+    overwrite: Joi.boolean().optional()
   }),
 
   createTransaction: Joi.object({
+    category_id: Joi.string().optional(),
+    category_name: Joi.string().optional(),
+    type: Joi.string().valid('expense', 'income', 'transfer', 'refund').default('expense'),
+    amount: Joi.number().positive().required(),
+    description: Joi.string().min(1).max(200).required(),
+    date: Joi.date().iso().required(),
+    splits: Joi.array().items(transactionSplit).min(2).max(50).optional(),
+    account_id: Joi.string().guid().allow(null).optional(),
+    cleared: Joi.boolean().optional(),
+    currency: currency.optional()
+  }).without('splits', ['category_id', 'category_name']),
+
+  searchTransactions: Joi.object({
+    month: Joi.string().pattern(/^\d{4}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'Month must be in YYYY-MM format'
+    }),
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'From must be in YYYY-MM-DD format'
+    }),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'To must be in YYYY-MM-DD format'
+    }),
+    category_id: Joi.array().items(Joi.string().guid()).single().optional(),
+    type: Joi.array().items(Joi.string().valid('expense', 'income', 'transfer', 'refund')).single().optional(),
+    min_amount: Joi.number().min(0).optional(),
+    max_amount: Joi.number().min(0).optional().when('min_amount', {
+      is: Joi.exist(),
+      then: Joi.number().min(Joi.ref('min_amount'))
+    }),
+    search: Joi.string().trim().min(1).max(200).optional(),
+    sort: Joi.string().valid('date', 'amount', 'description', 'created_at').default('date'),
+    order: Joi.string().valid('asc', 'desc').default('desc'),
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+    cursor: Joi.string().optional()
+  })
+    .without('month', ['from', 'to'])
+    .without('cursor', 'page'),
+
+  updateTransaction: Joi.object({
+    category_id: Joi.string().optional(),
+    category_name: Joi.string().optional(),
+    type: Joi.string().valid('expense', 'income', 'transfer', 'refund').optional(),
+    amount: Joi.number().positive().optional(),
+    description: Joi.string().min(1).max(200).optional(),
+    date: Joi.date().iso().optional(),
+    splits: Joi.array().items(transactionSplit).min(2).max(50).allow(null).optional(),
+    account_id: Joi.string().guid().allow(null).optional(),
+    cleared: Joi.boolean().optional(),
+    currency: currency.optional()
+  }),
+
+  createRecurringRule: Joi.object({
     category_id: Joi.string().required(),
     category_name: Joi.string().optional(),
+    type: Joi.string().valid('expense', 'income', 'transfer', 'refund').optional(),
     amount: Joi.number().positive().required(),
     description: Joi.string().min(1).max(200).required(),
-    date: Joi.date().iso().required()
+    frequency: Joi.string().valid('daily', 'weekly', 'monthly', 'yearly').required(),
+    interval: Joi.number().integer().min(1).max(365).optional(),
+    start_date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required().messages({
+      'string.pattern.base': 'Start date must be in YYYY-MM-DD format'
+    }),
+    end_date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).allow(null).optional().messages({
+      'string.pattern.base': 'End date must be in YYYY-MM-DD format'
+    }),
+    max_occurrences: Joi.number().integer().min(1).allow(null).optional()
   }),
 
-  updateTransaction: Joi.object({
+  updateRecurringRule: Joi.object({
     category_id: Joi.string().optional(),
     category_name: Joi.string().optional(),
+    type: Joi.string().valid('expense', 'income', 'transfer', 'refund').optional(),
     amount: Joi.number().positive().optional(),
     description: Joi.string().min(1).max(200).optional(),
-    date: Joi.date().iso().optional()
+    frequency: Joi.string().valid('daily', 'weekly', 'monthly', 'yearly').optional(),
+    interval: Joi.number().integer().min(1).max(365).optional(),
+    start_date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'Start date must be in YYYY-MM-DD format'
+    }),
+    end_date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).allow(null).optional().messages({
+      'string.pattern.base': 'End date must be in YYYY-MM-DD format'
+    }),
+    max_occurrences: Joi.number().integer().min(1).allow(null).optional(),
+    is_active: Joi.boolean().optional()
+  }).min(1),
+
+  createCategoryRule: Joi.object({
+    name: Joi.string().min(1).max(100).required(),
+    priority: Joi.number().integer().min(0).max(10000).optional(),
+    conditions: Joi.array().items(categoryRuleCondition).min(1).max(10).required().messages({
+      'array.min': 'At least one condition is required'
+    }),
+    category_id: Joi.string().optional(),
+    category_name: Joi.string().optional(),
+    is_active: Joi.boolean().optional()
+  }).or('category_id', 'category_name'),
+
+  updateCategoryRule: Joi.object({
+    name: Joi.string().min(1).max(100).optional(),
+    priority: Joi.number().integer().min(0).max(10000).optional(),
+    conditions: Joi.array().items(categoryRuleCondition).min(1).max(10).optional(),
+    category_id: Joi.string().optional(),
+    category_name: Joi.string().optional(),
+    is_active: Joi.boolean().optional()
+  }).min(1),
+
+  // Each alert type takes only the setting it needs
+  createAlertRule: Joi.object({
+    name: Joi.string().min(1).max(100).required(),
+    type: Joi.string().valid('category_threshold', 'large_transaction', 'bill_due', 'month_closing').required(),
+    category_id: Joi.when('type', { is: 'category_threshold', then: Joi.string().optional(), otherwise: Joi.forbidden() }),
+    category_name: Joi.when('type', { is: 'category_threshold', then: Joi.string().optional(), otherwise: Joi.forbidden() }),
+    threshold_percent: Joi.when('type', {
+      is: 'category_threshold',
+      then: Joi.number().positive().max(1000).required(),
+      otherwise: Joi.forbidden()
+    }),
+    amount: Joi.when('type', { is: 'large_transaction', then: Joi.number().positive().required(), otherwise: Joi.forbidden() }),
+    days_before: Joi.when('type', {
+      is: Joi.valid('bill_due', 'month_closing'),
+      then: Joi.number().integer().min(0).max(31).optional(),
+      otherwise: Joi.forbidden()
+    }),
+    channels: alertChannels.optional(),
+    webhook_url: alertWebhookUrl.optional(),
+    is_active: Joi.boolean().optional()
+  }),
+
+  updateAlertRule: Joi.object({
+    name: Joi.string().min(1).max(100).optional(),
+    category_id: Joi.string().optional(),
+    category_name: Joi.string().optional(),
+    threshold_percent: Joi.number().positive().max(1000).optional(),
+    amount: Joi.number().positive().optional(),
+    days_before: Joi.number().integer().min(0).max(31).optional(),
+    channels: alertChannels.optional(),
+    webhook_url: alertWebhookUrl.optional(),
+    is_active: Joi.boolean().optional()
+  }).min(1),
+
+  applyCategoryRules: Joi.object({
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'From must be in YYYY-MM-DD format'
+    }),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'To must be in YYYY-MM-DD format'
+    }),
+    transaction_ids: Joi.array().items(Joi.string().guid()).min(1).max(500).unique().optional()
+  }),
+
+  // Preview entries can be sent back as they are
+  applyCategoryRuleChanges: Joi.object({
+    changes: Joi.array().items(Joi.object({
+      transaction_id: Joi.string().guid().required(),
+      rule_id: Joi.string().guid().required()
+    }).unknown(true)).min(1).max(500).required()
+  }),
+
+  createImport: Joi.object({
+    format: Joi.string().valid('csv', 'ofx', 'qfx').required(),
+    content: Joi.string().min(1).required().messages({
+      'any.required': 'File content is required'
+    }),
+    filename: Joi.string().max(255).optional(),
+    mapping: Joi.when('format', {
+      is: 'csv',
+      then: Joi.object({
+        date: Joi.string().required(),
+        description: Joi.string().required(),
+        amount: Joi.string().optional(),
+        debit: Joi.string().optional(),
+        credit: Joi.string().optional(),
+        category: Joi.string().optional(),
+        date_format: Joi.string().valid('YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY').optional(),
+        delimiter: Joi.string().length(1).optional(),
+        decimal_separator: Joi.string().valid('.', ',').optional(),
+        has_header: Joi.boolean().optional(),
+        expense_sign: Joi.string().valid('negative', 'positive').optional()
+      }).or('amount', 'debit', 'credit').required(),
+      otherwise: Joi.forbidden()
+    })
+  }),
+
+  commitImport: Joi.object({
+    include_duplicates: Joi.boolean().optional(),
+    skip_rows: Joi.array().items(Joi.number().integer().min(0)).optional()
+  }),
+
+  exportQuery: Joi.object({
+    format: Joi.string().valid('csv', 'json', 'xlsx').default('csv'),
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'From must be in YYYY-MM-DD format'
+    }),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'To must be in YYYY-MM-DD format'
+    }),
+    include: Joi.when('format', {
+      is: 'csv',
+      then: Joi.forbidden().messages({
+        'any.unknown': 'Goals and history can only be included in JSON or XLSX exports'
+      }),
+      otherwise: Joi.array().items(Joi.string().valid('goals', 'history')).single().optional()
+    })
+  }),
+
+  upcomingQuery: Joi.object({
+    days: Joi.number().integer().min(1).max(366).default(30)
+  }),
+
+  savingsGoalsQuery: Joi.object({
+    include_archived: Joi.boolean().default(false)
+  }),
+
+  createSavingsGoal: Joi.object({
+    name: Joi.string().min(1).max(100).required(),
+    target_amount: Joi.number().positive().required(),
+    target_date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).allow(null).optional().messages({
+      'string.pattern.base': 'Target date must be in YYYY-MM-DD format'
+    })
+  }),
+
+  updateSavingsGoal: Joi.object({
+    name: Joi.string().min(1).max(100).optional(),
+    target_amount: Joi.number().positive().optional(),
+    target_date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).allow(null).optional().messages({
+      'string.pattern.base': 'Target date must be in YYYY-MM-DD format'
+    }),
+    is_archived: Joi.boolean().optional()
+  }).min(1),
+
+  createSavingsContribution: Joi.object({
+    kind: Joi.string().valid('contribution', 'withdrawal').optional(),
+    amount: Joi.number().positive().required(),
+    date: Joi.date().iso().required(),
+    description: Joi.string().min(1).max(200).optional()
+  }),
+
+  accountsQuery: Joi.object({
+    include_archived: Joi.boolean().default(false)
+  }),
+
+  createAccount: Joi.object({
+    name: Joi.string().min(1).max(100).required(),
+    type: Joi.string().valid('checking', 'savings', 'credit_card', 'cash').required(),
+    currency: currency.optional(),
+    opening_balance: Joi.number().optional()
+  }),
+
+  updateAccount: Joi.object({
+    name: Joi.string().min(1).max(100).optional(),
+    type: Joi.string().valid('checking', 'savings', 'credit_card', 'cash').optional(),
+    currency: currency.optional(),
+    opening_balance: Joi.number().optional(),
+    is_archived: Joi.boolean().optional()
+  }).min(1),
+
+  createTransfer: Joi.object({
+    from_account_id: Joi.string().guid().required(),
+    to_account_id: Joi.string().guid().required(),
+    amount: Joi.number().positive().required(),
+    date: Joi.date().iso().required(),
+    description: Joi.string().min(1).max(200).optional()
+  }),
+
+  ledgerQuery: Joi.object({
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'From must be in YYYY-MM-DD format'
+    }),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'To must be in YYYY-MM-DD format'
+    })
+  }),
+
+  reconcileAccount: Joi.object({
+    statement_date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required().messages({
+      'string.pattern.base': 'Statement date must be in YYYY-MM-DD format'
+    }),
+    statement_balance: Joi.number().required(),
+    transaction_ids: Joi.array().items(Joi.string().guid()).max(500).unique().optional()
+  }),
+
+  analyticsQuery: Joi.object({
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'From must be in YYYY-MM-DD format'
+    }),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'To must be in YYYY-MM-DD format'
+    }),
+    limit: Joi.number().integer().min(1).max(100).default(10)
+  }),
+
+  largestTransactionsQuery: Joi.object({
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'From must be in YYYY-MM-DD format'
+    }),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'To must be in YYYY-MM-DD format'
+    }),
+    type: Joi.string().valid('expense', 'income', 'refund').default('expense'),
+    limit: Joi.number().integer().min(1).max(100).default(10)
+  }),
+
+  exchangeRatesQuery: Joi.object({
+    currency: currency.optional(),
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'From must be in YYYY-MM-DD format'
+    }),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().messages({
+      'string.pattern.base': 'To must be in YYYY-MM-DD format'
+    })
+  }),
+
+  setExchangeRate: Joi.object({
+    currency: currency.required(),
+    base_currency: currency.optional(),
+    rate: Joi.number().positive().required(),
+    date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required().messages({
+      'string.pattern.base': 'Date must be in YYYY-MM-DD format'
+    })
+  }),
+
+  importExchangeRates: Joi.object({
+    content: Joi.string().min(1).required().messages({
+      'any.required': 'File content is required'
+    }),
+    delimiter: Joi.string().length(1).optional()
+  }),
+
+  transactionIds: Joi.object({
+    ids: Joi.array().items(Joi.string().guid()).min(1).max(500).unique().required().messages({
+      'array.min': 'At least one transaction ID is required',
+      'any.required': 'Transaction IDs are required'
+    })
   })
 };
@@ -1,10 +1,21 @@
 import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
 import { AuthController } from '../controllers/authController';
 import { authenticateToken } from '../middleware/auth';
 import { validateRequest, authSchemas } from '../middleware/validation';
 
 const router = Router();
 
+// Password endpoints get a much tighter limit than the rest of the API to slow down guessing.
+// Each endpoint counts separately, so one reset flow or a typo does not lock out the others.
+const passwordLimiter = () => rateLimit({
+  windowMs: parseInt(process.env.PASSWORD_RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutes
+  max: parseInt(process.env.PASSWORD_RATE_LIMIT_MAX_REQUESTS || '5'),
+  message: 'Too many password requests from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 /**
  * @route   POST /api/auth/signup
  * @desc    Register a new user
@@ -28,16 +39,58 @@ router.get('/profile', authenticateToken, AuthController.getProfile);
 
 /**
  * @route   POST /api/auth/change-password
- * @desc    Change user password
+ * @desc    Change user password and sign out all other sessions
  * @access  Private
  */
-router.post('/change-password', authenticateToken, AuthController.changePassword);
+router.post('/change-password', passwordLimiter(), authenticateToken, validateRequest(authSchemas.changePassword), AuthController.changePassword);
+
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Email a single-use password reset link
+ * @access  Public
+ */
+router.post('/forgot-password', passwordLimiter(), validateRequest(authSchemas.forgotPassword), AuthController.forgotPassword);
+
+/**
+ * @route   POST /api/auth/reset-password/verify
+ * @desc    Check that a password reset token is still valid
+ * @access  Public
+ */
+router.post('/reset-password/verify', passwordLimiter(), validateRequest(authSchemas.verifyResetToken), AuthController.verifyResetToken);
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Set a new password with a password reset token
+ * @access  Public
+ */
+router.post('/reset-password', passwordLimiter(), validateRequest(authSchemas.resetPassword), AuthController.resetPassword);
+
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Exchange a refresh token for a new access token
+ * @access  Public
+ */
+router.post('/refresh', validateRequest(authSchemas.refresh), AuthController.refresh);
 
 /**
  * @route   POST /api/auth/logout
- * @desc    Logout user
+ * @desc    Logout user, revoking the current session
  * @access  Private
  */
 router.post('/logout', authenticateToken, AuthController.logout);
 
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    Get the user's active sessions with their devices
+ * @access  Private
+ */
+router.get('/sessions', authenticateToken, AuthController.getSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions/:sessionId
+ * @desc    Revoke a session, e.g. on a lost device
+ * @access  Private
+ */
+router.delete('/sessions/:sessionId', authenticateToken, AuthController.revokeSession);
+
 export default router;
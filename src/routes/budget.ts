@@ -1,7 +1,19 @@
 import { Router } from 'express';
 import { authenticateToken } from '../middleware/auth';
+import { householdScope } from '../middleware/household';
 import { BudgetController } from '../controllers/budgetController';
-import { validateRequest } from '../middleware/validation';
+import { RecurringController } from '../controllers/recurringController';
+import { CategoryRuleController } from '../controllers/categoryRuleController';
+import { AlertRuleController } from '../controllers/alertRuleController';
+import { GoalTemplateController } from '../controllers/goalTemplateController';
+import { SavingsGoalController } from '../controllers/savingsGoalController';
+import { AccountController } from '../controllers/accountController';
+import { ExchangeRateController } from '../controllers/exchangeRateController';
+import { ImportController } from '../controllers/importController';
+import { ExportController } from '../controllers/exportController';
+import { AnalyticsController } from '../controllers/analyticsController';
+import { ForecastController } from '../controllers/forecastController';
+import { validateRequest, validateQuery } from '../middleware/validation';
 import { budgetSchemas } from '../middleware/validation';
 
 const router = Router();
@@ -9,19 +21,22 @@ const router = Router();
 // All budget routes require authentication
 router.use(authenticateToken);
 
+// Goals, transactions, history, categories, forecasts and analytics work on a household budget when X-Household-Id is sent
+router.use(householdScope);
+
 /**
  * @route   GET /api/budget/dashboard
- * @desc    Get dashboard summary data
+ * @desc    Get dashboard summary data (?month=YYYY-MM, defaults to current month)
  * @access  Private
  */
-router.get('/dashboard', BudgetController.getDashboardSummary);
+router.get('/dashboard', validateQuery(budgetSchemas.monthQuery), BudgetController.getDashboardSummary);
 
 /**
  * @route   GET /api/budget/goals
- * @desc    Get user's monthly goals
+ * @desc    Get user's monthly goal (?month=YYYY-MM, defaults to current month)
  * @access  Private
  */
-router.get('/goals', BudgetController.getMonthlyGoal);
+router.get('/goals', validateQuery(budgetSchemas.monthQuery), BudgetController.getMonthlyGoal);
 
 /**
  * @route   POST /api/budget/goals
@@ -30,12 +45,61 @@ router.get('/goals', BudgetController.getMonthlyGoal);
  */
 router.post('/goals', validateRequest(budgetSchemas.createMonthlyGoal), BudgetController.createMonthlyGoal);
 
+/**
+ * @route   POST /api/budget/goals/apply
+ * @desc    Create goals for a month or range of months from a template or the previous month
+ * @access  Private
+ */
+router.post('/goals/apply', validateRequest(budgetSchemas.applyGoal), GoalTemplateController.applyGoal);
+
+/**
+ * @route   GET /api/budget/goal-templates
+ * @desc    Get user's goal templates
+ * @access  Private
+ */
+router.get('/goal-templates', GoalTemplateController.getTemplates);
+
+/**
+ * @route   POST /api/budget/goal-templates
+ * @desc    Create a goal template
+ * @access  Private
+ */
+router.post('/goal-templates', validateRequest(budgetSchemas.createGoalTemplate), GoalTemplateController.createTemplate);
+
+/**
+ * @route   GET /api/budget/goal-templates/:templateId
+ * @desc    Get a goal template
+ * @access  Private
+ */
+router.get('/goal-templates/:templateId', GoalTemplateController.getTemplate);
+
+/**
+ * @route   PUT /api/budget/goal-templates/:templateId
+ * @desc    Update a goal template
+ * @access  Private
+ */
+router.put('/goal-templates/:templateId', validateRequest(budgetSchemas.updateGoalTemplate), GoalTemplateController.updateTemplate);
+
+/**
+ * @route   DELETE /api/budget/goal-templates/:templateId
+ * @desc    Delete a goal template (goals created from it are kept)
+ * @access  Private
+ */
+router.delete('/goal-templates/:templateId', GoalTemplateController.deleteTemplate);
+
+/**
+ * @route   GET /api/budget/goals/:month/progress
+ * @desc    Get planned vs actual spending per category for a month
+ * @access  Private
+ */
+router.get('/goals/:month/progress', BudgetController.getGoalProgress);
+
 /**
  * @route   GET /api/budget/transactions
- * @desc    Get user's transactions
+ * @desc    Search user's transactions (month or date range, categories, amount range, text, sort, page or cursor)
  * @access  Private
  */
-router.get('/transactions', BudgetController.getTransactions);
+router.get('/transactions', validateQuery(budgetSchemas.searchTransactions), BudgetController.getTransactions);
 
 /**
  * @route   POST /api/budget/transactions
@@ -51,6 +115,34 @@ router.post('/transactions', validateRequest(budgetSchemas.createTransaction), B
  */
 router.put('/transactions/:transactionId', validateRequest(budgetSchemas.updateTransaction), BudgetController.updateTransaction);
 
+/**
+ * @route   DELETE /api/budget/transactions/:transactionId
+ * @desc    Soft delete a transaction
+ * @access  Private
+ */
+router.delete('/transactions/:transactionId', BudgetController.deleteTransaction);
+
+/**
+ * @route   POST /api/budget/transactions/bulk-delete
+ * @desc    Soft delete several transactions
+ * @access  Private
+ */
+router.post('/transactions/bulk-delete', validateRequest(budgetSchemas.transactionIds), BudgetController.bulkDeleteTransactions);
+
+/**
+ * @route   POST /api/budget/transactions/bulk-restore
+ * @desc    Restore several soft-deleted transactions
+ * @access  Private
+ */
+router.post('/transactions/bulk-restore', validateRequest(budgetSchemas.transactionIds), BudgetController.bulkRestoreTransactions);
+
+/**
+ * @route   POST /api/budget/transactions/:transactionId/restore
+ * @desc    Restore a soft-deleted transaction
+ * @access  Private
+ */
+router.post('/transactions/:transactionId/restore', BudgetController.restoreTransaction);
+
 /**
  * @route   GET /api/budget/history
  * @desc    Get user's monthly history
@@ -58,6 +150,370 @@ router.put('/transactions/:transactionId', validateRequest(budgetSchemas.updateT
  */
 router.get('/history', BudgetController.getMonthlyHistory);
 
+/**
+ * @route   POST /api/budget/history/:month/finalize
+ * @desc    Close a month and snapshot it into history
+ * @access  Private
+ */
+router.post('/history/:month/finalize', BudgetController.finalizeMonth);
+
+/**
+ * @route   POST /api/budget/history/:month/reopen
+ * @desc    Reopen a closed month so its transactions can be edited
+ * @access  Private
+ */
+router.post('/history/:month/reopen', BudgetController.reopenMonth);
+
+/**
+ * @route   GET /api/budget/recurring
+ * @desc    Get user's recurring rules
+ * @access  Private
+ */
+router.get('/recurring', RecurringController.getRules);
+
+/**
+ * @route   GET /api/budget/recurring/upcoming
+ * @desc    Preview upcoming bills (?days=30)
+ * @access  Private
+ */
+router.get('/recurring/upcoming', validateQuery(budgetSchemas.upcomingQuery), RecurringController.getUpcoming);
+
+/**
+ * @route   POST /api/budget/recurring
+ * @desc    Create a recurring rule
+ * @access  Private
+ */
+router.post('/recurring', validateRequest(budgetSchemas.createRecurringRule), RecurringController.createRule);
+
+/**
+ * @route   GET /api/budget/recurring/:ruleId
+ * @desc    Get a recurring rule
+ * @access  Private
+ */
+router.get('/recurring/:ruleId', RecurringController.getRule);
+
+/**
+ * @route   PUT /api/budget/recurring/:ruleId
+ * @desc    Update a recurring rule
+ * @access  Private
+ */
+router.put('/recurring/:ruleId', validateRequest(budgetSchemas.updateRecurringRule), RecurringController.updateRule);
+
+/**
+ * @route   DELETE /api/budget/recurring/:ruleId
+ * @desc    Delete a recurring rule (created transactions are kept)
+ * @access  Private
+ */
+router.delete('/recurring/:ruleId', RecurringController.deleteRule);
+
+/**
+ * @route   GET /api/budget/category-rules
+ * @desc    Get user's categorization rules in priority order
+ * @access  Private
+ */
+router.get('/category-rules', CategoryRuleController.getRules);
+
+/**
+ * @route   POST /api/budget/category-rules
+ * @desc    Create a categorization rule
+ * @access  Private
+ */
+router.post('/category-rules', validateRequest(budgetSchemas.createCategoryRule), CategoryRuleController.createRule);
+
+/**
+ * @route   POST /api/budget/category-rules/apply/preview
+ * @desc    Preview which past transactions the rules would recategorize
+ * @access  Private
+ */
+router.post('/category-rules/apply/preview', validateRequest(budgetSchemas.applyCategoryRules), CategoryRuleController.previewApply);
+
+/**
+ * @route   POST /api/budget/category-rules/apply
+ * @desc    Apply previewed re-categorizations (closed months and hand-picked categories are skipped)
+ * @access  Private
+ */
+router.post('/category-rules/apply', validateRequest(budgetSchemas.applyCategoryRuleChanges), CategoryRuleController.applyRules);
+
+/**
+ * @route   GET /api/budget/category-rules/:ruleId
+ * @desc    Get a categorization rule
+ * @access  Private
+ */
+router.get('/category-rules/:ruleId', CategoryRuleController.getRule);
+
+/**
+ * @route   PUT /api/budget/category-rules/:ruleId
+ * @desc    Update a categorization rule
+ * @access  Private
+ */
+router.put('/category-rules/:ruleId', validateRequest(budgetSchemas.updateCategoryRule), CategoryRuleController.updateRule);
+
+/**
+ * @route   DELETE /api/budget/category-rules/:ruleId
+ * @desc    Delete a categorization rule (categorized transactions keep their category)
+ * @access  Private
+ */
+router.delete('/category-rules/:ruleId', CategoryRuleController.deleteRule);
+
+/**
+ * @route   GET /api/budget/alert-rules
+ * @desc    Get user's alert rules
+ * @access  Private
+ */
+router.get('/alert-rules', AlertRuleController.getRules);
+
+/**
+ * @route   POST /api/budget/alert-rules
+ * @desc    Create an alert rule
+ * @access  Private
+ */
+router.post('/alert-rules', validateRequest(budgetSchemas.createAlertRule), AlertRuleController.createRule);
+
+/**
+ * @route   GET /api/budget/alert-rules/:ruleId
+ * @desc    Get an alert rule
+ * @access  Private
+ */
+router.get('/alert-rules/:ruleId', AlertRuleController.getRule);
+
+/**
+ * @route   PUT /api/budget/alert-rules/:ruleId
+ * @desc    Update an alert rule (its type cannot change)
+ * @access  Private
+ */
+router.put('/alert-rules/:ruleId', validateRequest(budgetSchemas.updateAlertRule), AlertRuleController.updateRule);
+
+/**
+ * @route   DELETE /api/budget/alert-rules/:ruleId
+ * @desc    Delete an alert rule (notifications it sent stay in the inbox)
+ * @access  Private
+ */
+router.delete('/alert-rules/:ruleId', AlertRuleController.deleteRule);
+
+/**
+ * @route   POST /api/budget/import
+ * @desc    Upload a CSV or OFX/QFX statement and get a dry-run preview with likely duplicates flagged
+ * @access  Private
+ */
+router.post('/import', validateRequest(budgetSchemas.createImport), ImportController.previewImport);
+
+/**
+ * @route   GET /api/budget/import
+ * @desc    Get user's imports
+ * @access  Private
+ */
+router.get('/import', ImportController.getImports);
+
+/**
+ * @route   GET /api/budget/import/:batchId
+ * @desc    Get an import with its rows
+ * @access  Private
+ */
+router.get('/import/:batchId', ImportController.getImport);
+
+/**
+ * @route   POST /api/budget/import/:batchId/commit
+ * @desc    Create transactions from a previewed import
+ * @access  Private
+ */
+router.post('/import/:batchId/commit', validateRequest(budgetSchemas.commitImport), ImportController.commitImport);
+
+/**
+ * @route   DELETE /api/budget/import/:batchId
+ * @desc    Undo an import (discard the preview or delete the transactions it created)
+ * @access  Private
+ */
+router.delete('/import/:batchId', ImportController.undoImport);
+
+/**
+ * @route   GET /api/budget/savings-goals
+ * @desc    Get user's savings goals with progress (?include_archived=true)
+ * @access  Private
+ */
+router.get('/savings-goals', validateQuery(budgetSchemas.savingsGoalsQuery), SavingsGoalController.getGoals);
+
+/**
+ * @route   POST /api/budget/savings-goals
+ * @desc    Create a savings goal
+ * @access  Private
+ */
+router.post('/savings-goals', validateRequest(budgetSchemas.createSavingsGoal), SavingsGoalController.createGoal);
+
+/**
+ * @route   GET /api/budget/savings-goals/:goalId
+ * @desc    Get a savings goal with its contributions
+ * @access  Private
+ */
+router.get('/savings-goals/:goalId', SavingsGoalController.getGoal);
+
+/**
+ * @route   PUT /api/budget/savings-goals/:goalId
+ * @desc    Update a savings goal
+ * @access  Private
+ */
+router.put('/savings-goals/:goalId', validateRequest(budgetSchemas.updateSavingsGoal), SavingsGoalController.updateGoal);
+
+/**
+ * @route   DELETE /api/budget/savings-goals/:goalId
+ * @desc    Delete a savings goal (its transfer transactions are kept)
+ * @access  Private
+ */
+router.delete('/savings-goals/:goalId', SavingsGoalController.deleteGoal);
+
+/**
+ * @route   POST /api/budget/savings-goals/:goalId/contributions
+ * @desc    Record a contribution or withdrawal (creates a transfer transaction)
+ * @access  Private
+ */
+router.post('/savings-goals/:goalId/contributions', validateRequest(budgetSchemas.createSavingsContribution), SavingsGoalController.addContribution);
+
+/**
+ * @route   DELETE /api/budget/savings-goals/:goalId/contributions/:contributionId
+ * @desc    Delete a contribution or withdrawal (moves its transaction to the trash)
+ * @access  Private
+ */
+router.delete('/savings-goals/:goalId/contributions/:contributionId', SavingsGoalController.deleteContribution);
+
+/**
+ * @route   GET /api/budget/accounts
+ * @desc    Get user's accounts with balances (?include_archived=true)
+ * @access  Private
+ */
+router.get('/accounts', validateQuery(budgetSchemas.accountsQuery), AccountController.getAccounts);
+
+/**
+ * @route   POST /api/budget/accounts
+ * @desc    Create an account
+ * @access  Private
+ */
+router.post('/accounts', validateRequest(budgetSchemas.createAccount), AccountController.createAccount);
+
+/**
+ * @route   POST /api/budget/accounts/transfers
+ * @desc    Transfer money between two accounts
+ * @access  Private
+ */
+router.post('/accounts/transfers', validateRequest(budgetSchemas.createTransfer), AccountController.createTransfer);
+
+/**
+ * @route   GET /api/budget/accounts/:accountId
+ * @desc    Get an account with its balance
+ * @access  Private
+ */
+router.get('/accounts/:accountId', AccountController.getAccount);
+
+/**
+ * @route   PUT /api/budget/accounts/:accountId
+ * @desc    Update an account
+ * @access  Private
+ */
+router.put('/accounts/:accountId', validateRequest(budgetSchemas.updateAccount), AccountController.updateAccount);
+
+/**
+ * @route   DELETE /api/budget/accounts/:accountId
+ * @desc    Delete an account without transactions
+ * @access  Private
+ */
+router.delete('/accounts/:accountId', AccountController.deleteAccount);
+
+/**
+ * @route   GET /api/budget/accounts/:accountId/ledger
+ * @desc    Get an account's transactions with running balance (?from=YYYY-MM-DD&to=YYYY-MM-DD)
+ * @access  Private
+ */
+router.get('/accounts/:accountId/ledger', validateQuery(budgetSchemas.ledgerQuery), AccountController.getLedger);
+
+/**
+ * @route   GET /api/budget/accounts/:accountId/reconciliations
+ * @desc    Get an account's reconciliation history
+ * @access  Private
+ */
+router.get('/accounts/:accountId/reconciliations', AccountController.getReconciliations);
+
+/**
+ * @route   POST /api/budget/accounts/:accountId/reconcile
+ * @desc    Mark statement transactions cleared and compare with the statement balance
+ * @access  Private
+ */
+router.post('/accounts/:accountId/reconcile', validateRequest(budgetSchemas.reconcileAccount), AccountController.reconcile);
+
+/**
+ * @route   GET /api/budget/exchange-rates
+ * @desc    Get user's exchange rates (?currency=EUR&from=YYYY-MM-DD&to=YYYY-MM-DD)
+ * @access  Private
+ */
+router.get('/exchange-rates', validateQuery(budgetSchemas.exchangeRatesQuery), ExchangeRateController.getRates);
+
+/**
+ * @route   POST /api/budget/exchange-rates
+ * @desc    Set the exchange rate for a currency on a date
+ * @access  Private
+ */
+router.post('/exchange-rates', validateRequest(budgetSchemas.setExchangeRate), ExchangeRateController.setRate);
+
+/**
+ * @route   POST /api/budget/exchange-rates/import
+ * @desc    Load exchange rates from a CSV file
+ * @access  Private
+ */
+router.post('/exchange-rates/import', validateRequest(budgetSchemas.importExchangeRates), ExchangeRateController.importRates);
+
+/**
+ * @route   DELETE /api/budget/exchange-rates/:rateId
+ * @desc    Delete an exchange rate
+ * @access  Private
+ */
+router.delete('/exchange-rates/:rateId', ExchangeRateController.deleteRate);
+
+/**
+ * @route   GET /api/budget/forecast
+ * @desc    Project month-end spending per category and overall (?month=YYYY-MM, defaults to current month)
+ * @access  Private
+ */
+router.get('/forecast', validateQuery(budgetSchemas.monthQuery), ForecastController.getForecast);
+
+/**
+ * @route   GET /api/budget/analytics/category-trends
+ * @desc    Get month-over-month spending per category (?from=YYYY-MM-DD&to=YYYY-MM-DD, defaults to the last six months)
+ * @access  Private
+ */
+router.get('/analytics/category-trends', validateQuery(budgetSchemas.analyticsQuery), AnalyticsController.getCategoryTrends);
+
+/**
+ * @route   GET /api/budget/analytics/burn-rate
+ * @desc    Get average daily spending overall and per month, with a projection for the current month
+ * @access  Private
+ */
+router.get('/analytics/burn-rate', validateQuery(budgetSchemas.analyticsQuery), AnalyticsController.getBurnRate);
+
+/**
+ * @route   GET /api/budget/analytics/day-of-week
+ * @desc    Get spending by day of the week
+ * @access  Private
+ */
+router.get('/analytics/day-of-week', validateQuery(budgetSchemas.analyticsQuery), AnalyticsController.getDayOfWeekBreakdown);
+
+/**
+ * @route   GET /api/budget/analytics/merchants
+ * @desc    Get the merchants with the most spending (?limit=10)
+ * @access  Private
+ */
+router.get('/analytics/merchants', validateQuery(budgetSchemas.analyticsQuery), AnalyticsController.getMerchantBreakdown);
+
+/**
+ * @route   GET /api/budget/analytics/largest
+ * @desc    Get the largest transactions (?type=expense|income|refund&limit=10)
+ * @access  Private
+ */
+router.get('/analytics/largest', validateQuery(budgetSchemas.largestTransactionsQuery), AnalyticsController.getLargestTransactions);
+
+/**
+ * @route   GET /api/budget/export
+ * @desc    Download transactions as CSV, JSON or XLSX (?format=&from=&to=&include=goals,history)
+ * @access  Private
+ */
+router.get('/export', validateQuery(budgetSchemas.exportQuery), ExportController.exportData);
+
 /**
  * @route   GET /api/budget/categories
  * @desc    Get user's categories
@@ -0,0 +1,102 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { HouseholdController } from '../controllers/householdController';
+import { validateRequest, householdSchemas } from '../middleware/validation';
+
+const router = Router();
+
+// All household routes require authentication
+router.use(authenticateToken);
+
+/**
+ * @route   GET /api/households
+ * @desc    Get the households the user belongs to, with the user's role
+ * @access  Private
+ */
+router.get('/', HouseholdController.getHouseholds);
+
+/**
+ * @route   POST /api/households
+ * @desc    Create a household (the creator becomes its owner)
+ * @access  Private
+ */
+router.post('/', validateRequest(householdSchemas.createHousehold), HouseholdController.createHousehold);
+
+/**
+ * @route   GET /api/households/invitations
+ * @desc    Get pending invitations sent to the user's email
+ * @access  Private
+ */
+router.get('/invitations', HouseholdController.getMyInvitations);
+
+/**
+ * @route   POST /api/households/invitations/:invitationId/accept
+ * @desc    Accept an invitation and join the household
+ * @access  Private
+ */
+router.post('/invitations/:invitationId/accept', HouseholdController.acceptInvitation);
+
+/**
+ * @route   POST /api/households/invitations/:invitationId/decline
+ * @desc    Decline an invitation
+ * @access  Private
+ */
+router.post('/invitations/:invitationId/decline', HouseholdController.declineInvitation);
+
+/**
+ * @route   GET /api/households/:householdId
+ * @desc    Get a household with its members
+ * @access  Private
+ */
+router.get('/:householdId', HouseholdController.getHousehold);
+
+/**
+ * @route   PUT /api/households/:householdId
+ * @desc    Rename a household (owners only)
+ * @access  Private
+ */
+router.put('/:householdId', validateRequest(householdSchemas.createHousehold), HouseholdController.updateHousehold);
+
+/**
+ * @route   DELETE /api/households/:householdId
+ * @desc    Delete a household and its shared budget (owners only)
+ * @access  Private
+ */
+router.delete('/:householdId', HouseholdController.deleteHousehold);
+
+/**
+ * @route   GET /api/households/:householdId/invitations
+ * @desc    Get a household's pending invitations (owners only)
+ * @access  Private
+ */
+router.get('/:householdId/invitations', HouseholdController.getInvitations);
+
+/**
+ * @route   POST /api/households/:householdId/invitations
+ * @desc    Invite someone by email as an owner, editor or viewer (owners only)
+ * @access  Private
+ */
+router.post('/:householdId/invitations', validateRequest(householdSchemas.inviteMember), HouseholdController.inviteMember);
+
+/**
+ * @route   DELETE /api/households/:householdId/invitations/:invitationId
+ * @desc    Revoke a pending invitation (owners only)
+ * @access  Private
+ */
+router.delete('/:householdId/invitations/:invitationId', HouseholdController.revokeInvitation);
+
+/**
+ * @route   PUT /api/households/:householdId/members/:userId
+ * @desc    Change a member's role (owners only)
+ * @access  Private
+ */
+router.put('/:householdId/members/:userId', validateRequest(householdSchemas.updateMemberRole), HouseholdController.updateMemberRole);
+
+/**
+ * @route   DELETE /api/households/:householdId/members/:userId
+ * @desc    Remove a member, or leave the household when userId is your own
+ * @access  Private
+ */
+router.delete('/:householdId/members/:userId', HouseholdController.removeMember);
+
+export default router;
@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { NotificationController } from '../controllers/notificationController';
+import { validateQuery, notificationSchemas } from '../middleware/validation';
+
+const router = Router();
+
+// All notification routes require authentication
+router.use(authenticateToken);
+
+/**
+ * @route   GET /api/notifications
+ * @desc    Get user's notifications, newest first (?unread=true for unread only)
+ * @access  Private
+ */
+router.get('/', validateQuery(notificationSchemas.notificationsQuery), NotificationController.getNotifications);
+
+/**
+ * @route   GET /api/notifications/unread-count
+ * @desc    Get the number of unread notifications
+ * @access  Private
+ */
+router.get('/unread-count', NotificationController.getUnreadCount);
+
+/**
+ * @route   POST /api/notifications/read-all
+ * @desc    Mark all notifications as read
+ * @access  Private
+ */
+router.post('/read-all', NotificationController.markAllRead);
+
+/**
+ * @route   POST /api/notifications/:notificationId/read
+ * @desc    Mark a notification as read
+ * @access  Private
+ */
+router.post('/:notificationId/read', NotificationController.markRead);
+
+/**
+ * @route   DELETE /api/notifications/:notificationId
+ * @desc    Dismiss a notification
+ * @access  Private
+ */
+router.delete('/:notificationId', NotificationController.dismiss);
+
+export default router;
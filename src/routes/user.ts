@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { authenticateToken } from '../middleware/auth';
+import { UserController } from '../controllers/userController';
+import { validateRequest, userSchemas } from '../middleware/validation';
 
 const router = Router();
 
@@ -8,26 +10,37 @@ router.use(authenticateToken);
 
 /**
  * @route   GET /api/user/profile
- * @desc    Get user profile
+ * @desc    Get user profile and preferences
  * @access  Private
  */
-router.get('/profile', (req, res) => {
-  res.json({
-    success: true,
-    message: 'User profile endpoint - to be implemented'
-  });
-});
+router.get('/profile', UserController.getProfile);
 
 /**
  * @route   PUT /api/user/profile
- * @desc    Update user profile
+ * @desc    Update name, email (after confirmation) and preferences
  * @access  Private
  */
-router.put('/profile', (req, res) => {
-  res.json({
-    success: true,
-    message: 'Update user profile endpoint - to be implemented'
-  });
-});
+router.put('/profile', validateRequest(userSchemas.updateProfile), UserController.updateProfile);
+
+/**
+ * @route   PUT /api/user/preferences
+ * @desc    Update user preferences (timezone, base currency, locale, start of the week)
+ * @access  Private
+ */
+router.put('/preferences', validateRequest(userSchemas.updatePreferences), UserController.updatePreferences);
+
+/**
+ * @route   GET /api/user/data-export
+ * @desc    Download everything tied to the user as a JSON archive
+ * @access  Private
+ */
+router.get('/data-export', UserController.exportData);
+
+/**
+ * @route   DELETE /api/user
+ * @desc    Deactivate the account and delete it with all its data after the grace period
+ * @access  Private
+ */
+router.delete('/', UserController.deleteAccount);
 
 export default router;
@@ -0,0 +1,532 @@
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from '../config/database';
+import {
+  Account,
+  AccountLedger,
+  AccountLedgerEntry,
+  AccountReconciliation,
+  AccountWithBalance,
+  CreateAccountRequest,
+  CreateTransferRequest,
+  ReconcileAccountRequest,
+  Transaction,
+  TransferResult,
+  UpdateAccountRequest
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+import { BudgetService } from './budgetService';
+import { ExchangeRateService } from './exchangeRateService';
+
+type BalanceRow = Pick<Transaction, 'account_id' | 'type' | 'amount' | 'transfer_direction' | 'cleared'>;
+
+export class AccountService {
+  private static readonly PAGE_SIZE = 1000;
+  private static readonly TRANSFER_CATEGORY = 'Transfer';
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  /**
+   * Effect of a transaction on its account's balance: money in is positive, money out negative
+   */
+  static signedAmount(trans: Pick<Transaction, 'type' | 'amount' | 'transfer_direction'>): number {
+    const amount = Number(trans.amount);
+    switch (trans.type || 'expense') {
+      case 'income':
+      case 'refund':
+        return amount;
+      case 'transfer':
+        return trans.transfer_direction === 'in' ? amount : -amount;
+      default:
+        return -amount;
+    }
+  }
+
+  private static async getOwnedAccount(userId: string, accountId: string): Promise<Account> {
+    const { data: account, error } = await supabaseAdmin
+      .from('accounts')
+      .select('*')
+      .eq('id', accountId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to fetch account', 500);
+    }
+
+    if (!account) {
+      throw createError('Account not found', 404);
+    }
+
+    return account as Account;
+  }
+
+  private static async hasTransactions(userId: string, accountId: string): Promise<boolean> {
+    const { count, error } = await supabaseAdmin
+      .from('transactions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('account_id', accountId);
+
+    if (error) {
+      throw createError('Failed to fetch account transactions', 500);
+    }
+
+    return !!count && count > 0;
+  }
+
+  /**
+   * Current and cleared balances of the given accounts
+   */
+  private static async getBalances(userId: string, accounts: Account[]): Promise<AccountWithBalance[]> {
+    const balances = new Map(accounts.map((account) => [
+      account.id,
+      { balance: Number(account.opening_balance), cleared: Number(account.opening_balance) }
+    ]));
+
+    if (accounts.length > 0) {
+      for (let offset = 0; ; offset += this.PAGE_SIZE) {
+        const { data, error } = await supabaseAdmin
+          .from('transactions')
+          .select('account_id,type,amount,transfer_direction,cleared')
+          .eq('user_id', userId)
+          .is('deleted_at', null)
+          .in('account_id', accounts.map((account) => account.id))
+          .order('id')
+          .range(offset, offset + this.PAGE_SIZE - 1);
+
+        if (error) {
+          throw createError('Failed to calculate account balances', 500);
+        }
+
+        for (const row of (data || []) as BalanceRow[]) {
+          const entry = balances.get(row.account_id as string);
+          if (!entry) continue;
+          const amount = this.signedAmount(row);
+          entry.balance += amount;
+          if (row.cleared) entry.cleared += amount;
+        }
+
+        if (!data || data.length < this.PAGE_SIZE) {
+          break;
+        }
+      }
+    }
+
+    return accounts.map((account) => {
+      const entry = balances.get(account.id) as { balance: number; cleared: number };
+      return { ...account, balance: this.round(entry.balance), cleared_balance: this.round(entry.cleared) };
+    });
+  }
+
+  /**
+   * Get user's accounts with their balances
+   */
+  static async getAccounts(userId: string, includeArchived: boolean = false): Promise<AccountWithBalance[]> {
+    try {
+      let request = supabaseAdmin
+        .from('accounts')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (!includeArchived) {
+        request = request.eq('is_archived', false);
+      }
+
+      const { data: accounts, error } = await request.order('created_at', { ascending: true });
+
+      if (error) {
+        throw createError('Failed to fetch accounts', 500);
+      }
+
+      return await this.getBalances(userId, (accounts || []) as Account[]);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get accounts error:', error);
+      throw createError('Failed to fetch accounts', 500);
+    }
+  }
+
+  /**
+   * Get an account with its balance
+   */
+  static async getAccount(userId: string, accountId: string): Promise<AccountWithBalance> {
+    try {
+      const [account] = await this.getBalances(userId, [await this.getOwnedAccount(userId, accountId)]);
+      return account;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get account error:', error);
+      throw createError('Failed to fetch account', 500);
+    }
+  }
+
+  /**
+   * Create an account
+   */
+  static async createAccount(userId: string, accountData: CreateAccountRequest): Promise<AccountWithBalance> {
+    try {
+      const { data: account, error } = await supabaseAdmin
+        .from('accounts')
+        .insert({
+          user_id: userId,
+          name: accountData.name,
+          type: accountData.type,
+          currency: accountData.currency || await ExchangeRateService.getBaseCurrency(userId),
+          opening_balance: accountData.opening_balance ?? 0,
+          is_archived: false
+        })
+        .select()
+        .single();
+
+      if (error || !account) {
+        throw createError('Failed to create account', 500);
+      }
+
+      const [withBalance] = await this.getBalances(userId, [account as Account]);
+      return withBalance;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Create account error:', error);
+      throw createError('Failed to create account', 500);
+    }
+  }
+
+  /**
+   * Update an account
+   */
+  static async updateAccount(userId: string, accountId: string, updates: UpdateAccountRequest): Promise<AccountWithBalance> {
+    try {
+      const existing = await this.getOwnedAccount(userId, accountId);
+
+      // Amounts already on the account are in its current currency
+      if (updates.currency && updates.currency !== existing.currency && await this.hasTransactions(userId, accountId)) {
+        throw createError('Cannot change the currency of an account with transactions', 409);
+      }
+
+      const { data: account, error } = await supabaseAdmin
+        .from('accounts')
+        .update({
+          name: updates.name ?? existing.name,
+          type: updates.type ?? existing.type,
+          currency: updates.currency ?? existing.currency,
+          opening_balance: updates.opening_balance ?? existing.opening_balance,
+          is_archived: updates.is_archived ?? existing.is_archived,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', accountId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error || !account) {
+        throw createError('Failed to update account', 500);
+      }
+
+      const [withBalance] = await this.getBalances(userId, [account as Account]);
+      return withBalance;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Update account error:', error);
+      throw createError('Failed to update account', 500);
+    }
+  }
+
+  /**
+   * Delete an account that has no transactions (archive it otherwise)
+   */
+  static async deleteAccount(userId: string, accountId: string): Promise<void> {
+    try {
+      await this.getOwnedAccount(userId, accountId);
+
+      if (await this.hasTransactions(userId, accountId)) {
+        throw createError('Account has transactions. Archive it instead.', 409);
+      }
+
+      const { error } = await supabaseAdmin
+        .from('accounts')
+        .delete()
+        .eq('id', accountId)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw createError('Failed to delete account', 500);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Delete account error:', error);
+      throw createError('Failed to delete account', 500);
+    }
+  }
+
+  /**
+   * Transactions of an account in date order with the balance after each one
+   */
+  static async getLedger(userId: string, accountId: string, from?: string, to?: string): Promise<AccountLedger> {
+    try {
+      const account = await this.getOwnedAccount(userId, accountId);
+
+      let balance = Number(account.opening_balance);
+      let startingBalance = balance;
+      const entries: AccountLedgerEntry[] = [];
+
+      for (let offset = 0; ; offset += this.PAGE_SIZE) {
+        let request = supabaseAdmin
+          .from('transactions')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('account_id', accountId)
+          .is('deleted_at', null);
+
+        if (to) request = request.lte('date', to);
+
+        const { data, error } = await request
+          .order('date', { ascending: true })
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(offset, offset + this.PAGE_SIZE - 1);
+
+        if (error) {
+          throw createError('Failed to fetch account transactions', 500);
+        }
+
+        // Earlier transactions only move the starting balance
+        for (const trans of (data || []) as Transaction[]) {
+          balance += this.signedAmount(trans);
+          if (from && trans.date < from) {
+            startingBalance = balance;
+          } else {
+            entries.push({ ...trans, running_balance: this.round(balance) });
+          }
+        }
+
+        if (!data || data.length < this.PAGE_SIZE) {
+          break;
+        }
+      }
+
+      return {
+        account,
+        starting_balance: this.round(startingBalance),
+        ending_balance: this.round(balance),
+        entries
+      };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get account ledger error:', error);
+      throw createError('Failed to fetch account transactions', 500);
+    }
+  }
+
+  /**
+   * Move money between two accounts as a pair of transfer transactions (not counted as spending)
+   */
+  static async createTransfer(userId: string, transferData: CreateTransferRequest): Promise<TransferResult> {
+    try {
+      if (transferData.from_account_id === transferData.to_account_id) {
+        throw createError('Cannot transfer to the same account', 400);
+      }
+
+      const fromAccount = await this.getOwnedAccount(userId, transferData.from_account_id);
+      const toAccount = await this.getOwnedAccount(userId, transferData.to_account_id);
+
+      if (fromAccount.currency !== toAccount.currency) {
+        throw createError('Transfers between accounts in different currencies are not supported', 400);
+      }
+
+      const transferId = randomUUID();
+      const leg = {
+        category_name: this.TRANSFER_CATEGORY,
+        type: 'transfer' as const,
+        amount: transferData.amount,
+        date: transferData.date
+      };
+
+      const from = await BudgetService.createTransaction(userId, {
+        ...leg,
+        account_id: fromAccount.id,
+        description: transferData.description || `Transfer to ${toAccount.name}`
+      }, { transfer: { id: transferId, direction: 'out' } });
+
+      let to: Transaction;
+      try {
+        to = await BudgetService.createTransaction(userId, {
+          ...leg,
+          account_id: toAccount.id,
+          description: transferData.description || `Transfer from ${fromAccount.name}`
+        }, { transfer: { id: transferId, direction: 'in' } });
+      } catch (error) {
+        // Never leave half a transfer behind, not even in the trash where it could be restored alone
+        const { error: rollbackError } = await supabaseAdmin
+          .from('transactions')
+          .delete()
+          .eq('id', from.id)
+          .eq('user_id', userId);
+
+        if (rollbackError) {
+          console.error('Create transfer rollback error:', rollbackError);
+        }
+        throw error;
+      }
+
+      return { transfer_id: transferId, from, to };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Create transfer error:', error);
+      throw createError('Failed to create transfer', 500);
+    }
+  }
+
+  /**
+   * Mark the statement's transactions as cleared and compare the cleared balance with the statement balance
+   */
+  static async reconcile(userId: string, accountId: string, request: ReconcileAccountRequest): Promise<AccountReconciliation> {
+    try {
+      const account = await this.getOwnedAccount(userId, accountId);
+      const ids = request.transaction_ids ?? [];
+
+      if (ids.length > 0) {
+        const { data: matched, error: matchError } = await supabaseAdmin
+          .from('transactions')
+          .select('id')
+          .eq('user_id', userId)
+          .eq('account_id', accountId)
+          .is('deleted_at', null)
+          .lte('date', request.statement_date)
+          .in('id', ids);
+
+        if (matchError) {
+          throw createError('Failed to reconcile account', 500);
+        }
+
+        if (!matched || matched.length !== new Set(ids).size) {
+          throw createError('All transactions must belong to this account and be dated on or before the statement date', 400);
+        }
+
+        const { error: clearError } = await supabaseAdmin
+          .from('transactions')
+          .update({ cleared: true, updated_at: new Date().toISOString() })
+          .eq('user_id', userId)
+          .in('id', ids);
+
+        if (clearError) {
+          throw createError('Failed to reconcile account', 500);
+        }
+      }
+
+      // Cleared balance as of the statement date
+      let clearedBalance = Number(account.opening_balance);
+      for (let offset = 0; ; offset += this.PAGE_SIZE) {
+        const { data, error } = await supabaseAdmin
+          .from('transactions')
+          .select('type,amount,transfer_direction')
+          .eq('user_id', userId)
+          .eq('account_id', accountId)
+          .eq('cleared', true)
+          .is('deleted_at', null)
+          .lte('date', request.statement_date)
+          .order('id')
+          .range(offset, offset + this.PAGE_SIZE - 1);
+
+        if (error) {
+          throw createError('Failed to reconcile account', 500);
+        }
+
+        (data || []).forEach((row) => { clearedBalance += this.signedAmount(row as BalanceRow); });
+
+        if (!data || data.length < this.PAGE_SIZE) {
+          break;
+        }
+      }
+
+      clearedBalance = this.round(clearedBalance);
+      const difference = this.round(Number(request.statement_balance) - clearedBalance);
+      const status = difference === 0 ? 'balanced' : 'unbalanced';
+
+      const { data: reconciliation, error } = await supabaseAdmin
+        .from('account_reconciliations')
+        .insert({
+          user_id: userId,
+          account_id: accountId,
+          statement_date: request.statement_date,
+          statement_balance: request.statement_balance,
+          cleared_balance: clearedBalance,
+          difference,
+          status
+        })
+        .select()
+        .single();
+
+      if (error || !reconciliation) {
+        throw createError('Failed to reconcile account', 500);
+      }
+
+      if (status === 'balanced') {
+        const { error: accountError } = await supabaseAdmin
+          .from('accounts')
+          .update({
+            last_reconciled_date: request.statement_date,
+            last_reconciled_balance: request.statement_balance,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', accountId)
+          .eq('user_id', userId);
+
+        if (accountError) {
+          throw createError('Failed to reconcile account', 500);
+        }
+      }
+
+      return reconciliation as AccountReconciliation;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Reconcile account error:', error);
+      throw createError('Failed to reconcile account', 500);
+    }
+  }
+
+  /**
+   * Get an account's past reconciliations, most recent first
+   */
+  static async getReconciliations(userId: string, accountId: string): Promise<AccountReconciliation[]> {
+    try {
+      await this.getOwnedAccount(userId, accountId);
+
+      const { data, error } = await supabaseAdmin
+        .from('account_reconciliations')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('account_id', accountId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw createError('Failed to fetch reconciliations', 500);
+      }
+
+      return (data || []) as AccountReconciliation[];
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get reconciliations error:', error);
+      throw createError('Failed to fetch reconciliations', 500);
+    }
+  }
+}
@@ -0,0 +1,405 @@
+import { supabaseAdmin } from '../config/database';
+import {
+  AlertRule,
+  AlertRuleType,
+  CreateAlertRuleRequest,
+  GoalProgress,
+  Transaction,
+  UpdateAlertRuleRequest
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+import { BudgetService } from './budgetService';
+import { ExchangeRateService } from './exchangeRateService';
+import { NotificationService } from './notificationService';
+import { assertPublicUrl } from './notificationChannels';
+import { RecurringService } from './recurringService';
+import { addDays, addMonths, daysBetween, toLocalDate } from '../utils/date';
+
+export class AlertService {
+  private static readonly DEFAULT_DAYS_BEFORE = 3;
+
+  /**
+   * Check that a rule has the settings its type needs
+   */
+  private static validateRule(rule: Partial<AlertRule>): void {
+    if (rule.type === 'category_threshold' && !rule.threshold_percent) {
+      throw createError('threshold_percent is required for category threshold alerts', 400);
+    }
+    if (rule.type === 'large_transaction' && !rule.amount) {
+      throw createError('amount is required for large transaction alerts', 400);
+    }
+    if (rule.channels?.includes('webhook') && !rule.webhook_url) {
+      throw createError('webhook_url is required to deliver alerts by webhook', 400);
+    }
+  }
+
+  private static async checkWebhookUrl(url: string | null | undefined): Promise<void> {
+    if (!url) return;
+    try {
+      await assertPublicUrl(url);
+    } catch (error) {
+      throw createError((error as Error).message, 400);
+    }
+  }
+
+  private static async resolveCategory(
+    userId: string,
+    categoryId?: string,
+    categoryName?: string
+  ): Promise<{ id: string; name: string }> {
+    const category = await BudgetService.resolveCategoryId(userId, categoryId, categoryName, false);
+    if (!category) {
+      throw createError('Unknown category', 400);
+    }
+    return category;
+  }
+
+  private static async getOwnedRule(userId: string, ruleId: string): Promise<AlertRule> {
+    const { data: rule, error } = await supabaseAdmin
+      .from('alert_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to fetch alert rule', 500);
+    }
+
+    if (!rule) {
+      throw createError('Alert rule not found', 404);
+    }
+
+    return rule as AlertRule;
+  }
+
+  /**
+   * Get user's alert rules
+   */
+  static async getRules(userId: string): Promise<AlertRule[]> {
+    try {
+      const { data: rules, error } = await supabaseAdmin
+        .from('alert_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw createError('Failed to fetch alert rules', 500);
+      }
+
+      return (rules || []) as AlertRule[];
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get alert rules error:', error);
+      throw createError('Failed to fetch alert rules', 500);
+    }
+  }
+
+  /**
+   * Get a single alert rule
+   */
+  static async getRule(userId: string, ruleId: string): Promise<AlertRule> {
+    try {
+      return await this.getOwnedRule(userId, ruleId);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get alert rule error:', error);
+      throw createError('Failed to fetch alert rule', 500);
+    }
+  }
+
+  /**
+   * Create an alert rule
+   */
+  static async createRule(userId: string, ruleData: CreateAlertRuleRequest): Promise<AlertRule> {
+    try {
+      const values = {
+        name: ruleData.name,
+        type: ruleData.type,
+        threshold_percent: ruleData.type === 'category_threshold' ? ruleData.threshold_percent ?? null : null,
+        amount: ruleData.type === 'large_transaction' ? ruleData.amount ?? null : null,
+        days_before: ruleData.type === 'bill_due' || ruleData.type === 'month_closing'
+          ? ruleData.days_before ?? this.DEFAULT_DAYS_BEFORE
+          : null,
+        channels: ruleData.channels || [],
+        webhook_url: ruleData.webhook_url || null,
+        is_active: ruleData.is_active ?? true
+      };
+      this.validateRule(values);
+      await this.checkWebhookUrl(values.webhook_url);
+
+      // A threshold rule without a category watches the whole budget
+      const category = ruleData.type === 'category_threshold' && (ruleData.category_id || ruleData.category_name)
+        ? await this.resolveCategory(userId, ruleData.category_id, ruleData.category_name)
+        : null;
+
+      const { data: rule, error } = await supabaseAdmin
+        .from('alert_rules')
+        .insert({
+          ...values,
+          user_id: userId,
+          category_id: category?.id || null,
+          category_name: category?.name || null
+        })
+        .select()
+        .single();
+
+      if (error || !rule) {
+        throw createError('Failed to create alert rule', 500);
+      }
+
+      return rule as AlertRule;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Create alert rule error:', error);
+      throw createError('Failed to create alert rule', 500);
+    }
+  }
+
+  /**
+   * Update an alert rule (its type cannot change)
+   */
+  static async updateRule(userId: string, ruleId: string, updates: UpdateAlertRuleRequest): Promise<AlertRule> {
+    try {
+      const existing = await this.getOwnedRule(userId, ruleId);
+      const merged: AlertRule = {
+        ...existing,
+        name: updates.name ?? existing.name,
+        threshold_percent: existing.type === 'category_threshold' ? updates.threshold_percent ?? existing.threshold_percent : null,
+        amount: existing.type === 'large_transaction' ? updates.amount ?? existing.amount : null,
+        days_before: existing.type === 'bill_due' || existing.type === 'month_closing'
+          ? updates.days_before ?? existing.days_before
+          : null,
+        channels: updates.channels ?? existing.channels,
+        webhook_url: updates.webhook_url !== undefined ? updates.webhook_url : existing.webhook_url,
+        is_active: updates.is_active ?? existing.is_active
+      };
+      this.validateRule(merged);
+      if (updates.webhook_url !== undefined) {
+        await this.checkWebhookUrl(merged.webhook_url);
+      }
+
+      const category = existing.type === 'category_threshold' && (updates.category_id || updates.category_name)
+        ? await this.resolveCategory(userId, updates.category_id, updates.category_name)
+        : null;
+
+      const { data: rule, error } = await supabaseAdmin
+        .from('alert_rules')
+        .update({
+          name: merged.name,
+          threshold_percent: merged.threshold_percent,
+          amount: merged.amount,
+          days_before: merged.days_before,
+          channels: merged.channels,
+          webhook_url: merged.webhook_url,
+          is_active: merged.is_active,
+          category_id: category ? category.id : existing.category_id,
+          category_name: category ? category.name : existing.category_name,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', ruleId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error || !rule) {
+        throw createError('Failed to update alert rule', 500);
+      }
+
+      return rule as AlertRule;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Update alert rule error:', error);
+      throw createError('Failed to update alert rule', 500);
+    }
+  }
+
+  /**
+   * Delete an alert rule (its notifications stay in the inbox)
+   */
+  static async deleteRule(userId: string, ruleId: string): Promise<void> {
+    try {
+      await this.getOwnedRule(userId, ruleId);
+
+      const { error } = await supabaseAdmin
+        .from('alert_rules')
+        .delete()
+        .eq('id', ruleId)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw createError('Failed to delete alert rule', 500);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Delete alert rule error:', error);
+      throw createError('Failed to delete alert rule', 500);
+    }
+  }
+
+  private static async getActiveRules(userId: string | null, types: AlertRuleType[]): Promise<AlertRule[]> {
+    let request = supabaseAdmin
+      .from('alert_rules')
+      .select('*')
+      .eq('is_active', true)
+      .in('type', types);
+
+    if (userId) request = request.eq('user_id', userId);
+
+    const { data, error } = await request;
+    if (error) {
+      throw createError('Failed to fetch alert rules', 500);
+    }
+
+    return (data || []) as AlertRule[];
+  }
+
+  /**
+   * Notify threshold rules whose category (or the whole budget) has reached its percent of the month's plan
+   */
+  private static async checkThresholds(userId: string, month: string, rules: AlertRule[], categoryIds?: Set<string>): Promise<number> {
+    let progress: GoalProgress;
+    try {
+      progress = await BudgetService.getGoalProgress(userId, month);
+    } catch (error) {
+      // Nothing is planned for the month, so there is no threshold to cross
+      if (error instanceof Error && 'statusCode' in error && (error as { statusCode?: number }).statusCode === 404) {
+        return 0;
+      }
+      throw error;
+    }
+
+    let sent = 0;
+    for (const rule of rules) {
+      if (rule.category_id && categoryIds && !categoryIds.has(rule.category_id)) continue;
+
+      const target = rule.category_id
+        ? progress.categories.find((category) => category.category_id === rule.category_id)
+          || progress.categories.find((category) => category.category_name.toLowerCase() === (rule.category_name || '').toLowerCase())
+        : null;
+      const percent = rule.category_id ? target?.percent_used ?? null : progress.percentUsed;
+      if (percent === null || percent < Number(rule.threshold_percent)) continue;
+
+      const label = rule.category_id ? target?.category_name || rule.category_name : 'your budget';
+      const notification = await NotificationService.notify(userId, rule, {
+        type: rule.type,
+        title: `${label} is at ${Math.round(percent)}% of plan`,
+        message: `You have used ${Math.round(percent)}% of ${label} for ${month} (alert at ${rule.threshold_percent}%).`,
+        data: { month, category_id: rule.category_id, percent_used: percent },
+        dedupe_key: `${rule.id}:${month}`
+      });
+      if (notification) sent++;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Check a created or updated transaction against the user's threshold and large transaction alerts.
+   * Failures are logged so they never fail the transaction itself.
+   */
+  static async evaluateTransaction(userId: string, transaction: Transaction): Promise<void> {
+    try {
+      // Alert rules are personal
+      if (transaction.household_id || transaction.deleted_at) return;
+
+      const type = transaction.type || 'expense';
+      if (type !== 'expense' && type !== 'refund') return;
+
+      const rules = await this.getActiveRules(userId, ['category_threshold', 'large_transaction']);
+      if (rules.length === 0) return;
+
+      const largeRules = rules.filter((rule) => rule.type === 'large_transaction');
+      if (type === 'expense' && largeRules.length > 0) {
+        // Without an exchange rate the amount cannot be compared with the rules
+        const [converted] = (await ExchangeRateService.convertToBase(userId, [transaction])).transactions;
+        for (const rule of converted ? largeRules.filter((rule) => Number(converted.base_amount) >= Number(rule.amount)) : []) {
+          await NotificationService.notify(userId, rule, {
+            type: rule.type,
+            title: `Large transaction: ${transaction.description}`,
+            message: `${transaction.description} on ${transaction.date} was ${transaction.amount} ${transaction.currency || ''}`.trim() + '.',
+            data: { transaction_id: transaction.id, amount: transaction.amount, base_amount: converted.base_amount },
+            dedupe_key: `${rule.id}:${transaction.id}`
+          });
+        }
+      }
+
+      const thresholdRules = rules.filter((rule) => rule.type === 'category_threshold');
+      if (thresholdRules.length > 0) {
+        const categoryIds = new Set(BudgetService.categoryLines(transaction).map((line) => line.category_id));
+        await this.checkThresholds(userId, transaction.month, thresholdRules, categoryIds);
+      }
+    } catch (error) {
+      console.error('Evaluate transaction alerts error:', error);
+    }
+  }
+
+  /**
+   * Check every active alert rule that depends on time passing: bills coming due, months about to close
+   * and thresholds reached by other changes (used by the scheduler)
+   */
+  static async evaluateScheduledAlerts(): Promise<number> {
+    const rules = await this.getActiveRules(null, ['category_threshold', 'bill_due', 'month_closing']);
+
+    const byUser = new Map<string, AlertRule[]>();
+    rules.forEach((rule) => byUser.set(rule.user_id, [...(byUser.get(rule.user_id) || []), rule]));
+
+    let sent = 0;
+    for (const [userId, userRules] of byUser) {
+      try {
+        const today = toLocalDate(new Date(), await BudgetService.getUserTimeZone(userId));
+        const month = today.slice(0, 7);
+
+        const billRules = userRules.filter((rule) => rule.type === 'bill_due');
+        if (billRules.length > 0) {
+          const upcoming = await RecurringService.getUpcoming(userId, Math.max(...billRules.map((rule) => Number(rule.days_before))));
+          for (const rule of billRules) {
+            const until = addDays(today, Number(rule.days_before));
+            for (const bill of upcoming.filter((occurrence) => occurrence.type === 'expense' && occurrence.date <= until)) {
+              const notification = await NotificationService.notify(userId, rule, {
+                type: rule.type,
+                title: `${bill.description} is due ${bill.date === today ? 'today' : `on ${bill.date}`}`,
+                message: `${bill.description} (${bill.amount}) is due on ${bill.date}.`,
+                data: { recurring_rule_id: bill.rule_id, date: bill.date, amount: bill.amount },
+                dedupe_key: `${rule.id}:${bill.rule_id}:${bill.date}`
+              });
+              if (notification) sent++;
+            }
+          }
+        }
+
+        const daysLeft = daysBetween(today, addDays(addMonths(`${month}-01`, 1), -1)) - 1;
+        for (const rule of userRules.filter((rule) => rule.type === 'month_closing' && daysLeft <= Number(rule.days_before))) {
+          const notification = await NotificationService.notify(userId, rule, {
+            type: rule.type,
+            title: daysLeft === 0 ? `${month} ends today` : `${month} ends in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`,
+            message: `${month} will be closed into your history once it ends. Review its transactions before then.`,
+            data: { month, days_left: daysLeft },
+            dedupe_key: `${rule.id}:${month}`
+          });
+          if (notification) sent++;
+        }
+
+        const thresholdRules = userRules.filter((rule) => rule.type === 'category_threshold');
+        if (thresholdRules.length > 0) {
+          sent += await this.checkThresholds(userId, month, thresholdRules);
+        }
+      } catch (error) {
+        console.error(`Alert evaluation failed for ${userId}:`, error);
+      }
+    }
+
+    return sent;
+  }
+}
@@ -0,0 +1,349 @@
+import { supabaseAdmin } from '../config/database';
+import {
+  AnalyticsQuery,
+  AnalyticsRange,
+  BudgetScope,
+  BurnRate,
+  CategoryTrend,
+  CategoryTrends,
+  DayOfWeekBreakdown,
+  LargestTransactions,
+  MerchantBreakdown,
+  MerchantSpending,
+  Transaction,
+  TransactionType
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+import { BudgetService } from './budgetService';
+import { ExchangeRateService } from './exchangeRateService';
+import { roundMoney } from '../utils/currency';
+import { addDays, addMonths, dayOfWeek, daysBetween, toLocalDate } from '../utils/date';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface ResolvedRange extends AnalyticsRange {
+  scope: BudgetScope;
+  today: string; // in the budget's timezone
+}
+
+export class AnalyticsService {
+  private static readonly PAGE_SIZE = 1000;
+  private static readonly MAX_DAYS = 731;
+
+  /**
+   * Authorize the budget and fill in the default date range (the last six months up to today)
+   */
+  private static async resolveRange(userId: string, query: AnalyticsQuery, householdId?: string | null): Promise<ResolvedRange> {
+    const scope = await BudgetService.getScope(userId, householdId, 'viewer');
+    const [timeZone, currency] = await Promise.all([
+      BudgetService.getUserTimeZone(scope.settingsUserId),
+      ExchangeRateService.getBaseCurrency(scope.settingsUserId)
+    ]);
+
+    const today = toLocalDate(new Date(), timeZone);
+    const to = query.to || today;
+    const from = query.from || addMonths(`${to.slice(0, 7)}-01`, -5);
+
+    if (from > to) {
+      throw createError('From must be on or before to', 400);
+    }
+
+    if (daysBetween(from, to) > this.MAX_DAYS) {
+      throw createError('Date range cannot be longer than two years', 400);
+    }
+
+    return { scope, today, from, to, currency };
+  }
+
+  /**
+   * Page through the budget's live transactions of the given types in the range, converted into the base currency.
+   * Only the columns the reports need are loaded.
+   */
+  private static async *transactionPages(range: ResolvedRange, types: TransactionType[]): AsyncGenerator<Transaction[]> {
+    for (let offset = 0; ; offset += this.PAGE_SIZE) {
+      const { data, error } = await BudgetService.scoped(supabaseAdmin
+        .from('transactions')
+        .select('id,date,month,type,amount,currency,category_id,category_name,splits,description'), range.scope)
+        .is('deleted_at', null)
+        .in('type', types)
+        .gte('date', range.from)
+        .lte('date', range.to)
+        .order('date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + this.PAGE_SIZE - 1);
+
+      if (error) {
+        throw createError('Failed to fetch transactions', 500);
+      }
+
+      // Transactions without an exchange rate are left out of the reports
+      if (data && data.length > 0) {
+        yield (await ExchangeRateService.convertToBase(range.scope.settingsUserId, data as Transaction[], range.currency)).transactions;
+      }
+
+      if (!data || data.length < this.PAGE_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Spending a transaction adds: expenses count, refunds subtract
+   */
+  private static spending(trans: Transaction, amount: number = Number(trans.base_amount)): number {
+    return trans.type === 'refund' ? -amount : amount;
+  }
+
+  /**
+   * The range without the days that have not happened yet
+   */
+  private static elapsedEnd(range: ResolvedRange): string {
+    return range.to < range.today ? range.to : range.today;
+  }
+
+  private static rangeOf(range: ResolvedRange): AnalyticsRange {
+    return { from: range.from, to: range.to, currency: range.currency };
+  }
+
+  /**
+   * Spending per category for each month in the range, with the change from the month before
+   */
+  static async getCategoryTrends(userId: string, query: AnalyticsQuery, householdId?: string | null): Promise<CategoryTrends> {
+    try {
+      const range = await this.resolveRange(userId, query, householdId);
+
+      const months: string[] = [];
+      for (let month = range.from.slice(0, 7); month <= range.to.slice(0, 7); month = addMonths(`${month}-01`, 1).slice(0, 7)) {
+        months.push(month);
+      }
+
+      const totals = new Map<string, { category_name: string; amounts: Map<string, number> }>();
+      for await (const page of this.transactionPages(range, ['expense', 'refund'])) {
+        for (const trans of page) {
+          for (const line of BudgetService.categoryLines(trans)) {
+            const entry = totals.get(line.category_id) || { category_name: line.category_name, amounts: new Map<string, number>() };
+            entry.amounts.set(trans.month, (entry.amounts.get(trans.month) || 0) + this.spending(trans, Number(line.amount)));
+            totals.set(line.category_id, entry);
+          }
+        }
+      }
+
+      const categories: CategoryTrend[] = [...totals.entries()].map(([category_id, entry]) => {
+        let previous: number | null = null;
+        const byMonth = months.map((month) => {
+          const amount = roundMoney(entry.amounts.get(month) || 0);
+          const change = previous === null ? null : roundMoney(amount - previous);
+          const change_percent = previous === null || previous === 0 || change === null
+            ? null
+            : roundMoney((change / Math.abs(previous)) * 100);
+          previous = amount;
+          return { month, amount, change, change_percent };
+        });
+        const total = roundMoney(byMonth.reduce((sum, month) => sum + month.amount, 0));
+
+        return {
+          category_id,
+          category_name: entry.category_name,
+          total,
+          average: roundMoney(total / months.length),
+          months: byMonth
+        };
+      });
+
+      return {
+        ...this.rangeOf(range),
+        months,
+        categories: categories.filter((category) => category.total !== 0).sort((a, b) => b.total - a.total)
+      };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get category trends error:', error);
+      throw createError('Failed to fetch category trends', 500);
+    }
+  }
+
+  /**
+   * Average daily spending over the range and per month, with a projection for the current month
+   */
+  static async getBurnRate(userId: string, query: AnalyticsQuery, householdId?: string | null): Promise<BurnRate> {
+    try {
+      const range = await this.resolveRange(userId, query, householdId);
+      const end = this.elapsedEnd(range);
+
+      const monthTotals = new Map<string, number>();
+      for await (const page of this.transactionPages(range, ['expense', 'refund'])) {
+        for (const trans of page) {
+          monthTotals.set(trans.month, (monthTotals.get(trans.month) || 0) + this.spending(trans));
+        }
+      }
+
+      const months = [];
+      for (let month = range.from.slice(0, 7); month <= range.to.slice(0, 7); month = addMonths(`${month}-01`, 1).slice(0, 7)) {
+        const first = month === range.from.slice(0, 7) ? range.from : `${month}-01`;
+        const last = addDays(addMonths(`${month}-01`, 1), -1);
+        const days = first > end ? 0 : daysBetween(first, last < end ? last : end);
+        const total = roundMoney(monthTotals.get(month) || 0);
+        months.push({ month, days, total, average_daily: days > 0 ? roundMoney(total / days) : 0 });
+      }
+
+      const days = range.from > end ? 0 : daysBetween(range.from, end);
+      const totalSpending = roundMoney(months.reduce((sum, month) => sum + month.total, 0));
+
+      // Project the current month at the rate spent so far
+      const current = range.from <= range.today && range.today <= range.to
+        ? months.find((month) => month.month === range.today.slice(0, 7))
+        : undefined;
+      const daysInMonth = daysBetween(`${range.today.slice(0, 7)}-01`, addDays(addMonths(`${range.today.slice(0, 7)}-01`, 1), -1));
+
+      return {
+        ...this.rangeOf(range),
+        days,
+        total_spending: totalSpending,
+        average_daily: days > 0 ? roundMoney(totalSpending / days) : 0,
+        months,
+        projected_month_total: current ? roundMoney(current.average_daily * daysInMonth) : null
+      };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get burn rate error:', error);
+      throw createError('Failed to fetch burn rate', 500);
+    }
+  }
+
+  /**
+   * Spending by day of the week
+   */
+  static async getDayOfWeekBreakdown(userId: string, query: AnalyticsQuery, householdId?: string | null): Promise<DayOfWeekBreakdown> {
+    try {
+      const range = await this.resolveRange(userId, query, householdId);
+      const end = this.elapsedEnd(range);
+
+      const totals = DAY_NAMES.map(() => ({ total: 0, count: 0, occurrences: 0 }));
+      for (let date = range.from; date <= end; date = addDays(date, 1)) {
+        totals[dayOfWeek(date)].occurrences++;
+      }
+
+      for await (const page of this.transactionPages(range, ['expense', 'refund'])) {
+        for (const trans of page) {
+          const entry = totals[dayOfWeek(trans.date)];
+          entry.total += this.spending(trans);
+          if (trans.type === 'expense') entry.count++;
+        }
+      }
+
+      return {
+        ...this.rangeOf(range),
+        days: totals.map((entry, day) => ({
+          day,
+          name: DAY_NAMES[day],
+          total: roundMoney(entry.total),
+          count: entry.count,
+          average: entry.occurrences > 0 ? roundMoney(entry.total / entry.occurrences) : 0
+        }))
+      };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get day of week breakdown error:', error);
+      throw createError('Failed to fetch day of week breakdown', 500);
+    }
+  }
+
+  /**
+   * Spending grouped by merchant (the transaction description, ignoring case and spacing)
+   */
+  static async getMerchantBreakdown(userId: string, query: AnalyticsQuery, householdId?: string | null): Promise<MerchantBreakdown> {
+    try {
+      const range = await this.resolveRange(userId, query, householdId);
+
+      const merchants = new Map<string, MerchantSpending>();
+      for await (const page of this.transactionPages(range, ['expense', 'refund'])) {
+        for (const trans of page) {
+          const name = trans.description.trim().replace(/\s+/g, ' ');
+          const key = name.toLowerCase();
+          const entry = merchants.get(key) || { merchant: name, total: 0, count: 0, average: 0, last_date: trans.date };
+
+          entry.total += this.spending(trans);
+          if (trans.type === 'expense') entry.count++;
+          // Pages are in date order, so the latest spelling wins
+          entry.merchant = name;
+          entry.last_date = trans.date;
+          merchants.set(key, entry);
+        }
+      }
+
+      return {
+        ...this.rangeOf(range),
+        merchants: [...merchants.values()]
+          .map((entry) => ({
+            ...entry,
+            total: roundMoney(entry.total),
+            average: entry.count > 0 ? roundMoney(entry.total / entry.count) : 0
+          }))
+          .filter((entry) => entry.total > 0)
+          .sort((a, b) => b.total - a.total)
+          .slice(0, query.limit)
+      };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get merchant breakdown error:', error);
+      throw createError('Failed to fetch merchant breakdown', 500);
+    }
+  }
+
+  /**
+   * The largest transactions of a type in the range, compared in the base currency
+   */
+  static async getLargestTransactions(userId: string, query: AnalyticsQuery, householdId?: string | null): Promise<LargestTransactions> {
+    try {
+      const range = await this.resolveRange(userId, query, householdId);
+      const limit = query.limit || 10;
+
+      // Keep a running top list instead of sorting every transaction
+      let largest: Transaction[] = [];
+      for await (const page of this.transactionPages(range, [query.type || 'expense'])) {
+        largest = [...largest, ...page]
+          .sort((a, b) => Number(b.base_amount) - Number(a.base_amount))
+          .slice(0, limit);
+      }
+
+      if (largest.length === 0) {
+        return { ...this.rangeOf(range), transactions: [] };
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('transactions')
+        .select('*')
+        .in('id', largest.map((trans) => trans.id));
+
+      if (error) {
+        throw createError('Failed to fetch transactions', 500);
+      }
+
+      const rows = new Map((data || []).map((row) => [row.id, row as Transaction]));
+      return {
+        ...this.rangeOf(range),
+        transactions: largest
+          .filter((trans) => rows.has(trans.id))
+          .map((trans) => ({
+            ...rows.get(trans.id) as Transaction,
+            exchange_rate: trans.exchange_rate,
+            base_amount: trans.base_amount
+          }))
+      };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get largest transactions error:', error);
+      throw createError('Failed to fetch largest transactions', 500);
+    }
+  }
+}
@@ -1,27 +1,21 @@
-import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { supabase, supabaseAdmin } from '../config/database';
-import { CreateUserRequest, LoginRequest, AuthResponse, User } from '../types';
+import { createHash, randomBytes } from 'crypto';
+import { createAuthClient, supabase, supabaseAdmin } from '../config/database';
+import { CreateUserRequest, LoginRequest, AuthResponse, PasswordResetTokenStatus, SessionClient, User } from '../types';
 import { createError } from '../middleware/errorHandler';
+import { UserService } from './userService';
+import { SessionService } from './sessionService';
+import { sendEmail } from './notificationChannels';
 
 export class AuthService {
-  private static readonly SALT_ROUNDS = 12;
-  private static readonly JWT_SECRET = process.env.JWT_SECRET;
-  private static readonly JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
-
-  private static validateJWTSecret(): string {
-    if (!this.JWT_SECRET) {
-      throw new Error('JWT_SECRET environment variable is not set');
-    }
-    return this.JWT_SECRET;
-  }
+  private static readonly RESET_TOKEN_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60');
+  private static readonly RESET_REQUESTS_PER_HOUR = 3;
 
   /**
    * Sign up a new user using Supabase Auth and return Supabase access token
    */
-  static async signup(userData: CreateUserRequest): Promise<AuthResponse> {
+  static async signup(userData: CreateUserRequest, client: SessionClient = {}): Promise<AuthResponse> {
     try {
-      const { email, password, name } = userData;
+      const { email, password, name, timezone, base_currency } = userData;
 
       // Create Supabase Auth user (server-side, confirmed immediately)
       const { data: createdUser, error: createUserError } = await supabaseAdmin.auth.admin.createUser({
@@ -46,6 +40,8 @@ export class AuthService {
           // The application no longer uses this column for auth; keep non-null to satisfy schema
           password: '',
           name: name.trim(),
+          ...(timezone ? { timezone } : {}),
+          ...(base_currency ? { base_currency } : {}),
           is_active: true,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
@@ -58,7 +54,7 @@ export class AuthService {
       }
 
       // Sign in to get a Supabase session access token
-      const { data: signInData, error: signInError } = await supabase.auth.signInWithPassword({
+      const { data: signInData, error: signInError } = await createAuthClient().auth.signInWithPassword({
         email: email.toLowerCase(),
         password,
       });
@@ -68,12 +64,14 @@ export class AuthService {
       }
 
       const token = signInData.session.access_token;
+      await SessionService.recordSession(authUser.id, token, { ...client, device_name: userData.device_name || client.device_name });
 
       const { password: _pw, ...userWithoutPassword } = dbUser;
 
       return {
         user: userWithoutPassword as User,
         token,
+        refreshToken: signInData.session.refresh_token,
       };
     } catch (error) {
       if (error instanceof Error && 'statusCode' in error) {
@@ -87,12 +85,12 @@ export class AuthService {
   /**
    * Sign in an existing user
    */
-  static async login(loginData: LoginRequest): Promise<AuthResponse> {
+  static async login(loginData: LoginRequest, client: SessionClient = {}): Promise<AuthResponse> {
     try {
       const { email, password } = loginData;
 
       // Authenticate via Supabase Auth to get access token
-      const { data: signInData, error: signInError } = await supabase.auth.signInWithPassword({
+      const { data: signInData, error: signInError } = await createAuthClient().auth.signInWithPassword({
         email: email.toLowerCase(),
         password,
       });
@@ -109,18 +107,23 @@ export class AuthService {
         .from('users')
         .select('*')
         .eq('id', authUserId)
-        .eq('is_active', true)
         .single();
 
-      if (appUserError || !appUser) {
+      // Deactivated accounts stay locked unless their deletion is still in its grace period
+      if (appUserError || !appUser || (!appUser.is_active && !appUser.deleted_at)) {
         throw createError('User not found', 404);
       }
 
-      const { password: _pw, ...userWithoutPassword } = appUser;
+      // Signing in during the grace period cancels the account deletion
+      const activeUser = appUser.is_active ? appUser : await UserService.cancelDeletion(appUser);
+
+      const { password: _pw, ...userWithoutPassword } = await UserService.syncEmail(activeUser, signInData.user.email);
+      await SessionService.recordSession(authUserId, accessToken, { ...client, device_name: loginData.device_name || client.device_name });
 
       return {
         user: userWithoutPassword as User,
         token: accessToken,
+        refreshToken: signInData.session.refresh_token,
       };
     } catch (error) {
       if (error instanceof Error && 'statusCode' in error) {
@@ -131,6 +134,40 @@ export class AuthService {
     }
   }
 
+  /**
+   * Exchange a refresh token for a new access token (and a new refresh token; the old one stops working)
+   */
+  static async refresh(refreshToken: string, client: SessionClient = {}): Promise<AuthResponse> {
+    try {
+      const { data, error } = await createAuthClient().auth.refreshSession({ refresh_token: refreshToken });
+
+      if (error || !data?.session || !data.user) {
+        throw createError('Invalid or expired refresh token', 401);
+      }
+
+      const { session } = data;
+      const user = await UserService.syncEmail(await UserService.getProfile(data.user.id), data.user.email);
+
+      // A session revoked from another device is ended for good when it next tries to refresh
+      if (!(await SessionService.refreshSession(user.id, session.access_token, client))) {
+        await SessionService.endSession(session.access_token);
+        throw createError('Session has been revoked', 401);
+      }
+
+      return {
+        user,
+        token: session.access_token,
+        refreshToken: session.refresh_token,
+      };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Refresh token error:', error);
+      throw createError('Failed to refresh session', 500);
+    }
+  }
+
   /**
    * Verify JWT token and get user
    */
@@ -154,7 +191,7 @@ export class AuthService {
         throw createError('User not found', 404);
       }
 
-      const { password: _pw, ...userWithoutPassword } = user;
+      const { password: _pw, ...userWithoutPassword } = await UserService.syncEmail(user, data.user.email);
       return userWithoutPassword as User;
     } catch (error) {
       if (error instanceof Error && 'statusCode' in error) {
@@ -165,26 +202,58 @@ export class AuthService {
   }
 
   /**
-   * Generate JWT token
+   * Ask Supabase Auth to move the user to a new email. Supabase mails a confirmation link and only
+   * switches the address once it is confirmed; returns the auth user's email afterwards.
    */
-  private static generateToken(userId: string, email: string): string {
-    const secret = this.validateJWTSecret();
-    return jwt.sign(
-      { userId, email },
-      secret,
-      { expiresIn: this.JWT_EXPIRES_IN } as jwt.SignOptions
-    );
+  static async requestEmailChange(accessToken: string, email: string): Promise<string | undefined> {
+    try {
+      // The admin API would change the email without confirmation, so this runs as the user
+      const response = await fetch(`${process.env.SUPABASE_URL}/auth/v1/user`, {
+        method: 'PUT',
+        headers: {
+          apikey: process.env.SUPABASE_ANON_KEY as string,
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ email })
+      });
+      const body = (await response.json().catch(() => ({}))) as {
+        email?: string;
+        code?: string;
+        msg?: string;
+        error_description?: string;
+      };
+
+      if (response.status === 401 || response.status === 403) {
+        throw createError('Please sign in again to change your email', 401);
+      }
+
+      if (body.code === 'email_exists') {
+        throw createError('Email is already in use', 409);
+      }
+
+      if (!response.ok) {
+        throw createError(body.msg || body.error_description || 'Failed to change email', response.status < 500 ? 400 : 500);
+      }
+
+      return body.email?.toLowerCase();
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Request email change error:', error);
+      throw createError('Failed to change email', 500);
+    }
   }
 
   /**
-   * Change user password
+   * Change the user's password in Supabase Auth after checking the current one
    */
-  static async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+  static async changePassword(userId: string, currentPassword: string, newPassword: string, accessToken: string): Promise<void> {
     try {
-      // Get user with password
       const { data: user, error } = await supabaseAdmin
         .from('users')
-        .select('password')
+        .select('email')
         .eq('id', userId)
         .single();
 
@@ -192,33 +261,222 @@ export class AuthService {
         throw createError('User not found', 404);
       }
 
-      // Verify current password
-      const isCurrentPasswordValid = await bcrypt.compare(currentPassword, user.password);
-      if (!isCurrentPasswordValid) {
+      // Passwords live in Supabase Auth, so the current one is checked by signing in with it
+      const { data: signInData, error: signInError } = await createAuthClient().auth.signInWithPassword({
+        email: user.email,
+        password: currentPassword,
+      });
+
+      if (signInError) {
         throw createError('Current password is incorrect', 400);
       }
 
-      // Hash new password
-      const hashedNewPassword = await bcrypt.hash(newPassword, this.SALT_ROUNDS);
+      // The check's own session is not handed out, so end it straight away
+      if (signInData.session) {
+        await SessionService.endSession(signInData.session.access_token);
+      }
+
+      await this.setPassword(userId, newPassword);
+      await SessionService.revokeAllSessions(userId, accessToken, true);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Change password error:', error);
+      throw createError('Failed to change password', 500);
+    }
+  }
+
+  private static async setPassword(userId: string, password: string): Promise<void> {
+    const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, { password });
+
+    // Supabase rejects passwords that don't meet the project's password policy
+    if (error && error.status === 422) {
+      throw createError(error.message, 400);
+    }
+
+    if (error) {
+      throw createError('Failed to update password', 500);
+    }
+  }
+
+  private static hashResetToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
 
-      // Update password
-      const { error: updateError } = await supabaseAdmin
+  /**
+   * Email a password reset link. Unknown emails get the same response, so this cannot be used to find accounts.
+   */
+  static async requestPasswordReset(email: string): Promise<void> {
+    try {
+      const { data: user, error } = await supabaseAdmin
         .from('users')
-        .update({
-          password: hashedNewPassword,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', userId);
+        .select('id,email,name')
+        .eq('email', email.toLowerCase())
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (error) {
+        throw createError('Failed to request password reset', 500);
+      }
+
+      if (!user) {
+        return;
+      }
+
+      const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      const { count, error: countError } = await supabaseAdmin
+        .from('password_reset_tokens')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .gte('created_at', since);
+
+      if (countError) {
+        throw createError('Failed to request password reset', 500);
+      }
+
+      // Quietly drop requests over the hourly limit rather than flooding the inbox
+      if ((count || 0) >= this.RESET_REQUESTS_PER_HOUR) {
+        return;
+      }
 
-      if (updateError) {
-        throw createError('Failed to update password', 500);
+      // Only the newest link works; tokens older than a day are no longer needed for the limit either
+      const { error: expireError } = await supabaseAdmin
+        .from('password_reset_tokens')
+        .update({ used_at: new Date().toISOString() })
+        .eq('user_id', user.id)
+        .is('used_at', null);
+      const { error: cleanupError } = await supabaseAdmin
+        .from('password_reset_tokens')
+        .delete()
+        .eq('user_id', user.id)
+        .lt('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+
+      if (expireError || cleanupError) {
+        throw createError('Failed to request password reset', 500);
       }
+
+      // Only the hash is stored, so a leaked table cannot be used to reset passwords
+      const token = randomBytes(32).toString('hex');
+      const expiresAt = new Date(Date.now() + this.RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+      const { error: insertError } = await supabaseAdmin
+        .from('password_reset_tokens')
+        .insert({
+          user_id: user.id,
+          token_hash: this.hashResetToken(token),
+          expires_at: expiresAt.toISOString()
+        });
+
+      if (insertError) {
+        throw createError('Failed to request password reset', 500);
+      }
+
+      const link = `${process.env.PASSWORD_RESET_URL || 'http://localhost:3000/reset-password'}?token=${token}`;
+      await sendEmail(
+        user.email,
+        'Reset your BudgetWise password',
+        `Hi ${user.name},\n\nUse this link to choose a new password: ${link}\n\n` +
+        `The link expires in ${this.RESET_TOKEN_TTL_MINUTES} minutes and can only be used once. ` +
+        'If you did not ask to reset your password, you can ignore this email.'
+      );
     } catch (error) {
       if (error instanceof Error && 'statusCode' in error) {
         throw error;
       }
-      console.error('Change password error:', error);
-      throw createError('Failed to change password', 500);
+      console.error('Request password reset error:', error);
+      throw createError('Failed to request password reset', 500);
+    }
+  }
+
+  /**
+   * Check that a reset token is unused and has not expired, without using it up
+   */
+  static async verifyResetToken(token: string): Promise<PasswordResetTokenStatus> {
+    try {
+      const { data: resetToken, error } = await supabaseAdmin
+        .from('password_reset_tokens')
+        .select('expires_at')
+        .eq('token_hash', this.hashResetToken(token))
+        .is('used_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (error) {
+        throw createError('Failed to verify reset token', 500);
+      }
+
+      if (!resetToken) {
+        throw createError('Invalid or expired reset token', 400);
+      }
+
+      return { valid: true, expires_at: resetToken.expires_at };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Verify reset token error:', error);
+      throw createError('Failed to verify reset token', 500);
+    }
+  }
+
+  /**
+   * Set a new password with a reset token. The token is used up even if the new password is rejected.
+   */
+  static async resetPassword(token: string, newPassword: string): Promise<void> {
+    try {
+      // Claiming the token in the same statement that checks it keeps it single-use under concurrent requests
+      const { data: resetToken, error } = await supabaseAdmin
+        .from('password_reset_tokens')
+        .update({ used_at: new Date().toISOString() })
+        .eq('token_hash', this.hashResetToken(token))
+        .is('used_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .select('id, user_id')
+        .maybeSingle();
+
+      if (error) {
+        throw createError('Failed to reset password', 500);
+      }
+
+      if (!resetToken) {
+        throw createError('Invalid or expired reset token', 400);
+      }
+
+      try {
+        await this.setPassword(resetToken.user_id, newPassword);
+      } catch (setError) {
+        // A password the policy rejects leaves the token usable for another attempt
+        if ((setError as { statusCode?: number }).statusCode === 400) {
+          await supabaseAdmin
+            .from('password_reset_tokens')
+            .update({ used_at: null })
+            .eq('id', resetToken.id);
+        }
+        throw setError;
+      }
+
+      // Whoever knew the old password is signed out everywhere. Supabase Auth signs out a user's sessions
+      // given one of their tokens, so a session is opened with the new password just for that.
+      const { data: user } = await supabaseAdmin
+        .from('users')
+        .select('email')
+        .eq('id', resetToken.user_id)
+        .maybeSingle();
+      const { data: signInData } = user
+        ? await createAuthClient().auth.signInWithPassword({ email: user.email, password: newPassword })
+        : { data: null };
+
+      if (!signInData?.session) {
+        console.error(`Reset password: could not sign out Supabase sessions of ${resetToken.user_id}`);
+      }
+
+      await SessionService.revokeAllSessions(resetToken.user_id, signInData?.session?.access_token);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Reset password error:', error);
+      throw createError('Failed to reset password', 500);
     }
   }
 }
@@ -0,0 +1,166 @@
+import { BudgetService } from './budgetService';
+import { rowsOf, seed } from '../test/fakeSupabase';
+import { Transaction } from '../types';
+
+jest.mock('../config/database', () => require('../test/fakeSupabase').fakeDatabase);
+jest.mock('./alertService');
+
+const USER_ID = 'user-1';
+
+// Category and transaction ids are checked to be UUIDs
+const uuid = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+const FOOD_ID = uuid(1);
+const HOME_ID = uuid(2);
+const INCOME_ID = uuid(3);
+
+const category = (id: string, name: string) => ({ id, name, user_id: null, household_id: null, is_default: true });
+
+let nextId = 100;
+const transaction = (description: string, date: string, type: string, amount: number, overrides: Record<string, unknown> = {}) => ({
+  id: uuid(nextId++),
+  user_id: USER_ID,
+  household_id: null,
+  deleted_at: null,
+  category_id: FOOD_ID,
+  category_name: 'Groceries',
+  type,
+  amount,
+  currency: 'USD',
+  description,
+  date,
+  month: date.slice(0, 7),
+  splits: null,
+  ...overrides
+});
+
+beforeEach(() => {
+  seed({
+    users: [{ id: USER_ID, timezone: 'UTC', base_currency: 'USD' }],
+    categories: [
+      category(FOOD_ID, 'Groceries'),
+      category(HOME_ID, 'Household'),
+      category(uuid(4), 'Miscellaneous'),
+      category(INCOME_ID, 'Income')
+    ],
+    monthly_goals: [{ id: 'goal-jan', user_id: USER_ID, household_id: null, month: '2024-01', income: 3000, expenses: [] }],
+    transactions: [
+      transaction('salary', '2024-01-01', 'income', 3000, { category_id: INCOME_ID, category_name: 'Income' }),
+      transaction('groceries', '2024-01-05', 'expense', 100),
+      transaction('returned', '2024-01-06', 'refund', 20),
+      transaction('to-savings', '2024-01-07', 'transfer', 500),
+      transaction('deleted', '2024-01-08', 'expense', 999, { deleted_at: '2024-01-09T00:00:00Z' }),
+      transaction('february', '2024-02-03', 'expense', 50)
+    ]
+  });
+});
+
+describe('BudgetService splits', () => {
+  it('stores the splits and files the transaction under the largest one', async () => {
+    const created = await BudgetService.createTransaction(USER_ID, {
+      description: 'Supermarket',
+      amount: 80,
+      date: '2024-03-02',
+      splits: [
+        { category_id: FOOD_ID, amount: 30.25 },
+        { category_name: 'Household', amount: 49.75, note: 'Detergent' }
+      ]
+    });
+
+    expect(created.category_name).toBe('Household');
+    expect(created.splits).toEqual([
+      { category_id: FOOD_ID, category_name: 'Groceries', amount: 30.25 },
+      { category_id: HOME_ID, category_name: 'Household', amount: 49.75, note: 'Detergent' }
+    ]);
+  });
+
+  it('rejects splits that do not add up to the amount', async () => {
+    await expect(BudgetService.createTransaction(USER_ID, {
+      description: 'Supermarket',
+      amount: 80,
+      date: '2024-03-02',
+      splits: [{ category_id: FOOD_ID, amount: 30 }, { category_id: HOME_ID, amount: 49.99 }]
+    })).rejects.toMatchObject({ message: 'Split amounts must add up to the transaction amount', statusCode: 400 });
+  });
+
+  it('counts a split transaction towards each split category, in the base currency once converted', () => {
+    const split = {
+      ...transaction('split', '2024-03-02', 'expense', 100),
+      currency: 'EUR',
+      exchange_rate: 1.1,
+      base_amount: 110,
+      splits: [
+        { category_id: FOOD_ID, category_name: 'Groceries', amount: 60 },
+        { category_id: HOME_ID, category_name: 'Household', amount: 40 }
+      ]
+    } as Transaction;
+
+    expect(BudgetService.categoryLines(split).map((line) => [line.category_name, line.amount])).toEqual([
+      ['Groceries', 66],
+      ['Household', 44]
+    ]);
+    expect(BudgetService.categoryLines({ ...split, splits: null }).map((line) => [line.category_name, line.amount])).toEqual([
+      ['Groceries', 110]
+    ]);
+  });
+});
+
+describe('BudgetService month close and reopen', () => {
+  const history = () => rowsOf('monthly_history').filter((row) => row.month === '2024-01');
+
+  it('snapshots the totals: refunds net against expenses, transfers and deleted transactions do not count', async () => {
+    const snapshot = await BudgetService.finalizeMonth(USER_ID, '2024-01');
+
+    expect(snapshot).toMatchObject({ total_income: 3000, total_expenses: 80, actual_savings: 2920, currency: 'USD', reopened_at: null });
+    expect(snapshot.transactions.map((trans) => trans.description)).toEqual(['salary', 'groceries', 'returned', 'to-savings']);
+  });
+
+  it('locks a closed month until it is reopened', async () => {
+    await BudgetService.finalizeMonth(USER_ID, '2024-01');
+    const coffee = { description: 'Coffee', amount: 4, date: '2024-01-20', category_id: FOOD_ID };
+    const groceries = rowsOf('transactions').find((row) => row.description === 'groceries')?.id as string;
+
+    await expect(BudgetService.createTransaction(USER_ID, coffee)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(BudgetService.deleteTransactions(USER_ID, [groceries])).rejects.toMatchObject({ statusCode: 409 });
+
+    await BudgetService.reopenMonth(USER_ID, '2024-01');
+
+    await expect(BudgetService.createTransaction(USER_ID, coffee)).resolves.toMatchObject({ month: '2024-01' });
+  });
+
+  it('keeps a reopened month out of the automatic close and replaces its snapshot when it is closed again', async () => {
+    await BudgetService.finalizeMonth(USER_ID, '2024-01');
+    await BudgetService.reopenMonth(USER_ID, '2024-01');
+    expect(history()).toEqual([expect.objectContaining({ reopened_at: expect.any(String) })]);
+
+    // Only February, which was never closed, is closed automatically
+    await expect(BudgetService.closeEndedMonths()).resolves.toBe(1);
+    expect(history()).toEqual([expect.objectContaining({ reopened_at: expect.any(String) })]);
+    expect(await BudgetService.getMonthlyHistory(USER_ID)).toEqual([expect.objectContaining({ month: '2024-02' })]);
+
+    await BudgetService.createTransaction(USER_ID, { description: 'Coffee', amount: 4, date: '2024-01-20', category_id: FOOD_ID });
+    const reclosed = await BudgetService.finalizeMonth(USER_ID, '2024-01');
+
+    expect(reclosed).toMatchObject({ total_expenses: 84, reopened_at: null });
+    expect(history()).toHaveLength(1);
+  });
+
+  it('reopens only a closed month', async () => {
+    await expect(BudgetService.reopenMonth(USER_ID, '2024-01')).rejects.toMatchObject({ statusCode: 404 });
+
+    await BudgetService.finalizeMonth(USER_ID, '2024-01');
+    await BudgetService.reopenMonth(USER_ID, '2024-01');
+
+    await expect(BudgetService.reopenMonth(USER_ID, '2024-01')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('does not close a month with a transaction that has no exchange rate', async () => {
+    rowsOf('transactions').push(transaction('abroad', '2024-01-15', 'expense', 10, { currency: 'EUR' }));
+
+    await expect(BudgetService.finalizeMonth(USER_ID, '2024-01')).rejects.toMatchObject({ statusCode: 409 });
+    expect(history()).toHaveLength(0);
+  });
+
+  it('does not close a month with nothing in it', async () => {
+    await expect(BudgetService.finalizeMonth(USER_ID, '2023-12')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -1,18 +1,132 @@
 import { supabase, supabaseAdmin } from '../config/database';
-import { CreateMonthlyGoalRequest, CreateTransactionRequest, MonthlyGoal, Transaction, CategoryExpense } from '../types';
+import {
+  CreateMonthlyGoalRequest,
+  CreateTransactionRequest,
+  MonthlyGoal,
+  MonthlyHistory,
+  Transaction,
+  TransactionQuery,
+  TransactionSearchResult,
+  CategoryExpense,
+  CreateTransactionOptions,
+  DashboardSummary,
+  TransactionType,
+  TransactionSplit,
+  CreateTransactionSplit,
+  BudgetStatus,
+  CategoryProgress,
+  GoalProgress,
+  BudgetScope,
+  HouseholdRole
+} from '../types';
 import { createError } from '../middleware/errorHandler';
+import { AlertService } from './alertService';
+import { CategoryRuleService } from './categoryRuleService';
+import { ExchangeRateService } from './exchangeRateService';
+import { HouseholdService } from './householdService';
+import { roundMoney } from '../utils/currency';
+import { DEFAULT_TIMEZONE, addMonths, getCurrentMonth, toLocalDate } from '../utils/date';
+
+// The filters scoped() needs from a Supabase query builder. Its typed `eq` is too deep to constrain generically.
+interface ScopeFilterable {
+  match(query: Record<string, unknown>): this;
+  is(column: string, value: boolean | null): this;
+}
 
 export class BudgetService {
+  private static readonly PAGE_SIZE = 1000;
+  // Ids per .in() filter, small enough for the request URL
+  private static readonly IN_CHUNK = 200;
+
   private static isUuid(value: string | undefined | null): boolean {
     if (!value) return false;
     return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(value);
   }
 
-  private static async resolveCategoryId(
+  /**
+   * Budget a call works on: the caller's own, or a household they belong to with at least the `required` role
+   */
+  static async getScope(userId: string, householdId: string | null | undefined, required: HouseholdRole): Promise<BudgetScope> {
+    if (!householdId) {
+      return { userId, householdId: null, role: 'owner', settingsUserId: userId };
+    }
+
+    const { household, role } = await HouseholdService.getMembership(userId, householdId);
+    if (!HouseholdService.hasRole(role, required)) {
+      throw createError(`Household ${role}s cannot do this`, 403);
+    }
+
+    return { userId, householdId, role, settingsUserId: household.owner_id };
+  }
+
+  /**
+   * Run a query a page at a time (PostgREST caps how many rows one request returns), handing each page to `onPage`
+   */
+  private static async forEachPage<T>(
+    page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+    onPage: (rows: T[]) => void,
+    errorMessage: string
+  ): Promise<void> {
+    for (let offset = 0; ; offset += this.PAGE_SIZE) {
+      const { data, error } = await page(offset, offset + this.PAGE_SIZE - 1);
+
+      if (error) {
+        throw createError(errorMessage, 500);
+      }
+
+      onPage(data || []);
+
+      if (!data || data.length < this.PAGE_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Restrict a query to the rows of a budget
+   */
+  static scoped<Q extends ScopeFilterable>(query: Q, scope: BudgetScope): Q {
+    return scope.householdId
+      ? query.match({ household_id: scope.householdId })
+      : query.match({ user_id: scope.userId }).is('household_id', null);
+  }
+
+  /**
+   * Add the member who entered each transaction of a household budget
+   */
+  private static async withMembers(scope: BudgetScope, transactions: Transaction[]): Promise<Transaction[]> {
+    if (!scope.householdId || transactions.length === 0) {
+      return transactions;
+    }
+
+    const { data: users, error } = await supabaseAdmin
+      .from('users')
+      .select('id,name')
+      .in('id', [...new Set(transactions.map((trans) => trans.user_id))]);
+
+    if (error) {
+      throw createError('Failed to fetch household members', 500);
+    }
+
+    const names = new Map((users || []).map((user) => [user.id, user.name as string]));
+    return transactions.map((trans) => ({ ...trans, member: { id: trans.user_id, name: names.get(trans.user_id) || '' } }));
+  }
+
+  /**
+   * PostgREST `or` filter for the categories a budget can use: its own plus the defaults
+   */
+  private static categoryFilter(userId: string, householdId: string | null): string {
+    return householdId
+      ? `household_id.eq.${householdId},is_default.eq.true`
+      : `and(user_id.eq.${userId},household_id.is.null),is_default.eq.true`;
+  }
+
+  static async resolveCategoryId(
     userId: string,
     categoryId: string | undefined,
     categoryName?: string,
-    createIfMissing: boolean = true
+    createIfMissing: boolean = true,
+    householdId: string | null = null
   ): Promise<{ id: string; name: string } | null> {
     // If valid UUID, try to fetch to ensure it exists and belongs to user or default
     if (this.isUuid(categoryId || '')) {
@@ -20,7 +134,7 @@ export class BudgetService {
         .from('categories')
         .select('id,name')
         .eq('id', categoryId as string)
-        .or(`user_id.eq.${userId},is_default.eq.true`)
+        .or(this.categoryFilter(userId, householdId))
         .maybeSingle();
       if (!error && data) return { id: data.id, name: data.name };
     }
@@ -31,7 +145,7 @@ export class BudgetService {
         .from('categories')
         .select('id,name')
         .eq('name', categoryName)
-        .or(`user_id.eq.${userId},is_default.eq.true`)
+        .or(this.categoryFilter(userId, householdId))
         .limit(1)
         .maybeSingle();
       if (!error && data) return { id: data.id, name: data.name };
@@ -47,10 +161,21 @@ export class BudgetService {
       }
 
       if (derivedName) {
+        // Reuse a category that differs only by case (e.g. a slug-derived name) instead of adding a duplicate
+        const { data: existing } = await supabaseAdmin
+          .from('categories')
+          .select('id,name')
+          .ilike('name', derivedName.replace(/[\\%_]/g, '\\$&'))
+          .or(this.categoryFilter(userId, householdId))
+          .limit(1)
+          .maybeSingle();
+        if (existing) return { id: existing.id, name: existing.name };
+
         const { data: created, error: createErr } = await supabaseAdmin
           .from('categories')
           .insert({
             user_id: userId,
+            household_id: householdId,
             name: derivedName,
             color: '#6B7280',
             icon: 'more-horizontal',
@@ -66,18 +191,204 @@ export class BudgetService {
     }
     return null;
   }
+
+  /**
+   * Default category for a transaction that has no category and matches no rule
+   */
+  static fallbackCategoryName(type: TransactionType | undefined): string {
+    return type === 'income' ? 'Income' : 'Miscellaneous';
+  }
+
+  /**
+   * Category/amount lines a transaction contributes: its splits, or the whole amount in its own category.
+   * Amounts are in the base currency once the transaction has been converted.
+   */
+  static categoryLines(trans: Transaction): Array<Pick<TransactionSplit, 'category_id' | 'category_name' | 'amount'>> {
+    if (!trans.splits || trans.splits.length === 0) {
+      return [{ category_id: trans.category_id, category_name: trans.category_name, amount: this.baseAmount(trans) }];
+    }
+
+    const rate = trans.exchange_rate ?? 1;
+    return rate === 1 ? trans.splits : trans.splits.map((split) => ({ ...split, amount: roundMoney(Number(split.amount) * rate) }));
+  }
+
+  /**
+   * Amount of a transaction in the base currency (its own amount until converted)
+   */
+  private static baseAmount(trans: Transaction): number {
+    return Number(trans.base_amount ?? trans.amount);
+  }
+
   /**
-   * Get user's monthly goal for current month
+   * Resolve each split's category and check the splits add up to the transaction amount
    */
-  static async getCurrentMonthlyGoal(userId: string): Promise<MonthlyGoal | null> {
+  private static async resolveSplits(scope: BudgetScope, splits: CreateTransactionSplit[], amount: number): Promise<TransactionSplit[]> {
+    const toCents = (value: number) => Math.round(Number(value) * 100);
+    const total = splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+    if (total !== toCents(amount)) {
+      throw createError('Split amounts must add up to the transaction amount', 400);
+    }
+
+    const resolved: TransactionSplit[] = [];
+    for (const split of splits) {
+      const category = await this.resolveCategoryId(scope.userId, split.category_id, split.category_name, true, scope.householdId);
+      if (!category) {
+        throw createError('Unknown split category. Provide a valid category_id or category_name.', 400);
+      }
+      resolved.push({
+        category_id: category.id,
+        category_name: category.name,
+        amount: Number(split.amount),
+        ...(split.note ? { note: split.note } : {})
+      });
+    }
+
+    return resolved;
+  }
+
+  /**
+   * The largest split's category, used as the parent transaction's category
+   */
+  private static primarySplitCategory(splits: TransactionSplit[]): { id: string; name: string } {
+    const largest = splits.reduce((max, split) => (split.amount > max.amount ? split : max));
+    return { id: largest.category_id, name: largest.category_name };
+  }
+
+  /**
+   * Total up transactions by type. Refunds net against their category, transfers are not spending.
+   * Split transactions count towards each split's category rather than the parent's.
+   */
+  private static summarizeTransactions(transactions: Transaction[]): {
+    actualIncome: number;
+    totalExpenses: number;
+    categoryTotals: Record<string, number>;
+  } {
+    let actualIncome = 0;
+    let totalExpenses = 0;
+    const categoryTotals: Record<string, number> = {};
+
+    for (const trans of transactions) {
+      const amount = this.baseAmount(trans);
+      switch (trans.type || 'expense') {
+        case 'income':
+          actualIncome += amount;
+          break;
+        case 'expense':
+          totalExpenses += amount;
+          this.categoryLines(trans).forEach((line) => {
+            categoryTotals[line.category_name] = (categoryTotals[line.category_name] || 0) + Number(line.amount);
+          });
+          break;
+        case 'refund':
+          totalExpenses -= amount;
+          this.categoryLines(trans).forEach((line) => {
+            categoryTotals[line.category_name] = (categoryTotals[line.category_name] || 0) - Number(line.amount);
+          });
+          break;
+        default:
+          break;
+      }
+    }
+
+    return { actualIncome, totalExpenses, categoryTotals };
+  }
+
+  /**
+   * User's timezone preference, used for all month bucketing
+   */
+  static async getUserTimeZone(userId: string): Promise<string> {
+    const { data, error } = await supabaseAdmin
+      .from('users')
+      .select('timezone')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to fetch user timezone', 500);
+    }
+
+    return data?.timezone || DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Current month (YYYY-MM) in the user's timezone
+   */
+  private static async getUserCurrentMonth(userId: string): Promise<string> {
+    return getCurrentMonth(await this.getUserTimeZone(userId));
+  }
+
+  /**
+   * Get the history snapshot for a month, or null if the month is still (or again) open
+   */
+  private static async getHistorySnapshot(scope: BudgetScope, month: string): Promise<MonthlyHistory | null> {
+    const { data, error } = await this.scoped(supabaseAdmin
+      .from('monthly_history')
+      .select('*'), scope)
+      .eq('month', month)
+      .is('reopened_at', null)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to fetch monthly history', 500);
+    }
+
+    return (data as MonthlyHistory) || null;
+  }
+
+  /**
+   * Check whether a month has been finalized into monthly_history
+   */
+  private static async isMonthClosed(scope: BudgetScope, month: string): Promise<boolean> {
+    const { data, error } = await this.scoped(supabaseAdmin
+      .from('monthly_history')
+      .select('id'), scope)
+      .eq('month', month)
+      .is('reopened_at', null)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to check month status', 500);
+    }
+
+    return !!data;
+  }
+
+  /**
+   * Reject a change spanning several months of the user's own budget if any of them is closed
+   */
+  static async assertMonthsOpen(userId: string, months: string[]): Promise<void> {
+    const scope = await this.getScope(userId, null, 'editor');
+    for (const month of new Set(months)) {
+      await this.assertMonthOpen(scope, month);
+    }
+  }
+
+  /**
+   * Reject changes to a month's goal or transactions once it is closed
+   */
+  private static async assertMonthOpen(scope: BudgetScope, month: string): Promise<void> {
+    if (await this.isMonthClosed(scope, month)) {
+      throw createError(`Month ${month} is closed. Reopen it before making changes.`, 409);
+    }
+  }
+
+  /**
+   * Get user's monthly goal for a month (defaults to the current month).
+   * Closed months are served from their history snapshot.
+   */
+  static async getMonthlyGoal(userId: string, month?: string, householdId?: string | null): Promise<MonthlyGoal | null> {
     try {
-      const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
-      
-      const { data: goal, error } = await supabaseAdmin
+      const scope = await this.getScope(userId, householdId, 'viewer');
+      month = month || await this.getUserCurrentMonth(scope.settingsUserId);
+      const snapshot = await this.getHistorySnapshot(scope, month);
+      if (snapshot) {
+        return snapshot.goal;
+      }
+
+      const { data: goal, error } = await this.scoped(supabaseAdmin
         .from('monthly_goals')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('month', currentMonth)
+        .select('*'), scope)
+        .eq('month', month)
         .single();
 
       if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
@@ -94,24 +405,73 @@ export class BudgetService {
     }
   }
 
+  /**
+   * Set each expense's rollover_amount from the previous month's unspent amount for the same category
+   */
+  private static async applyRollover(scope: BudgetScope, month: string, expenses: CategoryExpense[]): Promise<CategoryExpense[]> {
+    const withoutCarry = expenses.map((expense) => ({ ...expense, rollover_amount: 0 }));
+    if (!expenses.some((expense) => expense.rollover && expense.rollover !== 'none')) {
+      return withoutCarry;
+    }
+
+    const previousMonth = addMonths(`${month}-01`, -1).slice(0, 7);
+    if (!(await this.getMonthlyGoal(scope.userId, previousMonth, scope.householdId))) {
+      return withoutCarry;
+    }
+
+    const previous = await this.getGoalProgress(scope.userId, previousMonth, scope.householdId);
+    return withoutCarry.map((expense) => {
+      if (!expense.rollover || expense.rollover === 'none') {
+        return expense;
+      }
+
+      const match = previous.categories.find((category) => category.category_id === expense.category_id)
+        || previous.categories.find((category) => category.category_name.toLowerCase() === expense.category_name.toLowerCase());
+      const unspent = Math.max(match?.remaining || 0, 0);
+      const carried = expense.rollover === 'capped' ? Math.min(unspent, Number(expense.rollover_cap) || 0) : unspent;
+
+      return { ...expense, rollover_amount: carried };
+    });
+  }
+
   /**
    * Create or update monthly goal
    */
-  static async createMonthlyGoal(userId: string, goalData: CreateMonthlyGoalRequest): Promise<MonthlyGoal> {
+  static async createMonthlyGoal(userId: string, goalData: CreateMonthlyGoalRequest, householdId?: string | null): Promise<MonthlyGoal> {
     try {
-      const { data: goal, error } = await supabaseAdmin
+      const scope = await this.getScope(userId, householdId, 'editor');
+      await this.assertMonthOpen(scope, goalData.month);
+      const expenses = await this.applyRollover(scope, goalData.month, goalData.expenses);
+
+      const { data: existing, error: findError } = await this.scoped(supabaseAdmin
         .from('monthly_goals')
-        .upsert({
-          user_id: userId,
-          month: goalData.month,
-          income: goalData.income,
-          expenses: goalData.expenses,
-          updated_at: new Date().toISOString()
-        }, {
-          onConflict: 'user_id,month'
-        })
-        .select()
-        .single();
+        .select('id'), scope)
+        .eq('month', goalData.month)
+        .maybeSingle();
+
+      if (findError) {
+        throw createError('Failed to create monthly goal', 500);
+      }
+
+      // Personal and household goals are unique on different columns, so there is no single upsert key
+      const values = { income: goalData.income, expenses, updated_at: new Date().toISOString() };
+      const { data: goal, error } = existing
+        ? await supabaseAdmin
+          .from('monthly_goals')
+          .update(values)
+          .eq('id', existing.id)
+          .select()
+          .single()
+        : await supabaseAdmin
+          .from('monthly_goals')
+          .insert({ ...values, user_id: scope.userId, household_id: scope.householdId, month: goalData.month })
+          .select()
+          .single();
+
+      // 23505 = unique violation, i.e. another request created this month's goal first
+      if (error && error.code === '23505') {
+        throw createError('The goal for this month was just saved by another request. Try again.', 409);
+      }
 
       if (error) {
         throw createError('Failed to create monthly goal', 500);
@@ -128,24 +488,25 @@ export class BudgetService {
   }
 
   /**
-   * Get user's transactions for current month
+   * Get user's live transactions for a month (defaults to the current month)
    */
-  static async getCurrentMonthTransactions(userId: string): Promise<Transaction[]> {
+  static async getMonthTransactions(userId: string, month?: string, householdId?: string | null): Promise<Transaction[]> {
     try {
-      const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
-      
-      const { data: transactions, error } = await supabaseAdmin
+      const scope = await this.getScope(userId, householdId, 'viewer');
+      month = month || await this.getUserCurrentMonth(scope.settingsUserId);
+
+      const { data: transactions, error } = await this.scoped(supabaseAdmin
         .from('transactions')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('month', currentMonth)
+        .select('*'), scope)
+        .eq('month', month)
+        .is('deleted_at', null)
         .order('date', { ascending: false });
 
       if (error) {
         throw createError('Failed to fetch transactions', 500);
       }
 
-      return transactions || [];
+      return await this.withMembers(scope, (transactions || []) as Transaction[]);
     } catch (error) {
       if (error instanceof Error && 'statusCode' in error) {
         throw error;
@@ -155,21 +516,213 @@ export class BudgetService {
     }
   }
 
+  /**
+   * Build a transactions query with the search filters applied (no ordering or paging)
+   */
+  private static buildTransactionSearch(scope: BudgetScope, query: TransactionQuery, head: boolean = false) {
+    let request = this.scoped(supabaseAdmin
+      .from('transactions')
+      .select('*', { count: 'exact', head }), scope)
+      .is('deleted_at', null);
+
+    if (query.month) request = request.eq('month', query.month);
+    if (query.from) request = request.gte('date', query.from);
+    if (query.to) request = request.lte('date', query.to);
+    if (query.category_id && query.category_id.length > 0) {
+      // Match the transaction's own category or any of its split lines
+      const splitFilters = query.category_id.map((id) => `splits.cs.${JSON.stringify(JSON.stringify([{ category_id: id }]))}`);
+      request = request.or([`category_id.in.(${query.category_id.join(',')})`, ...splitFilters].join(','));
+    }
+    if (query.type && query.type.length > 0) request = request.in('type', query.type);
+    if (query.min_amount !== undefined) request = request.gte('amount', query.min_amount);
+    if (query.max_amount !== undefined) request = request.lte('amount', query.max_amount);
+    if (query.search) {
+      // Escape LIKE wildcards so the search text is matched literally
+      const escaped = query.search.replace(/[\\%_]/g, (c) => `\\${c}`);
+      request = request.ilike('description', `%${escaped}%`);
+    }
+
+    return request;
+  }
+
+  private static encodeCursor(transaction: Transaction, sort: TransactionQuery['sort']): string {
+    return Buffer.from(JSON.stringify({ v: transaction[sort], id: transaction.id })).toString('base64url');
+  }
+
+  private static decodeCursor(cursor: string): { v: string | number; id: string } {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (decoded === null || decoded.v === undefined || !this.isUuid(decoded.id)) {
+        throw new Error('Malformed cursor');
+      }
+      return decoded;
+    } catch {
+      throw createError('Invalid cursor', 400);
+    }
+  }
+
+  /**
+   * Search user's transactions with filters, sorting and page- or cursor-based pagination
+   */
+  static async searchTransactions(userId: string, query: TransactionQuery, householdId?: string | null): Promise<TransactionSearchResult> {
+    try {
+      const scope = await this.getScope(userId, householdId, 'viewer');
+      const ascending = query.order === 'asc';
+      let request = this.buildTransactionSearch(scope, query);
+      let total: number | null = null;
+
+      if (query.cursor) {
+        const { v, id } = this.decodeCursor(query.cursor);
+        const op = ascending ? 'gt' : 'lt';
+        const quoted = `"${String(v).replace(/["\\]/g, (c) => `\\${c}`)}"`;
+
+        // Total is reported over the whole filtered set, not just what remains after the cursor
+        const { count, error: countError } = await this.buildTransactionSearch(scope, query, true);
+        if (countError) {
+          throw createError('Failed to search transactions', 500);
+        }
+        total = count ?? 0;
+
+        request = request.or(`${query.sort}.${op}.${quoted},and(${query.sort}.eq.${quoted},id.${op}.${id})`);
+      }
+
+      request = request
+        .order(query.sort, { ascending })
+        .order('id', { ascending });
+
+      if (query.cursor) {
+        request = request.limit(query.limit);
+      } else {
+        const offset = ((query.page || 1) - 1) * query.limit;
+        request = request.range(offset, offset + query.limit - 1);
+      }
+
+      const { data: transactions, count, error } = await request;
+
+      // PGRST103 = requested page is past the end of the result set
+      if (error && error.code === 'PGRST103') {
+        const { count: outOfRangeCount } = await this.buildTransactionSearch(scope, query, true);
+        return { transactions: [], total: total ?? outOfRangeCount ?? 0, nextCursor: null };
+      }
+
+      if (error) {
+        throw createError('Failed to search transactions', 500);
+      }
+
+      const rows = await this.withMembers(scope, (transactions || []) as Transaction[]);
+      const nextCursor = rows.length === query.limit
+        ? this.encodeCursor(rows[rows.length - 1], query.sort)
+        : null;
+
+      return {
+        transactions: rows,
+        total: total ?? count ?? 0,
+        nextCursor
+      };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Search transactions error:', error);
+      throw createError('Failed to search transactions', 500);
+    }
+  }
+
+  /**
+   * Currency of an account, failing with 400 unless it exists, belongs to the user and is not archived
+   */
+  private static async getUsableAccountCurrency(userId: string, accountId: string): Promise<string> {
+    const { data: account, error } = await supabaseAdmin
+      .from('accounts')
+      .select('id,is_archived,currency')
+      .eq('id', accountId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to fetch account', 500);
+    }
+
+    if (!account || account.is_archived) {
+      throw createError('Unknown or archived account', 400);
+    }
+
+    return account.currency;
+  }
+
+  /**
+   * Add the other leg of any transfers among the ids, so both legs are deleted or restored together
+   */
+  private static async withTransferLegs(scope: BudgetScope, transactions: Transaction[]): Promise<string[]> {
+    const ids = new Set(transactions.map((trans) => trans.id));
+    const transferIds = [...new Set(transactions.map((trans) => trans.transfer_id).filter((id): id is string => !!id))];
+
+    if (transferIds.length > 0) {
+      const { data: legs, error } = await this.scoped(supabaseAdmin
+        .from('transactions')
+        .select('id'), scope)
+        .in('transfer_id', transferIds);
+
+      if (error) {
+        throw createError('Failed to fetch transactions', 500);
+      }
+
+      (legs || []).forEach((leg) => ids.add(leg.id));
+    }
+
+    return [...ids];
+  }
+
   /**
    * Create a new transaction
    */
-  static async createTransaction(userId: string, transactionData: CreateTransactionRequest): Promise<Transaction> {
+  static async createTransaction(
+    userId: string,
+    transactionData: CreateTransactionRequest,
+    options: CreateTransactionOptions = {}
+  ): Promise<Transaction> {
     try {
-      const month = new Date(transactionData.date).toISOString().slice(0, 7); // YYYY-MM format
-      
-      // Resolve category id to a valid UUID from categories table (supports default slugs)
-      const resolved = await this.resolveCategoryId(
-        userId,
-        transactionData.category_id,
-        transactionData.category_name
-      );
-      console.log('resolved', resolved);
-      console.log('transactionData', transactionData);
+      const scope = await this.getScope(userId, options.householdId, 'editor');
+
+      // Bucket by the calendar date in the budget's timezone so date and month always agree
+      const date = toLocalDate(transactionData.date, await this.getUserTimeZone(scope.settingsUserId));
+      const month = date.slice(0, 7); // YYYY-MM format
+      await this.assertMonthOpen(scope, month);
+
+      // Money on an account is always in the account's currency
+      const accountCurrency = transactionData.account_id
+        ? await this.getUsableAccountCurrency(userId, transactionData.account_id)
+        : null;
+      const currency = transactionData.currency || accountCurrency || await ExchangeRateService.getBaseCurrency(scope.settingsUserId);
+      if (accountCurrency && currency !== accountCurrency) {
+        throw createError(`Transactions on this account must be in ${accountCurrency}`, 400);
+      }
+
+      let categoryRuleId = options.categoryRuleId ?? null;
+      let resolved: { id: string; name: string } | null;
+      let splits: TransactionSplit[] | null = null;
+      if (transactionData.splits && transactionData.splits.length > 0) {
+        splits = await this.resolveSplits(scope, transactionData.splits, transactionData.amount);
+        resolved = this.primarySplitCategory(splits);
+        categoryRuleId = null;
+      } else if (transactionData.category_id || transactionData.category_name) {
+        // Resolve category id to a valid UUID from categories table (supports default slugs)
+        resolved = await this.resolveCategoryId(
+          userId,
+          transactionData.category_id,
+          transactionData.category_name,
+          true,
+          scope.householdId
+        );
+      } else {
+        // Categorization rules are personal, so they only apply to the user's own budget
+        const rule = scope.householdId ? null : await CategoryRuleService.findMatchingRule(userId, transactionData);
+        categoryRuleId = rule?.id ?? null;
+        resolved = rule
+          ? { id: rule.category_id, name: rule.category_name }
+          : await this.resolveCategoryId(userId, undefined, this.fallbackCategoryName(transactionData.type), false, scope.householdId);
+      }
+
       if (!resolved) {
         throw createError('Unknown category. Provide a valid category_id or category_name.', 400);
       }
@@ -178,20 +731,39 @@ export class BudgetService {
         .from('transactions')
         .insert({
           user_id: userId,
+          household_id: scope.householdId,
           category_id: resolved.id,
           category_name: resolved.name,
+          type: transactionData.type || 'expense',
           amount: transactionData.amount,
+          currency,
           description: transactionData.description,
-          date: transactionData.date,
-          month: month
+          date,
+          month: month,
+          recurring_rule_id: options.recurringRuleId ?? null,
+          import_batch_id: options.importBatchId ?? null,
+          category_rule_id: categoryRuleId,
+          splits,
+          account_id: transactionData.account_id ?? null,
+          cleared: transactionData.cleared ?? false,
+          transfer_id: options.transfer?.id ?? null,
+          transfer_direction: options.transfer?.direction ?? null
         })
         .select()
         .single();
 
+      // 23505 = unique violation, i.e. this recurring occurrence was already materialized
+      if (error && error.code === '23505') {
+        throw createError('Transaction already exists for this recurring occurrence', 409);
+      }
+
       if (error) {
         throw createError('Failed to create transaction', 500);
       }
 
+      // Alerts are checked in the background so they never fail the write
+      void AlertService.evaluateTransaction(userId, transaction as Transaction);
+
       return transaction as Transaction;
     } catch (error) {
       if (error instanceof Error && 'statusCode' in error) {
@@ -205,37 +777,102 @@ export class BudgetService {
   /**
    * Update a transaction by id, ensuring it belongs to user. If date changes, update month accordingly.
    */
-  static async updateTransaction(userId: string, transactionId: string, updates: Partial<CreateTransactionRequest>): Promise<Transaction> {
+  static async updateTransaction(
+    userId: string,
+    transactionId: string,
+    updates: Partial<CreateTransactionRequest>,
+    householdId?: string | null
+  ): Promise<Transaction> {
     try {
-      // Ensure the transaction belongs to the user
-      const { data: existing, error: findError } = await supabaseAdmin
+      const scope = await this.getScope(userId, householdId, 'editor');
+
+      // Ensure the transaction belongs to the budget
+      const { data: existing, error: findError } = await this.scoped(supabaseAdmin
         .from('transactions')
-        .select('*')
+        .select('*'), scope)
         .eq('id', transactionId)
-        .eq('user_id', userId)
+        .is('deleted_at', null)
         .single();
 
       if (findError || !existing) {
         throw createError('Transaction not found', 404);
       }
 
+      // Changing one leg of a transfer would leave the two accounts out of step
+      if (existing.transfer_id && (
+        updates.amount !== undefined || updates.date !== undefined || updates.type !== undefined
+        || updates.account_id !== undefined || updates.currency !== undefined
+      )) {
+        throw createError('Transfers cannot be changed. Delete the transfer and create a new one.', 400);
+      }
+
+      // Money on an account is always in the account's currency. The account belongs to whoever entered the transaction.
+      const accountId = updates.account_id !== undefined ? updates.account_id : existing.account_id;
+      let currency = updates.currency || existing.currency;
+      if (accountId && (updates.account_id !== undefined || updates.currency !== undefined)) {
+        // Older transactions without a currency are in the base currency
+        currency = currency || await ExchangeRateService.getBaseCurrency(scope.settingsUserId);
+        const accountCurrency = await this.getUsableAccountCurrency(existing.user_id, accountId);
+        if (currency !== accountCurrency) {
+          throw createError(`Transactions on this account must be in ${accountCurrency}`, 400);
+        }
+      }
+
       let month = existing.month as string;
       let newDate = existing.date as string;
       if (updates.date) {
-        newDate = updates.date;
-        month = new Date(updates.date).toISOString().slice(0, 7);
+        newDate = toLocalDate(updates.date, await this.getUserTimeZone(scope.settingsUserId));
+        month = newDate.slice(0, 7);
+      }
+
+      // Both the source and the destination month must be open
+      await this.assertMonthOpen(scope, existing.month);
+      if (month !== existing.month) {
+        await this.assertMonthOpen(scope, month);
       }
 
       // If category change provided and not a valid UUID, resolve by name
       let categoryIdToUse = existing.category_id as string;
       let categoryNameToUse = existing.category_name as string;
-      if (updates.category_id || updates.category_name) {
-        const resolved = await this.resolveCategoryId(userId, updates.category_id, updates.category_name);
+      let categoryRuleId = existing.category_rule_id ?? null;
+      let splits: TransactionSplit[] | null = existing.splits ?? null;
+      const amount = updates.amount ?? existing.amount;
+      if (updates.splits && updates.splits.length > 0) {
+        if (updates.category_id || updates.category_name) {
+          throw createError('Provide either a category or splits, not both', 400);
+        }
+        splits = await this.resolveSplits(scope, updates.splits, amount);
+        const primary = this.primarySplitCategory(splits);
+        categoryIdToUse = primary.id;
+        categoryNameToUse = primary.name;
+        categoryRuleId = null;
+      } else if (updates.category_id || updates.category_name) {
+        const resolved = await this.resolveCategoryId(userId, updates.category_id, updates.category_name, true, scope.householdId);
         if (!resolved) {
           throw createError('Unknown category. Provide a valid category_id or category_name.', 400);
         }
         categoryIdToUse = resolved.id;
         categoryNameToUse = resolved.name;
+        categoryRuleId = null; // an explicit choice is never overridden by rules
+        splits = null;
+      } else if (updates.splits === null) {
+        splits = null; // unsplit, keeping the largest split's category
+      } else if (splits && splits.length > 0) {
+        if (Math.round(Number(amount) * 100) !== Math.round(Number(existing.amount) * 100)) {
+          throw createError('Split amounts must add up to the transaction amount. Send updated splits with the new amount.', 400);
+        }
+      } else if (categoryRuleId && (updates.description !== undefined || updates.amount !== undefined || updates.type !== undefined)) {
+        // The category came from a rule, so re-run the rules against the edited transaction
+        const rule = await CategoryRuleService.findMatchingRule(userId, {
+          description: updates.description ?? existing.description,
+          amount: updates.amount ?? existing.amount,
+          type: updates.type ?? existing.type
+        });
+        if (rule) {
+          categoryIdToUse = rule.category_id;
+          categoryNameToUse = rule.category_name;
+          categoryRuleId = rule.id;
+        }
       }
 
       const { data: updated, error: updateError } = await supabaseAdmin
@@ -243,14 +880,19 @@ export class BudgetService {
         .update({
           category_id: categoryIdToUse,
           category_name: categoryNameToUse,
-          amount: updates.amount ?? existing.amount,
+          category_rule_id: categoryRuleId,
+          splits,
+          type: updates.type ?? existing.type,
+          amount,
+          currency,
           description: updates.description ?? existing.description,
           date: newDate,
           month,
+          account_id: accountId,
+          cleared: updates.cleared ?? existing.cleared,
           updated_at: new Date().toISOString(),
         })
         .eq('id', transactionId)
-        .eq('user_id', userId)
         .select()
         .single();
 
@@ -258,6 +900,8 @@ export class BudgetService {
         throw createError('Failed to update transaction', 500);
       }
 
+      void AlertService.evaluateTransaction(userId, updated as Transaction);
+
       return updated as Transaction;
     } catch (error) {
       if (error instanceof Error && 'statusCode' in error) {
@@ -269,41 +913,283 @@ export class BudgetService {
   }
 
   /**
-   * Get dashboard summary data
+   * Load the budget's transactions with the given ids, optionally only those in the trash.
+   * Fails with 404 unless every id belongs to the budget.
    */
-  static async getDashboardSummary(userId: string): Promise<{
-    monthlyGoal: MonthlyGoal | null;
-    transactions: Transaction[];
-    totalIncome: number;
-    totalExpenses: number;
-    actualSavings: number;
-    expectedSavings: number;
-    topCategories: Array<{ category_name: string; amount: number; percentage: number }>;
-    monthlyProgress: number;
-  }> {
+  private static async findOwnedTransactions(scope: BudgetScope, ids: string[], deleted: boolean): Promise<Transaction[]> {
+    const notFound = () => createError(ids.length === 1 ? 'Transaction not found' : 'One or more transactions not found', 404);
+
+    // Ids from the URL aren't validated, and Postgres rejects a malformed uuid outright
+    if (!ids.every((id) => this.isUuid(id))) {
+      throw notFound();
+    }
+
+    let request = this.scoped(supabaseAdmin
+      .from('transactions')
+      .select('*'), scope)
+      .in('id', ids);
+
+    request = deleted ? request.not('deleted_at', 'is', null) : request.is('deleted_at', null);
+
+    const { data: transactions, error } = await request;
+
+    if (error) {
+      throw createError('Failed to fetch transactions', 500);
+    }
+
+    if (!transactions || transactions.length !== new Set(ids).size) {
+      throw notFound();
+    }
+
+    return transactions as Transaction[];
+  }
+
+  /**
+   * Soft delete transactions belonging to the budget. They can be restored until purged.
+   * Deleting either leg of a transfer deletes both.
+   */
+  static async deleteTransactions(userId: string, transactionIds: string[], householdId?: string | null): Promise<string[]> {
+    try {
+      const scope = await this.getScope(userId, householdId, 'editor');
+      const ids = await this.withTransferLegs(scope, await this.findOwnedTransactions(scope, transactionIds, false));
+      const transactions = await this.findOwnedTransactions(scope, ids, false);
+
+      for (const month of new Set(transactions.map((trans) => trans.month))) {
+        await this.assertMonthOpen(scope, month);
+      }
+
+      const { data: deleted, error } = await supabaseAdmin
+        .from('transactions')
+        .update({ deleted_at: new Date().toISOString() })
+        .in('id', ids)
+        .is('deleted_at', null)
+        .select('id');
+
+      if (error) {
+        throw createError('Failed to delete transactions', 500);
+      }
+
+      return (deleted || []).map((row) => row.id);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Delete transactions error:', error);
+      throw createError('Failed to delete transactions', 500);
+    }
+  }
+
+  /**
+   * Restore soft-deleted transactions belonging to the budget (both legs of a transfer)
+   */
+  static async restoreTransactions(userId: string, transactionIds: string[], householdId?: string | null): Promise<Transaction[]> {
+    try {
+      const scope = await this.getScope(userId, householdId, 'editor');
+      const ids = await this.withTransferLegs(scope, await this.findOwnedTransactions(scope, transactionIds, true));
+      const transactions = await this.findOwnedTransactions(scope, ids, true);
+
+      for (const month of new Set(transactions.map((trans) => trans.month))) {
+        await this.assertMonthOpen(scope, month);
+      }
+
+      const { data: restored, error } = await supabaseAdmin
+        .from('transactions')
+        .update({ deleted_at: null })
+        .in('id', ids)
+        .not('deleted_at', 'is', null)
+        .select();
+
+      if (error) {
+        throw createError('Failed to restore transactions', 500);
+      }
+
+      return (restored || []) as Transaction[];
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Restore transactions error:', error);
+      throw createError('Failed to restore transactions', 500);
+    }
+  }
+
+  /**
+   * Permanently remove transactions that have been in the trash longer than the retention window (used by the scheduler)
+   */
+  static async purgeDeletedTransactions(retentionDays: number): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: purged, error } = await supabaseAdmin
+      .from('transactions')
+      .delete()
+      .lt('deleted_at', cutoff)
+      .select('id');
+
+    if (error) {
+      throw createError('Failed to purge deleted transactions', 500);
+    }
+
+    return purged?.length || 0;
+  }
+
+  static budgetStatus(expected: number, actual: number): BudgetStatus {
+    const difference = Math.round(actual * 100) - Math.round(expected * 100);
+    return difference > 0 ? 'over' : difference < 0 ? 'under' : 'on_budget';
+  }
+
+  /**
+   * Compare each planned category with actual spending (expenses less refunds, by split) for a month
+   */
+  static async getGoalProgress(userId: string, month: string, householdId?: string | null): Promise<GoalProgress> {
+    try {
+      const scope = await this.getScope(userId, householdId, 'viewer');
+      const snapshot = await this.getHistorySnapshot(scope, month);
+      const [goal, { transactions, unconverted }] = snapshot
+        ? [snapshot.goal, { transactions: snapshot.transactions, unconverted: [] }]
+        : await Promise.all([
+          this.getMonthlyGoal(userId, month, scope.householdId),
+          this.getMonthTransactions(userId, month, scope.householdId)
+            .then((live) => ExchangeRateService.convertToBase(scope.settingsUserId, live))
+        ]);
+
+      if (!goal) {
+        throw createError(`No monthly goal found for ${month}`, 404);
+      }
+
+      const round = (value: number) => Math.round(value * 100) / 100;
+
+      // Net spending per category, keyed by category id
+      const actuals = new Map<string, { category_id: string; category_name: string; actual_amount: number }>();
+      for (const trans of transactions) {
+        const type = trans.type || 'expense';
+        if (type !== 'expense' && type !== 'refund') continue;
+
+        for (const line of this.categoryLines(trans)) {
+          const entry = actuals.get(line.category_id) || { category_id: line.category_id, category_name: line.category_name, actual_amount: 0 };
+          entry.actual_amount += type === 'refund' ? -Number(line.amount) : Number(line.amount);
+          actuals.set(line.category_id, entry);
+        }
+      }
+
+      // Goal categories may be stored by slug rather than id, so fall back to matching by name
+      const categories: CategoryProgress[] = (goal.expenses || []).map((expense: CategoryExpense) => {
+        const match = actuals.get(expense.category_id)
+          || [...actuals.values()].find((entry) => entry.category_name.toLowerCase() === expense.category_name.toLowerCase());
+        if (match) {
+          actuals.delete(match.category_id);
+        }
+
+        const expected = Number(expense.expected_amount);
+        const rollover = Number(expense.rollover_amount) || 0;
+        const available = expected + rollover;
+        const actual = round(match?.actual_amount || 0);
+        return {
+          category_id: expense.category_id,
+          category_name: expense.category_name,
+          expected_amount: expected,
+          rollover_amount: rollover,
+          actual_amount: actual,
+          remaining: round(available - actual),
+          percent_used: available > 0 ? round((actual / available) * 100) : null,
+          status: this.budgetStatus(available, actual)
+        };
+      });
+
+      const unplannedCategories = [...actuals.values()]
+        .map((entry) => ({ ...entry, actual_amount: round(entry.actual_amount) }))
+        .filter((entry) => entry.actual_amount !== 0)
+        .sort((a, b) => b.actual_amount - a.actual_amount);
+      const unplannedTotal = round(unplannedCategories.reduce((sum, entry) => sum + entry.actual_amount, 0));
+
+      const totalExpected = round(categories.reduce((sum, category) => sum + category.expected_amount + category.rollover_amount, 0));
+      const totalActual = round(categories.reduce((sum, category) => sum + category.actual_amount, 0) + unplannedTotal);
+
+      return {
+        month,
+        isClosed: !!snapshot,
+        categories,
+        unplanned: {
+          actual_amount: unplannedTotal,
+          categories: unplannedCategories
+        },
+        totalExpected,
+        totalActual,
+        totalRemaining: round(totalExpected - totalActual),
+        percentUsed: totalExpected > 0 ? round((totalActual / totalExpected) * 100) : null,
+        status: this.budgetStatus(totalExpected, totalActual),
+        unconvertedCount: unconverted.length
+      };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get goal progress error:', error);
+      throw createError('Failed to fetch goal progress', 500);
+    }
+  }
+
+  /**
+   * Net amount moved into savings goals during a month (withdrawals subtract). Savings goals are personal.
+   */
+  private static async getMonthSavingsContributions(scope: BudgetScope, month: string): Promise<number> {
+    if (scope.householdId) {
+      return 0;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('savings_contributions')
+      .select('kind,amount,transactions!inner(deleted_at)')
+      .eq('user_id', scope.userId)
+      .gte('date', `${month}-01`)
+      .lt('date', addMonths(`${month}-01`, 1))
+      .is('transactions.deleted_at', null);
+
+    if (error) {
+      throw createError('Failed to fetch savings contributions', 500);
+    }
+
+    const total = (data || []).reduce(
+      (sum, c) => sum + (c.kind === 'withdrawal' ? -Number(c.amount) : Number(c.amount)), 0
+    );
+    return Math.round(total * 100) / 100;
+  }
+
+  /**
+   * Get dashboard summary data for a month (defaults to the current month)
+   */
+  static async getDashboardSummary(userId: string, month?: string, householdId?: string | null): Promise<DashboardSummary> {
     try {
-      const [monthlyGoal, transactions] = await Promise.all([
-        this.getCurrentMonthlyGoal(userId),
-        this.getCurrentMonthTransactions(userId)
-      ]);
+      const scope = await this.getScope(userId, householdId, 'viewer');
+      month = month || await this.getUserCurrentMonth(scope.settingsUserId);
 
-      const totalIncome = monthlyGoal?.income || 0;
-      const totalExpenses = transactions.reduce((sum, trans) => sum + Number(trans.amount), 0);
+      // Closed months are summarized from their snapshot, open months from live data
+      const snapshot = await this.getHistorySnapshot(scope, month);
+      const baseCurrency = snapshot?.currency || await ExchangeRateService.getBaseCurrency(scope.settingsUserId);
+      // Transactions without an exchange rate are listed but left out of the totals
+      const [monthlyGoal, { transactions, unconverted }] = snapshot
+        ? [snapshot.goal, { transactions: snapshot.transactions, unconverted: [] }]
+        : await Promise.all([
+          this.getMonthlyGoal(userId, month, scope.householdId),
+          this.getMonthTransactions(userId, month, scope.householdId)
+            .then((live) => ExchangeRateService.convertToBase(scope.settingsUserId, live, baseCurrency))
+        ]);
+      const savingsContributions = await this.getMonthSavingsContributions(scope, month);
+
+      const plannedIncome = Number(monthlyGoal?.income) || 0;
+      const { actualIncome, totalExpenses, categoryTotals } = this.summarizeTransactions(transactions);
+      // Fall back to the planned income when no income transactions were recorded
+      const totalIncome = actualIncome > 0 ? actualIncome : plannedIncome;
       const actualSavings = totalIncome - totalExpenses;
       
       // Calculate expected savings from monthly goal
       const totalExpectedExpenses = monthlyGoal?.expenses?.reduce(
         (sum: number, exp: CategoryExpense) => sum + Number(exp.expected_amount), 0
       ) || 0;
-      const expectedSavings = totalIncome - totalExpectedExpenses;
+      const expectedSavings = plannedIncome - totalExpectedExpenses;
 
       // Calculate top spending categories
-      const categoryTotals = transactions.reduce((acc: Record<string, number>, trans) => {
-        acc[trans.category_name] = (acc[trans.category_name] || 0) + Number(trans.amount);
-        return acc;
-      }, {});
-
       const topCategories = Object.entries(categoryTotals)
+        .filter(([, amount]) => amount > 0)
         .map(([category_name, amount]) => ({
           category_name,
           amount,
@@ -318,14 +1204,21 @@ export class BudgetService {
         : 0;
 
       return {
+        month,
+        isClosed: !!snapshot,
         monthlyGoal,
-        transactions,
+        transactions: [...transactions, ...unconverted].sort((a, b) => a.date.localeCompare(b.date)),
         totalIncome,
+        plannedIncome,
+        actualIncome,
         totalExpenses,
         actualSavings,
         expectedSavings,
         topCategories,
-        monthlyProgress
+        monthlyProgress,
+        savingsContributions,
+        baseCurrency,
+        unconvertedCount: unconverted.length
       };
     } catch (error) {
       if (error instanceof Error && 'statusCode' in error) {
@@ -337,14 +1230,15 @@ export class BudgetService {
   }
 
   /**
-   * Get user's monthly history
+   * Get the monthly history of the user's budget or a household's
    */
-  static async getMonthlyHistory(userId: string): Promise<any[]> {
+  static async getMonthlyHistory(userId: string, householdId?: string | null): Promise<any[]> {
     try {
-      const { data: history, error } = await supabaseAdmin
+      const scope = await this.getScope(userId, householdId, 'viewer');
+      const { data: history, error } = await this.scoped(supabaseAdmin
         .from('monthly_history')
-        .select('*')
-        .eq('user_id', userId)
+        .select('*'), scope)
+        .is('reopened_at', null)
         .order('month', { ascending: false });
 
       if (error) {
@@ -362,14 +1256,292 @@ export class BudgetService {
   }
 
   /**
-   * Get user's categories (default + custom)
+   * Finalize a month into monthly_history. Re-closing an already closed month returns the existing snapshot.
+   */
+  static async finalizeMonth(userId: string, month: string, householdId?: string | null): Promise<MonthlyHistory> {
+    try {
+      const scope = await this.getScope(userId, householdId, 'editor');
+      return await this.finalizeScopedMonth(scope, month);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Finalize month error:', error);
+      throw createError('Failed to finalize month', 500);
+    }
+  }
+
+  /**
+   * Finalize a month of an already authorized budget (also used by the scheduler)
+   */
+  private static async finalizeScopedMonth(scope: BudgetScope, month: string): Promise<MonthlyHistory> {
+    try {
+      const existing = await this.getHistorySnapshot(scope, month);
+      if (existing) {
+        return existing;
+      }
+
+      const { data: goal, error: goalError } = await this.scoped(supabaseAdmin
+        .from('monthly_goals')
+        .select('*'), scope)
+        .eq('month', month)
+        .maybeSingle();
+
+      if (goalError) {
+        throw createError('Failed to finalize month', 500);
+      }
+
+      const { data: transactions, error: transactionsError } = await this.scoped(supabaseAdmin
+        .from('transactions')
+        .select('*'), scope)
+        .eq('month', month)
+        .is('deleted_at', null)
+        .order('date', { ascending: true });
+
+      if (transactionsError) {
+        throw createError('Failed to finalize month', 500);
+      }
+
+      if (!goal && (transactions || []).length === 0) {
+        throw createError(`No monthly goal or transactions found for ${month}`, 404);
+      }
+
+      // A month that was never planned is closed against an empty goal
+      const snapshotGoal = goal || {
+        user_id: scope.userId,
+        household_id: scope.householdId,
+        month,
+        income: 0,
+        expenses: []
+      };
+
+      // The snapshot keeps each transaction's rate so the month's totals never change
+      const baseCurrency = await ExchangeRateService.getBaseCurrency(scope.settingsUserId);
+      const { transactions: converted, unconverted } = await ExchangeRateService.convertToBase(
+        scope.settingsUserId,
+        await this.withMembers(scope, (transactions || []) as Transaction[]),
+        baseCurrency
+      );
+
+      if (unconverted.length > 0) {
+        throw createError(
+          `Cannot close ${month}: ${unconverted.length} transaction(s) have no exchange rate into ${baseCurrency}. Add the missing rates first.`,
+          409
+        );
+      }
+      const { actualIncome, totalExpenses } = this.summarizeTransactions(converted);
+      // Fall back to the planned income when no income transactions were recorded
+      const totalIncome = actualIncome > 0 ? actualIncome : Number(snapshotGoal.income) || 0;
+
+      const snapshot = {
+        goal: snapshotGoal,
+        transactions: converted,
+        total_income: totalIncome,
+        total_expenses: totalExpenses,
+        actual_savings: totalIncome - totalExpenses,
+        currency: baseCurrency,
+        finalized_at: new Date().toISOString(),
+        reopened_at: null
+      };
+
+      // A reopened month still has its row; closing it again replaces the snapshot
+      const { data: reclosed, error: recloseError } = await this.scoped(supabaseAdmin
+        .from('monthly_history')
+        .update(snapshot), scope)
+        .eq('month', month)
+        .not('reopened_at', 'is', null)
+        .select()
+        .maybeSingle();
+
+      if (recloseError) {
+        throw createError('Failed to finalize month', 500);
+      }
+
+      if (reclosed) {
+        return reclosed as MonthlyHistory;
+      }
+
+      const { data: history, error } = await supabaseAdmin
+        .from('monthly_history')
+        .insert({
+          user_id: scope.userId,
+          household_id: scope.householdId,
+          month,
+          ...snapshot
+        })
+        .select()
+        .single();
+
+      // 23505 = unique violation, i.e. a concurrent close won the race; return its snapshot
+      if (error && error.code !== '23505') {
+        throw createError('Failed to finalize month', 500);
+      }
+
+      if (history) {
+        return history as MonthlyHistory;
+      }
+
+      const { data: concurrent, error: concurrentError } = await this.scoped(supabaseAdmin
+        .from('monthly_history')
+        .select('*'), scope)
+        .eq('month', month)
+        .is('reopened_at', null)
+        .single();
+
+      if (concurrentError || !concurrent) {
+        throw createError('Failed to finalize month', 500);
+      }
+
+      return concurrent as MonthlyHistory;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Finalize month error:', error);
+      throw createError('Failed to finalize month', 500);
+    }
+  }
+
+  /**
+   * Reopen a closed month so its transactions can be edited again. The month stays marked as reopened,
+   * so it is not closed automatically again; finalizing it replaces the snapshot.
+   */
+  static async reopenMonth(userId: string, month: string, householdId?: string | null): Promise<void> {
+    try {
+      const scope = await this.getScope(userId, householdId, 'editor');
+      const { data: reopened, error } = await this.scoped(supabaseAdmin
+        .from('monthly_history')
+        .update({ reopened_at: new Date().toISOString() }), scope)
+        .eq('month', month)
+        .is('reopened_at', null)
+        .select('id');
+
+      if (error) {
+        throw createError('Failed to reopen month', 500);
+      }
+
+      if (!reopened || reopened.length === 0) {
+        throw createError(`Month ${month} is not closed`, 404);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Reopen month error:', error);
+      throw createError('Failed to reopen month', 500);
+    }
+  }
+
+  /**
+   * Finalize every past month that has a goal or transactions but no history entry yet (used by the scheduler).
+   * Months the user reopened are left for them to finalize again.
+   */
+  static async closeEndedMonths(): Promise<number> {
+    // Every timezone is within a day of UTC, so no month after the UTC month can have ended anywhere
+    const utcMonth = getCurrentMonth();
+
+    type MonthRow = { user_id: string; household_id: string | null; month: string };
+    const budgetKey = (row: MonthRow) => `${row.household_id || row.user_id}:${row.month}`;
+    const monthRows = (table: string) => supabaseAdmin
+      .from(table)
+      .select('id,user_id,household_id,month')
+      .lte('month', utcMonth);
+
+    // Closed and reopened months are both skipped; a reopened month waits until it is finalized again
+    const closedKeys = new Set<string>();
+    await this.forEachPage<MonthRow>(
+      (from, to) => monthRows('monthly_history').order('id').range(from, to),
+      (rows) => rows.forEach((row) => closedKeys.add(budgetKey(row))),
+      'Failed to load months to close'
+    );
+
+    // One candidate per budget and month, whether it has a goal, transactions or both
+    const candidates = new Map<string, MonthRow>();
+    const addCandidates = (rows: MonthRow[]) => rows
+      .filter((row) => !closedKeys.has(budgetKey(row)))
+      .forEach((row) => candidates.set(budgetKey(row), row));
+    await this.forEachPage<MonthRow>(
+      (from, to) => monthRows('monthly_goals').order('id').range(from, to),
+      addCandidates,
+      'Failed to load months to close'
+    );
+    await this.forEachPage<MonthRow>(
+      (from, to) => monthRows('transactions').is('deleted_at', null).order('id').range(from, to),
+      addCandidates,
+      'Failed to load months to close'
+    );
+
+    // Household budgets follow their owner's settings
+    const householdIds = [...new Set([...candidates.values()].map((row) => row.household_id).filter((id): id is string => !!id))];
+    const householdOwner = new Map<string, string>();
+    for (let i = 0; i < householdIds.length; i += this.IN_CHUNK) {
+      const { data: households, error: householdsError } = await supabaseAdmin
+        .from('households')
+        .select('id,owner_id')
+        .in('id', householdIds.slice(i, i + this.IN_CHUNK));
+
+      if (householdsError) {
+        throw createError('Failed to load months to close', 500);
+      }
+
+      (households || []).forEach((h) => householdOwner.set(h.id, h.owner_id as string));
+    }
+
+    const scopes = [...candidates.values()].map((row): { scope: BudgetScope; month: string } => {
+      const settingsUserId = row.household_id ? householdOwner.get(row.household_id) || row.user_id : row.user_id;
+      return {
+        scope: { userId: settingsUserId, householdId: row.household_id, role: 'owner', settingsUserId },
+        month: row.month
+      };
+    });
+
+    const userIds = [...new Set(scopes.map(({ scope }) => scope.settingsUserId))];
+    const users: Array<{ id: string; timezone: string | null }> = [];
+    for (let i = 0; i < userIds.length; i += this.IN_CHUNK) {
+      const { data, error: usersError } = await supabaseAdmin
+        .from('users')
+        .select('id,timezone')
+        .in('id', userIds.slice(i, i + this.IN_CHUNK));
+
+      if (usersError) {
+        throw createError('Failed to load months to close', 500);
+      }
+
+      users.push(...(data || []));
+    }
+
+    // A month has ended once the user's local current month is past it
+    const userCurrentMonth = new Map(users.map((u) => [u.id, getCurrentMonth(u.timezone || DEFAULT_TIMEZONE)]));
+    const pending = scopes.filter(({ scope, month }) => month < (userCurrentMonth.get(scope.settingsUserId) || utcMonth));
+
+    let closedCount = 0;
+    for (const { scope, month } of pending) {
+      try {
+        await this.finalizeScopedMonth(scope, month);
+        closedCount++;
+      } catch (error) {
+        // A month that cannot be closed yet (e.g. a missing exchange rate) is retried on the next run
+        if (error instanceof Error && 'statusCode' in error && (error as { statusCode?: number }).statusCode === 409) {
+          console.log(`Auto-close skipped for ${scope.householdId || scope.userId} ${month}: ${error.message}`);
+        } else {
+          console.error(`Auto-close failed for ${scope.householdId || scope.userId} ${month}:`, error);
+        }
+      }
+    }
+
+    return closedCount;
+  }
+
+  /**
+   * Get the categories of the user's budget or a household's (default + custom)
    */
-  static async getUserCategories(userId: string): Promise<any[]> {
+  static async getUserCategories(userId: string, householdId?: string | null): Promise<any[]> {
     try {
+      const scope = await this.getScope(userId, householdId, 'viewer');
       const { data: categories, error } = await supabaseAdmin
         .from('categories')
         .select('*')
-        .or(`user_id.eq.${userId},is_default.eq.true`)
+        .or(this.categoryFilter(userId, scope.householdId))
         .order('is_default', { ascending: false })
         .order('name', { ascending: true });
 
@@ -388,18 +1560,20 @@ export class BudgetService {
   }
 
   /**
-   * Create a new user category
+   * Create a new user or household category
    */
   static async createCategory(userId: string, categoryData: {
     name: string;
     color: string;
     icon: string;
-  }): Promise<any> {
+  }, householdId?: string | null): Promise<any> {
     try {
+      const scope = await this.getScope(userId, householdId, 'editor');
       const { data: category, error } = await supabaseAdmin
         .from('categories')
         .insert({
           user_id: userId,
+          household_id: scope.householdId,
           name: categoryData.name,
           color: categoryData.color,
           icon: categoryData.icon,
@@ -423,15 +1597,15 @@ export class BudgetService {
   }
 
   /**
-   * Delete a user category
+   * Delete a user or household category
    */
-  static async deleteCategory(userId: string, categoryId: string): Promise<void> {
+  static async deleteCategory(userId: string, categoryId: string, householdId?: string | null): Promise<void> {
     try {
-      const { error } = await supabaseAdmin
+      const scope = await this.getScope(userId, householdId, 'editor');
+      const { error } = await this.scoped(supabaseAdmin
         .from('categories')
-        .delete()
+        .delete(), scope)
         .eq('id', categoryId)
-        .eq('user_id', userId)
         .eq('is_default', false); // Only allow deletion of user-created categories
 
       if (error) {
@@ -0,0 +1,132 @@
+import { CategoryRuleService } from './categoryRuleService';
+import { rowsOf, seed } from '../test/fakeSupabase';
+import { CategoryRule, CategoryRuleCondition } from '../types';
+
+jest.mock('../config/database', () => require('../test/fakeSupabase').fakeDatabase);
+
+const USER_ID = 'user-1';
+
+const rule = (id: string, conditions: CategoryRuleCondition[], priority: number = 0): CategoryRule => ({
+  id,
+  user_id: USER_ID,
+  name: id,
+  priority,
+  conditions,
+  category_id: `cat-${id}`,
+  category_name: `Category ${id}`,
+  is_active: true,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z'
+});
+
+describe('CategoryRuleService.matchRules', () => {
+  it.each<[CategoryRuleCondition['field'], CategoryRuleCondition['operator'], string | number, boolean]>([
+    ['description', 'contains', 'NETFLIX', true],
+    ['description', 'equals', 'netflix.com monthly', true],
+    ['description', 'starts_with', 'netflix', true],
+    ['description', 'ends_with', 'monthly', true],
+    ['description', 'ends_with', 'netflix', false],
+    ['description', 'matches', 'net\\w+\\.com', true],
+    ['description', 'matches', '/^Netflix/', true],
+    ['description', 'matches', '/^netflix/', false],
+    ['amount', 'equals', 15.99, true],
+    ['amount', 'gt', 15.99, false],
+    ['amount', 'gte', '15.99', true],
+    ['amount', 'lt', 20, true],
+    ['amount', 'lte', 10, false],
+    ['type', 'equals', 'expense', true],
+    ['type', 'equals', 'income', false]
+  ])('checks %s %s %s (matches: %s)', (field, operator, value, expected) => {
+    const rules = [rule('r', [{ field, operator, value }])];
+    const matched = CategoryRuleService.matchRules(rules, { description: 'Netflix.com monthly', amount: 15.99 });
+    expect(matched !== null).toBe(expected);
+  });
+
+  it('requires every condition of a rule to match', () => {
+    const rules = [rule('both', [
+      { field: 'description', operator: 'contains', value: 'uber' },
+      { field: 'amount', operator: 'gt', value: 30 }
+    ])];
+
+    expect(CategoryRuleService.matchRules(rules, { description: 'Uber trip', amount: 45 })?.id).toBe('both');
+    expect(CategoryRuleService.matchRules(rules, { description: 'Uber trip', amount: 12 })).toBeNull();
+  });
+
+  it('returns the first matching rule in order', () => {
+    const rules = [
+      rule('eats', [{ field: 'description', operator: 'contains', value: 'uber eats' }], 1),
+      rule('uber', [{ field: 'description', operator: 'contains', value: 'uber' }], 2)
+    ];
+
+    expect(CategoryRuleService.matchRules(rules, { description: 'UBER EATS 123', amount: 20 })?.id).toBe('eats');
+    expect(CategoryRuleService.matchRules(rules, { description: 'UBER TRIP', amount: 20 })?.id).toBe('uber');
+  });
+
+  it('never matches a pattern that is not safe to run', () => {
+    const rules = [rule('unsafe', [{ field: 'description', operator: 'matches', value: '(a+)+$' }])];
+    expect(CategoryRuleService.matchRules(rules, { description: 'aaaa', amount: 1 })).toBeNull();
+  });
+});
+
+describe('CategoryRuleService.applyRules', () => {
+  const transaction = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    user_id: USER_ID,
+    household_id: null,
+    deleted_at: null,
+    splits: null,
+    type: 'expense',
+    month: '2024-02',
+    date: '2024-02-10',
+    description: 'Netflix',
+    amount: 15.99,
+    category_id: 'cat-misc',
+    category_name: 'Miscellaneous',
+    category_rule_id: null,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    seed({
+      category_rules: [
+        rule('streaming', [{ field: 'description', operator: 'contains', value: 'netflix' }]),
+        { ...rule('disabled', [{ field: 'description', operator: 'contains', value: 'netflix' }]), is_active: false }
+      ],
+      transactions: [
+        transaction('uncategorized'),
+        transaction('by-rule', { category_id: 'cat-old', category_name: 'Old', category_rule_id: 'old-rule' }),
+        transaction('hand-picked', { category_id: 'cat-fun', category_name: 'Fun' }),
+        transaction('closed-month', { month: '2024-01', date: '2024-01-10' }),
+        transaction('not-previewed')
+      ],
+      monthly_history: [{ id: 'h1', user_id: USER_ID, household_id: null, month: '2024-01', reopened_at: null }]
+    });
+  });
+
+  it('applies only the listed changes to transactions that rules may still recategorize', async () => {
+    const result = await CategoryRuleService.applyRules(USER_ID, {
+      changes: [
+        { transaction_id: 'uncategorized', rule_id: 'streaming' },
+        { transaction_id: 'by-rule', rule_id: 'streaming' },
+        { transaction_id: 'hand-picked', rule_id: 'streaming' },
+        { transaction_id: 'closed-month', rule_id: 'streaming' }
+      ]
+    });
+
+    expect(result).toEqual({ updated: 2, skipped: 2 });
+    const categoryOf = (id: string) => rowsOf('transactions').find((row) => row.id === id)?.category_id;
+    expect(categoryOf('uncategorized')).toBe('cat-streaming');
+    expect(categoryOf('by-rule')).toBe('cat-streaming');
+    expect(categoryOf('hand-picked')).toBe('cat-fun');
+    expect(categoryOf('closed-month')).toBe('cat-misc');
+    expect(categoryOf('not-previewed')).toBe('cat-misc');
+  });
+
+  it('skips changes whose rule has been deactivated', async () => {
+    const result = await CategoryRuleService.applyRules(USER_ID, {
+      changes: [{ transaction_id: 'uncategorized', rule_id: 'disabled' }]
+    });
+
+    expect(result).toEqual({ updated: 0, skipped: 1 });
+  });
+});
@@ -0,0 +1,443 @@
+import { supabaseAdmin } from '../config/database';
+import {
+  ApplyCategoryRuleChangesRequest,
+  ApplyCategoryRulesRequest,
+  CategoryRule,
+  CategoryRuleChange,
+  CategoryRuleCondition,
+  CreateCategoryRuleRequest,
+  Transaction
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+import { isSafePattern } from '../utils/regex';
+import { BudgetService } from './budgetService';
+
+type RuleInput = Pick<Transaction, 'description' | 'amount'> & { type?: Transaction['type'] };
+
+export class CategoryRuleService {
+  private static readonly PAGE_SIZE = 1000;
+
+  /**
+   * Whether rules may recategorize a transaction: one left uncategorized or categorized by a rule.
+   * A category the user picked is never overridden.
+   */
+  private static isRuleManaged(trans: Pick<Transaction, 'category_name' | 'category_rule_id' | 'type'>): boolean {
+    return !!trans.category_rule_id || trans.category_name === BudgetService.fallbackCategoryName(trans.type);
+  }
+
+  /**
+   * Build a regex from "/pattern/flags" or a bare pattern (matched case-insensitively).
+   * Returns null for a pattern that is not safe to run.
+   */
+  private static toRegExp(value: string): RegExp | null {
+    const literal = value.match(/^\/(.*)\/([a-z]*)$/);
+    const [source, flags] = literal ? [literal[1], literal[2]] : [value, 'i'];
+    return isSafePattern(source) ? new RegExp(source, flags) : null;
+  }
+
+  private static conditionMatches(condition: CategoryRuleCondition, trans: RuleInput): boolean {
+    if (condition.field === 'amount') {
+      const amount = Number(trans.amount);
+      const value = Number(condition.value);
+      switch (condition.operator) {
+        case 'equals': return amount === value;
+        case 'gt': return amount > value;
+        case 'gte': return amount >= value;
+        case 'lt': return amount < value;
+        case 'lte': return amount <= value;
+        default: return false;
+      }
+    }
+
+    const text = (condition.field === 'type' ? trans.type || 'expense' : trans.description || '').toLowerCase();
+    const value = String(condition.value).toLowerCase();
+    switch (condition.operator) {
+      case 'contains': return text.includes(value);
+      case 'equals': return text === value;
+      case 'starts_with': return text.startsWith(value);
+      case 'ends_with': return text.endsWith(value);
+      case 'matches': return this.toRegExp(String(condition.value))?.test(condition.field === 'type' ? text : trans.description) ?? false;
+      default: return false;
+    }
+  }
+
+  /**
+   * First rule (by priority) whose conditions all match the transaction
+   */
+  static matchRules(rules: CategoryRule[], trans: RuleInput): CategoryRule | null {
+    return rules.find((rule) => rule.conditions.every((condition) => this.conditionMatches(condition, trans))) || null;
+  }
+
+  /**
+   * User's active rules in the order they are evaluated
+   */
+  static async getActiveRules(userId: string): Promise<CategoryRule[]> {
+    const { data: rules, error } = await supabaseAdmin
+      .from('category_rules')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw createError('Failed to fetch categorization rules', 500);
+    }
+
+    return (rules || []) as CategoryRule[];
+  }
+
+  /**
+   * Rule that categorizes a transaction, or null when none applies
+   */
+  static async findMatchingRule(userId: string, trans: RuleInput): Promise<CategoryRule | null> {
+    return this.matchRules(await this.getActiveRules(userId), trans);
+  }
+
+  private static validateConditions(conditions: CategoryRuleCondition[]): void {
+    for (const condition of conditions) {
+      if (condition.operator !== 'matches') continue;
+      let pattern: RegExp | null;
+      try {
+        pattern = this.toRegExp(String(condition.value));
+      } catch {
+        throw createError(`Invalid pattern: ${condition.value}`, 400);
+      }
+
+      if (!pattern) {
+        throw createError(`Pattern is too long or too complex (repeated wildcards, nested repetition or backreferences): ${condition.value}`, 400);
+      }
+    }
+  }
+
+  /**
+   * Look up the rule's target category among the user's and the default categories (never creates one)
+   */
+  private static async resolveCategory(userId: string, categoryId?: string, categoryName?: string): Promise<{ id: string; name: string }> {
+    let request = supabaseAdmin
+      .from('categories')
+      .select('id,name')
+      .or(`and(user_id.eq.${userId},household_id.is.null),is_default.eq.true`);
+
+    request = categoryId ? request.eq('id', categoryId) : request.eq('name', categoryName || '');
+
+    const { data, error } = await request.limit(1).maybeSingle();
+
+    if (error || !data) {
+      throw createError('Unknown category. Provide a valid category_id or category_name.', 400);
+    }
+
+    return { id: data.id, name: data.name };
+  }
+
+  private static async getOwnedRule(userId: string, ruleId: string): Promise<CategoryRule> {
+    const { data: rule, error } = await supabaseAdmin
+      .from('category_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to fetch categorization rule', 500);
+    }
+
+    if (!rule) {
+      throw createError('Categorization rule not found', 404);
+    }
+
+    return rule as CategoryRule;
+  }
+
+  /**
+   * Get user's categorization rules in priority order
+   */
+  static async getRules(userId: string): Promise<CategoryRule[]> {
+    try {
+      const { data: rules, error } = await supabaseAdmin
+        .from('category_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .order('priority', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw createError('Failed to fetch categorization rules', 500);
+      }
+
+      return (rules || []) as CategoryRule[];
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get categorization rules error:', error);
+      throw createError('Failed to fetch categorization rules', 500);
+    }
+  }
+
+  /**
+   * Get a single categorization rule
+   */
+  static async getRule(userId: string, ruleId: string): Promise<CategoryRule> {
+    try {
+      return await this.getOwnedRule(userId, ruleId);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get categorization rule error:', error);
+      throw createError('Failed to fetch categorization rule', 500);
+    }
+  }
+
+  /**
+   * Create a categorization rule
+   */
+  static async createRule(userId: string, ruleData: CreateCategoryRuleRequest): Promise<CategoryRule> {
+    try {
+      this.validateConditions(ruleData.conditions);
+      const category = await this.resolveCategory(userId, ruleData.category_id, ruleData.category_name);
+
+      const { data: rule, error } = await supabaseAdmin
+        .from('category_rules')
+        .insert({
+          user_id: userId,
+          name: ruleData.name,
+          priority: ruleData.priority ?? 100,
+          conditions: ruleData.conditions,
+          category_id: category.id,
+          category_name: category.name,
+          is_active: ruleData.is_active ?? true
+        })
+        .select()
+        .single();
+
+      if (error || !rule) {
+        throw createError('Failed to create categorization rule', 500);
+      }
+
+      return rule as CategoryRule;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Create categorization rule error:', error);
+      throw createError('Failed to create categorization rule', 500);
+    }
+  }
+
+  /**
+   * Update a categorization rule
+   */
+  static async updateRule(userId: string, ruleId: string, updates: Partial<CreateCategoryRuleRequest>): Promise<CategoryRule> {
+    try {
+      const existing = await this.getOwnedRule(userId, ruleId);
+
+      if (updates.conditions) {
+        this.validateConditions(updates.conditions);
+      }
+
+      const category = updates.category_id || updates.category_name
+        ? await this.resolveCategory(userId, updates.category_id, updates.category_name)
+        : { id: existing.category_id, name: existing.category_name };
+
+      const { data: rule, error } = await supabaseAdmin
+        .from('category_rules')
+        .update({
+          name: updates.name ?? existing.name,
+          priority: updates.priority ?? existing.priority,
+          conditions: updates.conditions ?? existing.conditions,
+          category_id: category.id,
+          category_name: category.name,
+          is_active: updates.is_active ?? existing.is_active,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', ruleId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error || !rule) {
+        throw createError('Failed to update categorization rule', 500);
+      }
+
+      return rule as CategoryRule;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Update categorization rule error:', error);
+      throw createError('Failed to update categorization rule', 500);
+    }
+  }
+
+  /**
+   * Delete a categorization rule. Transactions it categorized keep their category.
+   */
+  static async deleteRule(userId: string, ruleId: string): Promise<void> {
+    try {
+      await this.getOwnedRule(userId, ruleId);
+
+      const { error } = await supabaseAdmin
+        .from('category_rules')
+        .delete()
+        .eq('id', ruleId)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw createError('Failed to delete categorization rule', 500);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Delete categorization rule error:', error);
+      throw createError('Failed to delete categorization rule', 500);
+    }
+  }
+
+  /**
+   * Transactions in the range whose category would change if the current rules were applied
+   */
+  static async previewApply(userId: string, request: ApplyCategoryRulesRequest): Promise<CategoryRuleChange[]> {
+    try {
+      const rules = await this.getActiveRules(userId);
+      const changes: CategoryRuleChange[] = [];
+
+      if (rules.length === 0) {
+        return changes;
+      }
+
+      for (let offset = 0; ; offset += this.PAGE_SIZE) {
+        let query = supabaseAdmin
+          .from('transactions')
+          .select('id,date,description,amount,type,category_id,category_name,category_rule_id')
+          .eq('user_id', userId)
+          .is('household_id', null)
+          .is('deleted_at', null)
+          .is('splits', null); // split transactions were categorized line by line
+
+        if (request.from) query = query.gte('date', request.from);
+        if (request.to) query = query.lte('date', request.to);
+        if (request.transaction_ids) query = query.in('id', request.transaction_ids);
+
+        const { data: transactions, error } = await query
+          .order('date', { ascending: false })
+          .order('id', { ascending: true })
+          .range(offset, offset + this.PAGE_SIZE - 1);
+
+        if (error) {
+          throw createError('Failed to preview categorization rules', 500);
+        }
+
+        for (const trans of (transactions || []).filter((row) => this.isRuleManaged(row))) {
+          const rule = this.matchRules(rules, trans);
+          if (rule && rule.category_id !== trans.category_id) {
+            changes.push({
+              transaction_id: trans.id,
+              date: trans.date,
+              description: trans.description,
+              amount: Number(trans.amount),
+              current_category_id: trans.category_id,
+              current_category_name: trans.category_name,
+              new_category_id: rule.category_id,
+              new_category_name: rule.category_name,
+              rule_id: rule.id
+            });
+          }
+        }
+
+        if (!transactions || transactions.length < this.PAGE_SIZE) {
+          return changes;
+        }
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Preview categorization rules error:', error);
+      throw createError('Failed to preview categorization rules', 500);
+    }
+  }
+
+  /**
+   * Apply previewed changes. A change is skipped when its transaction is in a closed month, has since been
+   * categorized by hand or deleted, or its rule is no longer active.
+   */
+  static async applyRules(userId: string, request: ApplyCategoryRuleChangesRequest): Promise<{ updated: number; skipped: number }> {
+    try {
+      const transactionIds = [...new Set(request.changes.map((change) => change.transaction_id))];
+      const ruleIds = [...new Set(request.changes.map((change) => change.rule_id))];
+
+      const [{ data: rules, error: rulesError }, { data: transactions, error: transactionsError }, { data: closed, error: closedError }] = await Promise.all([
+        supabaseAdmin
+          .from('category_rules')
+          .select('id,category_id,category_name')
+          .eq('user_id', userId)
+          .eq('is_active', true)
+          .in('id', ruleIds),
+        supabaseAdmin
+          .from('transactions')
+          .select('id,month,type,category_name,category_rule_id')
+          .eq('user_id', userId)
+          .is('household_id', null)
+          .is('deleted_at', null)
+          .is('splits', null)
+          .in('id', transactionIds),
+        supabaseAdmin
+          .from('monthly_history')
+          .select('month')
+          .eq('user_id', userId)
+          .is('household_id', null)
+          .is('reopened_at', null)
+      ]);
+
+      if (rulesError || transactionsError || closedError) {
+        throw createError('Failed to apply categorization rules', 500);
+      }
+
+      const ruleById = new Map((rules || []).map((rule) => [rule.id, rule]));
+      const transactionById = new Map((transactions || []).map((trans) => [trans.id, trans]));
+      const closedMonths = new Set((closed || []).map((row) => row.month));
+
+      // Last change per transaction wins; one update per rule
+      const byRule = new Map<string, string[]>();
+      new Map(request.changes.map((change) => [change.transaction_id, change.rule_id])).forEach((ruleId, transactionId) => {
+        const trans = transactionById.get(transactionId);
+        if (!ruleById.has(ruleId) || !trans || closedMonths.has(trans.month) || !this.isRuleManaged(trans)) return;
+        byRule.set(ruleId, [...(byRule.get(ruleId) || []), transactionId]);
+      });
+
+      let updated = 0;
+      for (const rule of rules || []) {
+        const ids = byRule.get(rule.id);
+        if (!ids) continue;
+
+        const { error } = await supabaseAdmin
+          .from('transactions')
+          .update({
+            category_id: rule.category_id,
+            category_name: rule.category_name,
+            category_rule_id: rule.id,
+            updated_at: new Date().toISOString()
+          })
+          .eq('user_id', userId)
+          .in('id', ids);
+
+        if (error) {
+          throw createError('Failed to apply categorization rules', 500);
+        }
+
+        updated += ids.length;
+      }
+
+      return { updated, skipped: transactionIds.length - updated };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Apply categorization rules error:', error);
+      throw createError('Failed to apply categorization rules', 500);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { ExchangeRateService } from './exchangeRateService';
+import { seed } from '../test/fakeSupabase';
+import { Transaction } from '../types';
+
+jest.mock('../config/database', () => require('../test/fakeSupabase').fakeDatabase);
+
+const USER_ID = 'user-1';
+
+const transaction = (id: string, currency: string | undefined, date: string, amount: number): Transaction => ({
+  id,
+  user_id: USER_ID,
+  category_id: 'cat-1',
+  category_name: 'Groceries',
+  type: 'expense',
+  amount,
+  currency,
+  description: id,
+  date,
+  month: date.slice(0, 7),
+  created_at: `${date}T00:00:00Z`,
+  updated_at: `${date}T00:00:00Z`
+} as Transaction);
+
+const rate = (currency: string, base: string, value: number, date: string) => ({
+  user_id: USER_ID,
+  currency,
+  base_currency: base,
+  rate: value,
+  date
+});
+
+describe('ExchangeRateService.convertToBase', () => {
+  beforeEach(() => {
+    seed({
+      users: [{ id: USER_ID, base_currency: 'USD' }],
+      exchange_rates: [
+        rate('EUR', 'USD', 1.1, '2024-01-01'),
+        rate('EUR', 'USD', 1.2, '2024-02-01'),
+        // Stored the other way round: 1 USD = 150 JPY
+        rate('USD', 'JPY', 150, '2024-01-01'),
+        rate('GBP', 'USD', 1.25, '2024-03-01'),
+        rate('EUR', 'GBP', 0.85, '2024-01-01'),
+        { ...rate('EUR', 'USD', 9, '2024-01-01'), user_id: 'someone-else' }
+      ]
+    });
+  });
+
+  it('uses the latest rate on or before each transaction date', async () => {
+    const { transactions, unconverted } = await ExchangeRateService.convertToBase(USER_ID, [
+      transaction('jan', 'EUR', '2024-01-15', 10),
+      transaction('feb-1st', 'EUR', '2024-02-01', 10),
+      transaction('mar', 'EUR', '2024-03-10', 10)
+    ]);
+
+    expect(unconverted).toEqual([]);
+    expect(transactions.map((trans) => [trans.id, trans.exchange_rate, trans.base_amount])).toEqual([
+      ['jan', 1.1, 11],
+      ['feb-1st', 1.2, 12],
+      ['mar', 1.2, 12]
+    ]);
+  });
+
+  it('uses the reciprocal of a rate stored for the opposite pair', async () => {
+    const { transactions } = await ExchangeRateService.convertToBase(USER_ID, [transaction('ramen', 'JPY', '2024-01-20', 1500)]);
+
+    expect(transactions[0].exchange_rate).toBeCloseTo(1 / 150);
+    expect(transactions[0].base_amount).toBe(10);
+  });
+
+  it('prefers the direct rate over a reciprocal one on the same date', async () => {
+    seed({
+      exchange_rates: [rate('EUR', 'USD', 1.1, '2024-01-01'), rate('USD', 'EUR', 0.5, '2024-01-01')]
+    });
+
+    const { transactions } = await ExchangeRateService.convertToBase(USER_ID, [transaction('t', 'EUR', '2024-01-02', 100)], 'USD');
+
+    expect(transactions[0].exchange_rate).toBe(1.1);
+  });
+
+  it('leaves base currency transactions and older ones without a currency at their own amount', async () => {
+    const { transactions } = await ExchangeRateService.convertToBase(USER_ID, [
+      transaction('usd', 'USD', '2024-01-02', 7.5),
+      transaction('legacy', undefined, '2024-01-02', 3)
+    ]);
+
+    expect(transactions.map((trans) => [trans.exchange_rate, trans.base_amount])).toEqual([[1, 7.5], [1, 3]]);
+  });
+
+  it('returns transactions without a rate as unconverted', async () => {
+    const { transactions, unconverted } = await ExchangeRateService.convertToBase(USER_ID, [
+      transaction('before-first-rate', 'GBP', '2024-02-15', 10),
+      transaction('no-rates', 'CHF', '2024-02-15', 10),
+      transaction('ok', 'GBP', '2024-03-02', 10)
+    ]);
+
+    expect(unconverted.map((trans) => trans.id)).toEqual(['before-first-rate', 'no-rates']);
+    expect(transactions.map((trans) => [trans.id, trans.base_amount])).toEqual([['ok', 12.5]]);
+  });
+
+  it('converts into another base currency when asked', async () => {
+    const { transactions } = await ExchangeRateService.convertToBase(USER_ID, [transaction('t', 'EUR', '2024-01-05', 100)], 'GBP');
+
+    expect(transactions[0].base_amount).toBe(85);
+  });
+});
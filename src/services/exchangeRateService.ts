@@ -0,0 +1,324 @@
+import { supabaseAdmin } from '../config/database';
+import {
+  CurrencyConversion,
+  ExchangeRate,
+  ExchangeRateQuery,
+  ImportExchangeRatesRequest,
+  ImportExchangeRatesResult,
+  SetExchangeRateRequest,
+  Transaction
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+import { parseCsv } from '../utils/csv';
+import { CURRENCY_PATTERN, DEFAULT_CURRENCY, roundMoney } from '../utils/currency';
+
+type RatePoint = { date: string; rate: number; direct: boolean };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class ExchangeRateService {
+  private static readonly PAGE_SIZE = 1000;
+  private static readonly MAX_IMPORT_ROWS = 10000;
+  private static readonly UPSERT_CHUNK = 500;
+
+  private static isValidDate(value: string): boolean {
+    return DATE_PATTERN.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+  }
+
+  /**
+   * User's base currency, which dashboards and history are reported in
+   */
+  static async getBaseCurrency(userId: string): Promise<string> {
+    const { data, error } = await supabaseAdmin
+      .from('users')
+      .select('base_currency')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to fetch user base currency', 500);
+    }
+
+    return data?.base_currency || DEFAULT_CURRENCY;
+  }
+
+  /**
+   * Rates from each currency into `base` up to a date, oldest first. A stored rate for the opposite
+   * pair is used through its reciprocal; on the same date the direct rate wins.
+   */
+  private static async loadRates(userId: string, currencies: string[], base: string, until: string): Promise<Map<string, RatePoint[]>> {
+    const rates = new Map<string, RatePoint[]>(currencies.map((currency) => [currency, []]));
+    const list = currencies.join(',');
+
+    for (let offset = 0; ; offset += this.PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('exchange_rates')
+        .select('currency,base_currency,rate,date')
+        .eq('user_id', userId)
+        .or(`and(base_currency.eq.${base},currency.in.(${list})),and(currency.eq.${base},base_currency.in.(${list}))`)
+        .lte('date', until)
+        .order('date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + this.PAGE_SIZE - 1);
+
+      if (error) {
+        throw createError('Failed to fetch exchange rates', 500);
+      }
+
+      for (const row of data || []) {
+        const direct = row.base_currency === base;
+        rates.get(direct ? row.currency : row.base_currency)?.push({
+          date: row.date,
+          rate: direct ? Number(row.rate) : 1 / Number(row.rate),
+          direct
+        });
+      }
+
+      if (!data || data.length < this.PAGE_SIZE) {
+        break;
+      }
+    }
+
+    rates.forEach((points) => points.sort((a, b) => a.date.localeCompare(b.date) || Number(a.direct) - Number(b.direct)));
+    return rates;
+  }
+
+  /**
+   * Latest rate on or before the date
+   */
+  private static findRate(points: RatePoint[], date: string): number | null {
+    let low = 0;
+    let high = points.length - 1;
+    let found: RatePoint | null = null;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (points[mid].date <= date) {
+        found = points[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return found ? found.rate : null;
+  }
+
+  /**
+   * Convert transactions into the base currency at the rate on each transaction's date.
+   * Sets exchange_rate and base_amount; transactions without a rate are returned separately as unconverted.
+   */
+  static async convertToBase(userId: string, transactions: Transaction[], baseCurrency?: string): Promise<CurrencyConversion> {
+    const base = baseCurrency || await this.getBaseCurrency(userId);
+    const foreign = transactions.filter((trans) => trans.currency && trans.currency !== base);
+
+    const rates = foreign.length > 0
+      ? await this.loadRates(
+        userId,
+        [...new Set(foreign.map((trans) => trans.currency as string))],
+        base,
+        foreign.reduce((max, trans) => (trans.date > max ? trans.date : max), foreign[0].date)
+      )
+      : new Map<string, RatePoint[]>();
+
+    const conversion: CurrencyConversion = { transactions: [], unconverted: [] };
+    for (const trans of transactions) {
+      const currency = trans.currency || base;
+      const rate = currency === base ? 1 : this.findRate(rates.get(currency) || [], trans.date);
+
+      if (rate === null) {
+        conversion.unconverted.push(trans);
+      } else {
+        conversion.transactions.push({ ...trans, exchange_rate: rate, base_amount: roundMoney(Number(trans.amount) * rate) });
+      }
+    }
+
+    return conversion;
+  }
+
+  /**
+   * Get user's exchange rates, most recent first
+   */
+  static async getRates(userId: string, query: ExchangeRateQuery): Promise<ExchangeRate[]> {
+    try {
+      const rates: ExchangeRate[] = [];
+
+      for (let offset = 0; ; offset += this.PAGE_SIZE) {
+        let request = supabaseAdmin
+          .from('exchange_rates')
+          .select('*')
+          .eq('user_id', userId);
+
+        if (query.currency) request = request.or(`currency.eq.${query.currency},base_currency.eq.${query.currency}`);
+        if (query.from) request = request.gte('date', query.from);
+        if (query.to) request = request.lte('date', query.to);
+
+        const { data, error } = await request
+          .order('date', { ascending: false })
+          .order('id', { ascending: true })
+          .range(offset, offset + this.PAGE_SIZE - 1);
+
+        if (error) {
+          throw createError('Failed to fetch exchange rates', 500);
+        }
+
+        rates.push(...((data || []) as ExchangeRate[]));
+
+        if (!data || data.length < this.PAGE_SIZE) {
+          break;
+        }
+      }
+
+      return rates;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get exchange rates error:', error);
+      throw createError('Failed to fetch exchange rates', 500);
+    }
+  }
+
+  /**
+   * Set the rate for a currency pair on a date, replacing any rate already stored for that day
+   */
+  static async setRate(userId: string, request: SetExchangeRateRequest): Promise<ExchangeRate> {
+    try {
+      const base = request.base_currency || await this.getBaseCurrency(userId);
+
+      if (request.currency === base) {
+        throw createError('Currency and base currency must differ', 400);
+      }
+
+      const { data: rate, error } = await supabaseAdmin
+        .from('exchange_rates')
+        .upsert({
+          user_id: userId,
+          currency: request.currency,
+          base_currency: base,
+          rate: request.rate,
+          date: request.date,
+          source: 'manual',
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'user_id,currency,base_currency,date'
+        })
+        .select()
+        .single();
+
+      if (error || !rate) {
+        throw createError('Failed to save exchange rate', 500);
+      }
+
+      return rate as ExchangeRate;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Set exchange rate error:', error);
+      throw createError('Failed to save exchange rate', 500);
+    }
+  }
+
+  /**
+   * Load rates from a CSV file (date, currency, rate and optional base_currency columns).
+   * Valid rows are saved, replacing rates for the same pair and day; invalid rows are reported.
+   */
+  static async importRates(userId: string, request: ImportExchangeRatesRequest): Promise<ImportExchangeRatesResult> {
+    try {
+      const records = parseCsv(request.content, request.delimiter || ',')
+        .filter((record) => record.some((field) => field.trim() !== ''));
+      const header = (records.shift() || []).map((name) => name.trim().toLowerCase());
+      const column = (name: string) => header.indexOf(name);
+
+      if (column('date') < 0 || column('currency') < 0 || column('rate') < 0) {
+        throw createError('Rate file must have a header row with date, currency and rate columns', 400);
+      }
+
+      if (records.length > this.MAX_IMPORT_ROWS) {
+        throw createError(`Rate file has more than ${this.MAX_IMPORT_ROWS} rows`, 400);
+      }
+
+      const defaultBase = await this.getBaseCurrency(userId);
+      const errors: ImportExchangeRatesResult['errors'] = [];
+      // Keyed by pair and day so a repeated row replaces the earlier one
+      const rows = new Map<string, { currency: string; base_currency: string; rate: number; date: string }>();
+
+      records.forEach((record, index) => {
+        const row = index + 2; // line number in the file, after the header
+        const field = (name: string) => (column(name) >= 0 ? (record[column(name)] || '').trim() : '');
+        const date = field('date');
+        const currency = field('currency').toUpperCase();
+        const base = field('base_currency').toUpperCase() || defaultBase;
+        const rate = Number(field('rate'));
+
+        if (!this.isValidDate(date)) {
+          errors.push({ row, message: 'Date must be in YYYY-MM-DD format' });
+        } else if (!CURRENCY_PATTERN.test(currency) || !CURRENCY_PATTERN.test(base)) {
+          errors.push({ row, message: 'Currencies must be 3-letter ISO codes' });
+        } else if (currency === base) {
+          errors.push({ row, message: 'Currency and base currency must differ' });
+        } else if (!field('rate') || !Number.isFinite(rate) || rate <= 0) {
+          errors.push({ row, message: 'Rate must be a positive number' });
+        } else {
+          rows.set(`${currency}:${base}:${date}`, { currency, base_currency: base, rate, date });
+        }
+      });
+
+      const values = [...rows.values()];
+      const updatedAt = new Date().toISOString();
+      for (let start = 0; start < values.length; start += this.UPSERT_CHUNK) {
+        const { error } = await supabaseAdmin
+          .from('exchange_rates')
+          .upsert(values.slice(start, start + this.UPSERT_CHUNK).map((value) => ({
+            ...value,
+            user_id: userId,
+            source: 'file',
+            updated_at: updatedAt
+          })), {
+            onConflict: 'user_id,currency,base_currency,date'
+          });
+
+        if (error) {
+          throw createError('Failed to import exchange rates', 500);
+        }
+      }
+
+      return { imported: values.length, errors };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Import exchange rates error:', error);
+      throw createError('Failed to import exchange rates', 500);
+    }
+  }
+
+  /**
+   * Delete an exchange rate
+   */
+  static async deleteRate(userId: string, rateId: string): Promise<void> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('exchange_rates')
+        .delete()
+        .eq('id', rateId)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) {
+        throw createError('Failed to delete exchange rate', 500);
+      }
+
+      if (!data || data.length === 0) {
+        throw createError('Exchange rate not found', 404);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Delete exchange rate error:', error);
+      throw createError('Failed to delete exchange rate', 500);
+    }
+  }
+}
@@ -0,0 +1,291 @@
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { supabaseAdmin } from '../config/database';
+import { ExportOptions, MonthlyGoal, MonthlyHistory, Transaction } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { UserService } from './userService';
+import { toCsvRow } from '../utils/csv';
+
+const TRANSACTION_COLUMNS: Array<keyof Transaction> = [
+  'id',
+  'date',
+  'month',
+  'type',
+  'category_id',
+  'category_name',
+  'amount',
+  'currency',
+  'description',
+  'created_at'
+];
+
+// Everything tied to a user, as archive key, table and the column that links a row to the user
+const ARCHIVE_TABLES: Array<{ key: string; table: string; column: string }> = [
+  { key: 'households', table: 'households', column: 'owner_id' },
+  { key: 'household_memberships', table: 'household_members', column: 'user_id' },
+  { key: 'household_invitations_sent', table: 'household_invitations', column: 'invited_by' },
+  { key: 'household_invitations_received', table: 'household_invitations', column: 'email' },
+  { key: 'categories', table: 'categories', column: 'user_id' },
+  { key: 'monthly_goals', table: 'monthly_goals', column: 'user_id' },
+  { key: 'goal_templates', table: 'goal_templates', column: 'user_id' },
+  { key: 'accounts', table: 'accounts', column: 'user_id' },
+  { key: 'account_reconciliations', table: 'account_reconciliations', column: 'user_id' },
+  { key: 'transactions', table: 'transactions', column: 'user_id' },
+  { key: 'recurring_rules', table: 'recurring_rules', column: 'user_id' },
+  { key: 'category_rules', table: 'category_rules', column: 'user_id' },
+  { key: 'import_batches', table: 'import_batches', column: 'user_id' },
+  { key: 'savings_goals', table: 'savings_goals', column: 'user_id' },
+  { key: 'savings_contributions', table: 'savings_contributions', column: 'user_id' },
+  { key: 'exchange_rates', table: 'exchange_rates', column: 'user_id' },
+  { key: 'monthly_history', table: 'monthly_history', column: 'user_id' },
+  { key: 'alert_rules', table: 'alert_rules', column: 'user_id' },
+  { key: 'notifications', table: 'notifications', column: 'user_id' },
+  { key: 'sessions', table: 'user_sessions', column: 'user_id' }
+];
+
+export class ExportService {
+  private static readonly PAGE_SIZE = 1000;
+
+  /**
+   * Stop exporting once the client has gone away
+   */
+  private static assertOpen(stream: Writable): void {
+    if (stream.destroyed) {
+      throw createError('Export stream was closed', 500);
+    }
+  }
+
+  /**
+   * Write to the stream, waiting for it to drain when its buffer is full. Fails if the stream closes or errors
+   * first, rather than waiting for a drain that never comes.
+   */
+  private static async write(stream: Writable, chunk: string): Promise<void> {
+    this.assertOpen(stream);
+    if (stream.write(chunk)) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const settle = (error?: Error) => {
+        stream.off('drain', onDrain);
+        stream.off('close', onClose);
+        stream.off('error', onError);
+        if (error) reject(error);
+        else resolve();
+      };
+      const onDrain = () => settle();
+      const onClose = () => settle(createError('Export stream was closed', 500));
+      const onError = (error: Error) => settle(error);
+
+      stream.on('drain', onDrain);
+      stream.on('close', onClose);
+      stream.on('error', onError);
+    });
+  }
+
+  /**
+   * Page through the user's transactions in date order without loading them all at once
+   */
+  private static async *transactionPages(userId: string, options: ExportOptions): AsyncGenerator<Transaction[]> {
+    for (let offset = 0; ; offset += this.PAGE_SIZE) {
+      let request = supabaseAdmin
+        .from('transactions')
+        .select('*')
+        .eq('user_id', userId)
+        .is('household_id', null)
+        .is('deleted_at', null);
+
+      if (options.from) request = request.gte('date', options.from);
+      if (options.to) request = request.lte('date', options.to);
+
+      const { data, error } = await request
+        .order('date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + this.PAGE_SIZE - 1);
+
+      if (error) {
+        throw createError('Failed to export transactions', 500);
+      }
+
+      if (data && data.length > 0) {
+        yield data as Transaction[];
+      }
+
+      if (!data || data.length < this.PAGE_SIZE) {
+        return;
+      }
+    }
+  }
+
+  private static async getGoals(userId: string, options: ExportOptions): Promise<MonthlyGoal[]> {
+    let request = supabaseAdmin.from('monthly_goals').select('*').eq('user_id', userId).is('household_id', null);
+    if (options.from) request = request.gte('month', options.from.slice(0, 7));
+    if (options.to) request = request.lte('month', options.to.slice(0, 7));
+
+    const { data, error } = await request.order('month', { ascending: true });
+    if (error) {
+      throw createError('Failed to export goals', 500);
+    }
+
+    return (data || []) as MonthlyGoal[];
+  }
+
+  private static async getHistory(userId: string, options: ExportOptions): Promise<MonthlyHistory[]> {
+    let request = supabaseAdmin.from('monthly_history').select('*').eq('user_id', userId).is('household_id', null).is('reopened_at', null);
+    if (options.from) request = request.gte('month', options.from.slice(0, 7));
+    if (options.to) request = request.lte('month', options.to.slice(0, 7));
+
+    const { data, error } = await request.order('month', { ascending: true });
+    if (error) {
+      throw createError('Failed to export history', 500);
+    }
+
+    return (data || []) as MonthlyHistory[];
+  }
+
+  private static async writeCsv(userId: string, options: ExportOptions, stream: Writable): Promise<void> {
+    await this.write(stream, toCsvRow(TRANSACTION_COLUMNS));
+
+    for await (const page of this.transactionPages(userId, options)) {
+      await this.write(stream, page.map((trans) => toCsvRow(TRANSACTION_COLUMNS.map((column) => trans[column] as string))).join(''));
+    }
+  }
+
+  private static async writeJson(userId: string, options: ExportOptions, stream: Writable): Promise<void> {
+    await this.write(stream, `{"exported_at":${JSON.stringify(new Date().toISOString())},"transactions":[`);
+
+    let first = true;
+    for await (const page of this.transactionPages(userId, options)) {
+      const chunk = page.map((trans) => JSON.stringify(trans)).join(',');
+      await this.write(stream, first ? chunk : `,${chunk}`);
+      first = false;
+    }
+    await this.write(stream, ']');
+
+    if (options.include?.includes('goals')) {
+      await this.write(stream, `,"goals":${JSON.stringify(await this.getGoals(userId, options))}`);
+    }
+    if (options.include?.includes('history')) {
+      await this.write(stream, `,"history":${JSON.stringify(await this.getHistory(userId, options))}`);
+    }
+
+    await this.write(stream, '}');
+  }
+
+  private static async writeXlsx(userId: string, options: ExportOptions, stream: Writable): Promise<void> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream, useStyles: false });
+
+    const transactionSheet = workbook.addWorksheet('Transactions');
+    transactionSheet.columns = TRANSACTION_COLUMNS.map((column) => ({ header: column, key: column }));
+    for await (const page of this.transactionPages(userId, options)) {
+      this.assertOpen(stream);
+      page.forEach((trans) => transactionSheet.addRow({ ...trans, amount: Number(trans.amount) }).commit());
+    }
+    transactionSheet.commit();
+
+    if (options.include?.includes('goals')) {
+      const goalSheet = workbook.addWorksheet('Goals');
+      goalSheet.columns = ['month', 'income', 'category_id', 'category_name', 'expected_amount']
+        .map((column) => ({ header: column, key: column }));
+      for (const goal of await this.getGoals(userId, options)) {
+        (goal.expenses || []).forEach((expense) => goalSheet.addRow({
+          month: goal.month,
+          income: Number(goal.income),
+          category_id: expense.category_id,
+          category_name: expense.category_name,
+          expected_amount: Number(expense.expected_amount)
+        }).commit());
+      }
+      goalSheet.commit();
+    }
+
+    if (options.include?.includes('history')) {
+      const historySheet = workbook.addWorksheet('History');
+      historySheet.columns = ['month', 'total_income', 'total_expenses', 'actual_savings', 'finalized_at']
+        .map((column) => ({ header: column, key: column }));
+      for (const entry of await this.getHistory(userId, options)) {
+        historySheet.addRow({
+          month: entry.month,
+          total_income: Number(entry.total_income),
+          total_expenses: Number(entry.total_expenses),
+          actual_savings: Number(entry.actual_savings),
+          finalized_at: entry.finalized_at
+        }).commit();
+      }
+      historySheet.commit();
+    }
+
+    await workbook.commit();
+  }
+
+  /**
+   * Page through a table's rows linked to the user
+   */
+  private static async *rowPages(table: string, column: string, value: string): AsyncGenerator<Record<string, unknown>[]> {
+    for (let offset = 0; ; offset += this.PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from(table)
+        .select('*')
+        .eq(column, value)
+        .order('id', { ascending: true })
+        .range(offset, offset + this.PAGE_SIZE - 1);
+
+      if (error) {
+        throw createError(`Failed to export ${table}`, 500);
+      }
+
+      if (data && data.length > 0) {
+        yield data;
+      }
+
+      if (!data || data.length < this.PAGE_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Stream a JSON archive of everything tied to the user (including deleted transactions and household data
+   * they entered) to `stream`
+   */
+  static async streamDataArchive(userId: string, stream: Writable): Promise<void> {
+    const user = await UserService.getProfile(userId);
+    await this.write(stream, `{"exported_at":${JSON.stringify(new Date().toISOString())},"user":${JSON.stringify(user)}`);
+
+    for (const { key, table, column } of ARCHIVE_TABLES) {
+      await this.write(stream, `,${JSON.stringify(key)}:[`);
+
+      let first = true;
+      for await (const page of this.rowPages(table, column, column === 'email' ? user.email : userId)) {
+        const chunk = page.map((row) => JSON.stringify(row)).join(',');
+        await this.write(stream, first ? chunk : `,${chunk}`);
+        first = false;
+      }
+      await this.write(stream, ']');
+    }
+
+    await this.write(stream, '}');
+    stream.end();
+  }
+
+  /**
+   * Stream the user's transactions (and optionally goals and history) to `stream` in the requested format
+   */
+  static async streamExport(userId: string, options: ExportOptions, stream: Writable): Promise<void> {
+    switch (options.format) {
+      case 'csv':
+        await this.writeCsv(userId, options, stream);
+        break;
+      case 'json':
+        await this.writeJson(userId, options, stream);
+        break;
+      case 'xlsx':
+        await this.writeXlsx(userId, options, stream);
+        return; // the workbook writer ends the stream itself
+      default:
+        throw createError(`Unsupported export format: ${options.format}`, 400);
+    }
+
+    stream.end();
+  }
+}
@@ -0,0 +1,245 @@
+import { supabaseAdmin } from '../config/database';
+import {
+  BudgetScope,
+  CategoryForecast,
+  ForecastConfidence,
+  ForecastMethod,
+  SpendingForecast,
+  Transaction
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+import { BudgetService } from './budgetService';
+import { RecurringService } from './recurringService';
+import { roundMoney } from '../utils/currency';
+import { addDays, addMonths, daysBetween, toLocalDate } from '../utils/date';
+
+type CategoryTotals = Map<string, { category_name: string; amount: number }>;
+
+export class ForecastService {
+  private static readonly HISTORY_MONTHS = 6;
+  private static readonly MAX_MONTHS_AHEAD = 12;
+
+  private static add(totals: CategoryTotals, categoryId: string, categoryName: string, amount: number): void {
+    const entry = totals.get(categoryId) || { category_name: categoryName, amount: 0 };
+    entry.amount += amount;
+    totals.set(categoryId, entry);
+  }
+
+  /**
+   * Add a transaction's net spending per category (expenses count, refunds subtract)
+   */
+  private static addSpending(totals: CategoryTotals, trans: Transaction): void {
+    const type = trans.type || 'expense';
+    if (type !== 'expense' && type !== 'refund') return;
+
+    for (const line of BudgetService.categoryLines(trans)) {
+      this.add(totals, line.category_id, line.category_name, type === 'refund' ? -Number(line.amount) : Number(line.amount));
+    }
+  }
+
+  /**
+   * Average spending per category in recent closed months after the same share of the month had passed.
+   * Recurring transactions are left out because upcoming bills are counted separately.
+   */
+  private static async getHistoryPattern(
+    scope: BudgetScope,
+    month: string,
+    elapsedShare: number,
+    baseCurrency: string
+  ): Promise<{ months: number; remaining: CategoryTotals }> {
+    const { data, error } = await BudgetService.scoped(supabaseAdmin
+      .from('monthly_history')
+      .select('month,currency,transactions'), scope)
+      .lt('month', month)
+      .is('reopened_at', null)
+      .order('month', { ascending: false })
+      .limit(this.HISTORY_MONTHS);
+
+    if (error) {
+      throw createError('Failed to fetch monthly history', 500);
+    }
+
+    // Snapshots taken in another base currency are not comparable
+    const snapshots = (data || []).filter((row) => !row.currency || row.currency === baseCurrency);
+    const remaining: CategoryTotals = new Map();
+
+    for (const snapshot of snapshots) {
+      const monthStart = `${snapshot.month}-01`;
+      const cutoff = addDays(monthStart, Math.round(elapsedShare * daysBetween(monthStart, addDays(addMonths(monthStart, 1), -1))) - 1);
+      const after: CategoryTotals = new Map();
+
+      for (const trans of (snapshot.transactions || []) as Transaction[]) {
+        if (!trans.recurring_rule_id && trans.date > cutoff) {
+          this.addSpending(after, trans);
+        }
+      }
+
+      after.forEach((entry, categoryId) => this.add(remaining, categoryId, entry.category_name, entry.amount / snapshots.length));
+    }
+
+    return { months: snapshots.length, remaining };
+  }
+
+  /**
+   * Project month-end spending per category and overall from this month's pace, upcoming recurring bills
+   * and the spending pattern of recent closed months
+   */
+  static async getForecast(userId: string, month?: string, householdId?: string | null): Promise<SpendingForecast> {
+    try {
+      const scope = await BudgetService.getScope(userId, householdId, 'viewer');
+      const today = toLocalDate(new Date(), await BudgetService.getUserTimeZone(scope.settingsUserId));
+      const currentMonth = today.slice(0, 7);
+      month = month || currentMonth;
+
+      if (month > addMonths(`${currentMonth}-01`, this.MAX_MONTHS_AHEAD).slice(0, 7)) {
+        throw createError(`Forecasts are limited to ${this.MAX_MONTHS_AHEAD} months ahead`, 400);
+      }
+
+      const summary = await BudgetService.getDashboardSummary(userId, month, scope.householdId);
+
+      const monthStart = `${month}-01`;
+      const monthEnd = addDays(addMonths(monthStart, 1), -1);
+      const daysInMonth = daysBetween(monthStart, monthEnd);
+      const daysElapsed = month < currentMonth ? daysInMonth : month === currentMonth ? daysBetween(monthStart, today) : 0;
+      const complete = summary.isClosed || daysElapsed === daysInMonth;
+
+      // Recurring transactions follow their schedule rather than the month's pace
+      const discretionary: CategoryTotals = new Map();
+      const recurringSpent: CategoryTotals = new Map();
+      for (const trans of summary.transactions) {
+        this.addSpending(trans.recurring_rule_id ? recurringSpent : discretionary, trans);
+      }
+
+      // Recurring rules are personal, so household budgets have no upcoming bills
+      const upcoming = complete || scope.householdId
+        ? []
+        : (await RecurringService.getUpcoming(scope.userId, Math.max(daysBetween(today, monthEnd) - 1, 0)))
+          .filter((occurrence) => occurrence.date >= monthStart && occurrence.date <= monthEnd);
+
+      const upcomingSpending: CategoryTotals = new Map();
+      let upcomingIncome = 0;
+      for (const occurrence of upcoming) {
+        if (occurrence.type === 'income') {
+          upcomingIncome += occurrence.amount;
+        } else if (occurrence.type === 'expense' || occurrence.type === 'refund') {
+          this.add(upcomingSpending, occurrence.category_id, occurrence.category_name,
+            occurrence.type === 'refund' ? -occurrence.amount : occurrence.amount);
+        }
+      }
+
+      const history = complete
+        ? { months: 0, remaining: new Map() as CategoryTotals }
+        : await this.getHistoryPattern(scope, month, daysElapsed / daysInMonth, summary.baseCurrency);
+
+      const names = new Map<string, string>();
+      for (const totals of [discretionary, recurringSpent, upcomingSpending, history.remaining]) {
+        totals.forEach((entry, categoryId) => names.set(categoryId, names.get(categoryId) || entry.category_name));
+      }
+
+      // Goal categories may be stored by slug rather than id, so fall back to matching by name
+      const expected = new Map<string, number>();
+      for (const expense of summary.monthlyGoal?.expenses || []) {
+        const key = names.has(expense.category_id)
+          ? expense.category_id
+          : [...names.entries()].find(([, name]) => name.toLowerCase() === expense.category_name.toLowerCase())?.[0]
+            || expense.category_id;
+        names.set(key, names.get(key) || expense.category_name);
+        expected.set(key, (expected.get(key) || 0) + Number(expense.expected_amount) + (Number(expense.rollover_amount) || 0));
+      }
+
+      const paceShare = daysElapsed / daysInMonth;
+      const categories: CategoryForecast[] = [...names.entries()].map(([categoryId, categoryName]) => {
+        const spent = discretionary.get(categoryId)?.amount || 0;
+        const recurring = recurringSpent.get(categoryId)?.amount || 0;
+        const due = upcomingSpending.get(categoryId)?.amount || 0;
+        const planned = expected.get(categoryId) || 0;
+
+        const pace = daysElapsed > 0 ? (spent / daysElapsed) * daysInMonth : null;
+        const fromHistory = history.months > 0 ? spent + Math.max(history.remaining.get(categoryId)?.amount || 0, 0) : null;
+
+        let method: ForecastMethod;
+        let projectedDiscretionary: number;
+        if (complete) {
+          method = 'actual';
+          projectedDiscretionary = spent;
+        } else if (pace !== null && fromHistory !== null) {
+          // Lean on the history early in the month and on this month's pace later on
+          method = 'blended';
+          projectedDiscretionary = paceShare * pace + (1 - paceShare) * fromHistory;
+        } else if (pace !== null) {
+          method = 'pace';
+          projectedDiscretionary = pace;
+        } else if (fromHistory !== null) {
+          method = 'history';
+          projectedDiscretionary = fromHistory;
+        } else {
+          method = 'plan';
+          projectedDiscretionary = Math.max(planned - recurring - due, 0);
+        }
+
+        const projected = roundMoney(projectedDiscretionary + recurring + due);
+        return {
+          category_id: categoryId,
+          category_name: categoryName,
+          expected_amount: roundMoney(planned),
+          actual_amount: roundMoney(spent + recurring),
+          upcoming_recurring: roundMoney(due),
+          projected_amount: projected,
+          projected_remaining: roundMoney(planned - projected),
+          status: BudgetService.budgetStatus(planned, projected),
+          method
+        };
+      })
+        .filter((category) => category.expected_amount !== 0 || category.actual_amount !== 0 || category.projected_amount !== 0)
+        .sort((a, b) => b.projected_amount - a.projected_amount);
+
+      const method: ForecastMethod = complete ? 'actual'
+        : daysElapsed > 0 ? (history.months > 0 ? 'blended' : 'pace')
+          : history.months > 0 ? 'history' : 'plan';
+      const confidenceScore = complete
+        ? 1
+        : roundMoney(0.6 * paceShare + 0.4 * (Math.min(history.months, this.HISTORY_MONTHS) / this.HISTORY_MONTHS));
+      const confidence: ForecastConfidence = confidenceScore >= 0.7 ? 'high' : confidenceScore >= 0.4 ? 'medium' : 'low';
+
+      const sum = (field: 'expected_amount' | 'actual_amount' | 'upcoming_recurring' | 'projected_amount') =>
+        roundMoney(categories.reduce((total, category) => total + category[field], 0));
+      const totalExpected = sum('expected_amount');
+      const projectedExpenses = sum('projected_amount');
+
+      // Fall back to the planned income when no income has been recorded or is scheduled
+      const knownIncome = summary.actualIncome + upcomingIncome;
+      const projectedIncome = roundMoney(complete ? summary.totalIncome : knownIncome > 0 ? knownIncome : summary.plannedIncome);
+      const projectedSavings = roundMoney(projectedIncome - projectedExpenses);
+
+      return {
+        month,
+        isClosed: summary.isClosed,
+        baseCurrency: summary.baseCurrency,
+        daysInMonth,
+        daysElapsed,
+        historyMonths: history.months,
+        method,
+        confidence,
+        confidenceScore,
+        categories,
+        plannedIncome: summary.plannedIncome,
+        projectedIncome,
+        totalExpected,
+        actualExpenses: sum('actual_amount'),
+        upcomingRecurring: sum('upcoming_recurring'),
+        projectedExpenses,
+        // Without a goal there is no plan to overspend
+        projectedOverspend: summary.monthlyGoal ? roundMoney(Math.max(projectedExpenses - totalExpected, 0)) : 0,
+        expectedSavings: summary.expectedSavings,
+        projectedSavings,
+        savingsDifference: roundMoney(projectedSavings - summary.expectedSavings)
+      };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get forecast error:', error);
+      throw createError('Failed to fetch forecast', 500);
+    }
+  }
+}
@@ -0,0 +1,310 @@
+import { supabaseAdmin } from '../config/database';
+import {
+  ApplyGoalRequest,
+  ApplyGoalResult,
+  CategoryExpense,
+  CreateGoalTemplateRequest,
+  GoalTemplate,
+  Transaction
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+import { BudgetService } from './budgetService';
+import { ExchangeRateService } from './exchangeRateService';
+import { addMonths } from '../utils/date';
+
+export class GoalTemplateService {
+  private static readonly PAGE_SIZE = 1000;
+  private static readonly MAX_MONTHS = 24;
+
+  private static shiftMonth(month: string, months: number): string {
+    return addMonths(`${month}-01`, months).slice(0, 7);
+  }
+
+  private static async getOwnedTemplate(userId: string, templateId: string): Promise<GoalTemplate> {
+    const { data: template, error } = await supabaseAdmin
+      .from('goal_templates')
+      .select('*')
+      .eq('id', templateId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to fetch goal template', 500);
+    }
+
+    if (!template) {
+      throw createError('Goal template not found', 404);
+    }
+
+    return template as GoalTemplate;
+  }
+
+  /**
+   * Average monthly net spending per category (keyed by id and by lower-cased name) over [from, to]
+   */
+  private static async averageSpending(userId: string, from: string, to: string, months: number): Promise<Map<string, number>> {
+    const totals = new Map<string, number>();
+    const add = (key: string, amount: number) => totals.set(key, (totals.get(key) || 0) + amount);
+    const baseCurrency = await ExchangeRateService.getBaseCurrency(userId);
+
+    for (let offset = 0; ; offset += this.PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('transactions')
+        .select('*')
+        .eq('user_id', userId)
+        .is('household_id', null)
+        .is('deleted_at', null)
+        .in('type', ['expense', 'refund'])
+        .gte('month', from)
+        .lte('month', to)
+        .order('id')
+        .range(offset, offset + this.PAGE_SIZE - 1);
+
+      if (error) {
+        throw createError('Failed to calculate average spending', 500);
+      }
+
+      // Transactions without an exchange rate are left out of the average
+      const { transactions } = await ExchangeRateService.convertToBase(userId, (data || []) as Transaction[], baseCurrency);
+      for (const trans of transactions) {
+        for (const line of BudgetService.categoryLines(trans)) {
+          const amount = trans.type === 'refund' ? -Number(line.amount) : Number(line.amount);
+          add(line.category_id, amount);
+          add(line.category_name.toLowerCase(), amount);
+        }
+      }
+
+      if (!data || data.length < this.PAGE_SIZE) {
+        break;
+      }
+    }
+
+    totals.forEach((total, key) => totals.set(key, Math.max(Math.round((total / months) * 100) / 100, 0)));
+    return totals;
+  }
+
+  /**
+   * Get user's goal templates
+   */
+  static async getTemplates(userId: string): Promise<GoalTemplate[]> {
+    try {
+      const { data: templates, error } = await supabaseAdmin
+        .from('goal_templates')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+
+      if (error) {
+        throw createError('Failed to fetch goal templates', 500);
+      }
+
+      return (templates || []) as GoalTemplate[];
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get goal templates error:', error);
+      throw createError('Failed to fetch goal templates', 500);
+    }
+  }
+
+  /**
+   * Get a single goal template
+   */
+  static async getTemplate(userId: string, templateId: string): Promise<GoalTemplate> {
+    try {
+      return await this.getOwnedTemplate(userId, templateId);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get goal template error:', error);
+      throw createError('Failed to fetch goal template', 500);
+    }
+  }
+
+  /**
+   * Create a goal template
+   */
+  static async createTemplate(userId: string, templateData: CreateGoalTemplateRequest): Promise<GoalTemplate> {
+    try {
+      const { data: template, error } = await supabaseAdmin
+        .from('goal_templates')
+        .insert({
+          user_id: userId,
+          name: templateData.name,
+          income: templateData.income,
+          expenses: templateData.expenses
+        })
+        .select()
+        .single();
+
+      // 23505 = unique violation on (user_id, name)
+      if (error && error.code === '23505') {
+        throw createError('A goal template with this name already exists', 409);
+      }
+
+      if (error || !template) {
+        throw createError('Failed to create goal template', 500);
+      }
+
+      return template as GoalTemplate;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Create goal template error:', error);
+      throw createError('Failed to create goal template', 500);
+    }
+  }
+
+  /**
+   * Update a goal template
+   */
+  static async updateTemplate(userId: string, templateId: string, updates: Partial<CreateGoalTemplateRequest>): Promise<GoalTemplate> {
+    try {
+      const existing = await this.getOwnedTemplate(userId, templateId);
+
+      const { data: template, error } = await supabaseAdmin
+        .from('goal_templates')
+        .update({
+          name: updates.name ?? existing.name,
+          income: updates.income ?? existing.income,
+          expenses: updates.expenses ?? existing.expenses,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', templateId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error && error.code === '23505') {
+        throw createError('A goal template with this name already exists', 409);
+      }
+
+      if (error || !template) {
+        throw createError('Failed to update goal template', 500);
+      }
+
+      return template as GoalTemplate;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Update goal template error:', error);
+      throw createError('Failed to update goal template', 500);
+    }
+  }
+
+  /**
+   * Delete a goal template. Goals already created from it are kept.
+   */
+  static async deleteTemplate(userId: string, templateId: string): Promise<void> {
+    try {
+      await this.getOwnedTemplate(userId, templateId);
+
+      const { error } = await supabaseAdmin
+        .from('goal_templates')
+        .delete()
+        .eq('id', templateId)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw createError('Failed to delete goal template', 500);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Delete goal template error:', error);
+      throw createError('Failed to delete goal template', 500);
+    }
+  }
+
+  /**
+   * Create goals for one or more months from a template or the previous month's goal.
+   * Months that already have a goal (unless overwrite is set) or are closed are skipped.
+   */
+  static async applyGoal(userId: string, request: ApplyGoalRequest): Promise<ApplyGoalResult> {
+    try {
+      const toMonth = request.to_month || request.month;
+      if (toMonth < request.month) {
+        throw createError('to_month must not be before month', 400);
+      }
+
+      const months: string[] = [];
+      for (let month = request.month; month <= toMonth; month = this.shiftMonth(month, 1)) {
+        months.push(month);
+        if (months.length > this.MAX_MONTHS) {
+          throw createError(`Goals can be applied to at most ${this.MAX_MONTHS} months at once`, 400);
+        }
+      }
+
+      let income: number;
+      let expenses: CategoryExpense[];
+      if (request.source === 'template') {
+        const template = await this.getOwnedTemplate(userId, request.template_id as string);
+        income = Number(template.income);
+        expenses = template.expenses;
+      } else {
+        const previousMonth = this.shiftMonth(request.month, -1);
+        const previous = await BudgetService.getMonthlyGoal(userId, previousMonth);
+        if (!previous) {
+          throw createError(`No monthly goal found for ${previousMonth}`, 404);
+        }
+        income = Number(previous.income);
+        expenses = previous.expenses;
+      }
+
+      // Carried amounts and actuals belong to the source month, not the new ones
+      expenses = expenses.map(({ category_id, category_name, expected_amount, rollover, rollover_cap }) => ({
+        category_id,
+        category_name,
+        expected_amount: Number(expected_amount),
+        ...(rollover ? { rollover } : {}),
+        ...(rollover_cap !== undefined ? { rollover_cap } : {})
+      }));
+
+      if (request.amounts === 'average') {
+        // Trailing window ends the month before the first month being planned
+        const window = request.average_months || 3;
+        const averages = await this.averageSpending(
+          userId,
+          this.shiftMonth(request.month, -window),
+          this.shiftMonth(request.month, -1),
+          window
+        );
+        expenses = expenses.map((expense) => ({
+          ...expense,
+          expected_amount: averages.get(expense.category_id) ?? averages.get(expense.category_name.toLowerCase()) ?? 0
+        }));
+      }
+
+      const result: ApplyGoalResult = { created: [], skipped: [] };
+      for (const month of months) {
+        if (!request.overwrite && await BudgetService.getMonthlyGoal(userId, month)) {
+          result.skipped.push({ month, reason: 'Goal already exists' });
+          continue;
+        }
+
+        try {
+          result.created.push(await BudgetService.createMonthlyGoal(userId, { month, income, expenses }));
+        } catch (error) {
+          // 409 = the month is closed; keep going with the remaining months
+          if (!(error instanceof Error && 'statusCode' in error && (error as { statusCode?: number }).statusCode === 409)) {
+            throw error;
+          }
+          result.skipped.push({ month, reason: error.message });
+        }
+      }
+
+      return result;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Apply goal error:', error);
+      throw createError('Failed to apply goal', 500);
+    }
+  }
+}
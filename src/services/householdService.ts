@@ -0,0 +1,496 @@
+import { supabaseAdmin } from '../config/database';
+import {
+  CreateHouseholdInvitationRequest,
+  CreateHouseholdRequest,
+  Household,
+  HouseholdDetails,
+  HouseholdInvitation,
+  HouseholdMember,
+  HouseholdRole,
+  HouseholdWithRole
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+
+const ROLE_RANK: Record<HouseholdRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+export class HouseholdService {
+  private static readonly INVITATION_DAYS = 14;
+
+  /**
+   * True when `role` grants at least the access of `required`
+   */
+  static hasRole(role: HouseholdRole, required: HouseholdRole): boolean {
+    return ROLE_RANK[role] >= ROLE_RANK[required];
+  }
+
+  /**
+   * The caller's membership of a household, failing with 404 for non-members
+   */
+  static async getMembership(userId: string, householdId: string): Promise<{ household: Household; role: HouseholdRole }> {
+    const { data, error } = await supabaseAdmin
+      .from('household_members')
+      .select('role,households!inner(*)')
+      .eq('household_id', householdId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to fetch household', 500);
+    }
+
+    if (!data) {
+      throw createError('Household not found', 404);
+    }
+
+    return { household: data.households as unknown as Household, role: data.role as HouseholdRole };
+  }
+
+  private static async requireRole(userId: string, householdId: string, required: HouseholdRole): Promise<HouseholdWithRole> {
+    const { household, role } = await this.getMembership(userId, householdId);
+
+    if (!this.hasRole(role, required)) {
+      throw createError(`Only a household ${required} can do this`, 403);
+    }
+
+    return { ...household, role };
+  }
+
+  private static async getUserEmail(userId: string): Promise<string> {
+    const { data, error } = await supabaseAdmin
+      .from('users')
+      .select('email')
+      .eq('id', userId)
+      .single();
+
+    if (error || !data) {
+      throw createError('User not found', 404);
+    }
+
+    return String(data.email).toLowerCase();
+  }
+
+  /**
+   * Get the households the user belongs to, with their role in each
+   */
+  static async getHouseholds(userId: string): Promise<HouseholdWithRole[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('household_members')
+        .select('role,households!inner(*)')
+        .eq('user_id', userId);
+
+      if (error) {
+        throw createError('Failed to fetch households', 500);
+      }
+
+      return (data || [])
+        .map((row) => ({ ...(row.households as unknown as Household), role: row.role as HouseholdRole }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get households error:', error);
+      throw createError('Failed to fetch households', 500);
+    }
+  }
+
+  /**
+   * Get a household with its members
+   */
+  static async getHousehold(userId: string, householdId: string): Promise<HouseholdDetails> {
+    try {
+      const household = await this.requireRole(userId, householdId, 'viewer');
+
+      const { data, error } = await supabaseAdmin
+        .from('household_members')
+        .select('id,household_id,user_id,role,created_at,updated_at,users!inner(name,email)')
+        .eq('household_id', householdId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw createError('Failed to fetch household members', 500);
+      }
+
+      const members = (data || []).map(({ users, ...member }) => {
+        const user = users as unknown as { name: string; email: string };
+        return { ...member, name: user.name, email: user.email } as HouseholdMember;
+      });
+
+      return { ...household, members };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get household error:', error);
+      throw createError('Failed to fetch household', 500);
+    }
+  }
+
+  /**
+   * Create a household with the caller as its owner
+   */
+  static async createHousehold(userId: string, householdData: CreateHouseholdRequest): Promise<HouseholdDetails> {
+    try {
+      const { data: household, error } = await supabaseAdmin
+        .from('households')
+        .insert({ name: householdData.name, owner_id: userId })
+        .select()
+        .single();
+
+      if (error || !household) {
+        throw createError('Failed to create household', 500);
+      }
+
+      const { error: memberError } = await supabaseAdmin
+        .from('household_members')
+        .insert({ household_id: household.id, user_id: userId, role: 'owner' });
+
+      if (memberError) {
+        await supabaseAdmin.from('households').delete().eq('id', household.id);
+        throw createError('Failed to create household', 500);
+      }
+
+      return await this.getHousehold(userId, household.id);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Create household error:', error);
+      throw createError('Failed to create household', 500);
+    }
+  }
+
+  /**
+   * Rename a household (owners only)
+   */
+  static async updateHousehold(userId: string, householdId: string, updates: CreateHouseholdRequest): Promise<HouseholdDetails> {
+    try {
+      await this.requireRole(userId, householdId, 'owner');
+
+      const { error } = await supabaseAdmin
+        .from('households')
+        .update({ name: updates.name, updated_at: new Date().toISOString() })
+        .eq('id', householdId);
+
+      if (error) {
+        throw createError('Failed to update household', 500);
+      }
+
+      return await this.getHousehold(userId, householdId);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Update household error:', error);
+      throw createError('Failed to update household', 500);
+    }
+  }
+
+  /**
+   * Delete a household and its shared budget (owners only)
+   */
+  static async deleteHousehold(userId: string, householdId: string): Promise<void> {
+    try {
+      await this.requireRole(userId, householdId, 'owner');
+
+      const { error } = await supabaseAdmin
+        .from('households')
+        .delete()
+        .eq('id', householdId);
+
+      if (error) {
+        throw createError('Failed to delete household', 500);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Delete household error:', error);
+      throw createError('Failed to delete household', 500);
+    }
+  }
+
+  /**
+   * Invite someone by email to join a household (owners only)
+   */
+  static async inviteMember(
+    userId: string,
+    householdId: string,
+    invitationData: CreateHouseholdInvitationRequest
+  ): Promise<HouseholdInvitation> {
+    try {
+      const household = await this.getHousehold(userId, householdId);
+      if (!this.hasRole(household.role, 'owner')) {
+        throw createError('Only a household owner can do this', 403);
+      }
+
+      const email = invitationData.email.toLowerCase();
+      if (household.members.some((member) => member.email?.toLowerCase() === email)) {
+        throw createError('This person is already a member of the household', 409);
+      }
+
+      // An expired invitation no longer blocks inviting the same person again
+      const { error: expireError } = await supabaseAdmin
+        .from('household_invitations')
+        .update({ status: 'expired' })
+        .eq('household_id', householdId)
+        .eq('email', email)
+        .eq('status', 'pending')
+        .lte('expires_at', new Date().toISOString());
+
+      if (expireError) {
+        throw createError('Failed to create invitation', 500);
+      }
+
+      const expiresAt = new Date(Date.now() + this.INVITATION_DAYS * 24 * 60 * 60 * 1000);
+      const { data: invitation, error } = await supabaseAdmin
+        .from('household_invitations')
+        .insert({
+          household_id: householdId,
+          email,
+          role: invitationData.role,
+          invited_by: userId,
+          status: 'pending',
+          expires_at: expiresAt.toISOString()
+        })
+        .select()
+        .single();
+
+      // 23505 = unique violation on the pending invitation for this email
+      if (error && error.code === '23505') {
+        throw createError('This person already has a pending invitation', 409);
+      }
+
+      if (error || !invitation) {
+        throw createError('Failed to create invitation', 500);
+      }
+
+      return { ...invitation, household_name: household.name } as HouseholdInvitation;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Invite household member error:', error);
+      throw createError('Failed to create invitation', 500);
+    }
+  }
+
+  /**
+   * Get a household's pending invitations (owners only)
+   */
+  static async getInvitations(userId: string, householdId: string): Promise<HouseholdInvitation[]> {
+    try {
+      await this.requireRole(userId, householdId, 'owner');
+
+      const { data, error } = await supabaseAdmin
+        .from('household_invitations')
+        .select('*')
+        .eq('household_id', householdId)
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw createError('Failed to fetch invitations', 500);
+      }
+
+      return (data || []) as HouseholdInvitation[];
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get household invitations error:', error);
+      throw createError('Failed to fetch invitations', 500);
+    }
+  }
+
+  /**
+   * Revoke a pending invitation (owners only)
+   */
+  static async revokeInvitation(userId: string, householdId: string, invitationId: string): Promise<void> {
+    try {
+      await this.requireRole(userId, householdId, 'owner');
+
+      const { data, error } = await supabaseAdmin
+        .from('household_invitations')
+        .update({ status: 'revoked', responded_at: new Date().toISOString() })
+        .eq('id', invitationId)
+        .eq('household_id', householdId)
+        .eq('status', 'pending')
+        .select('id');
+
+      if (error) {
+        throw createError('Failed to revoke invitation', 500);
+      }
+
+      if (!data || data.length === 0) {
+        throw createError('Invitation not found', 404);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Revoke household invitation error:', error);
+      throw createError('Failed to revoke invitation', 500);
+    }
+  }
+
+  /**
+   * Get the pending invitations addressed to the user's email
+   */
+  static async getMyInvitations(userId: string): Promise<HouseholdInvitation[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('household_invitations')
+        .select('*,households!inner(name)')
+        .eq('email', await this.getUserEmail(userId))
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw createError('Failed to fetch invitations', 500);
+      }
+
+      return (data || []).map(({ households, ...invitation }) => ({
+        ...invitation,
+        household_name: (households as unknown as { name: string }).name
+      }) as HouseholdInvitation);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get my household invitations error:', error);
+      throw createError('Failed to fetch invitations', 500);
+    }
+  }
+
+  /**
+   * Accept or decline an invitation addressed to the user's email
+   */
+  static async respondToInvitation(userId: string, invitationId: string, accept: boolean): Promise<HouseholdInvitation> {
+    try {
+      const { data: invitation, error } = await supabaseAdmin
+        .from('household_invitations')
+        .select('*')
+        .eq('id', invitationId)
+        .eq('email', await this.getUserEmail(userId))
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (error) {
+        throw createError('Failed to fetch invitation', 500);
+      }
+
+      if (!invitation) {
+        throw createError('Invitation not found or expired', 404);
+      }
+
+      if (accept) {
+        const { error: memberError } = await supabaseAdmin
+          .from('household_members')
+          .insert({ household_id: invitation.household_id, user_id: userId, role: invitation.role });
+
+        // 23505 = already a member; accepting again is harmless
+        if (memberError && memberError.code !== '23505') {
+          throw createError('Failed to join household', 500);
+        }
+      }
+
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from('household_invitations')
+        .update({ status: accept ? 'accepted' : 'declined', responded_at: new Date().toISOString() })
+        .eq('id', invitationId)
+        .select()
+        .single();
+
+      if (updateError || !updated) {
+        throw createError('Failed to update invitation', 500);
+      }
+
+      return updated as HouseholdInvitation;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Respond to household invitation error:', error);
+      throw createError('Failed to update invitation', 500);
+    }
+  }
+
+  /**
+   * Change a member's role (owners only). The household's creator always stays an owner.
+   */
+  static async updateMemberRole(userId: string, householdId: string, memberUserId: string, role: HouseholdRole): Promise<HouseholdDetails> {
+    try {
+      const household = await this.requireRole(userId, householdId, 'owner');
+
+      if (memberUserId === household.owner_id && role !== 'owner') {
+        throw createError('The household creator must stay an owner', 400);
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('household_members')
+        .update({ role, updated_at: new Date().toISOString() })
+        .eq('household_id', householdId)
+        .eq('user_id', memberUserId)
+        .select('id');
+
+      if (error) {
+        throw createError('Failed to update member', 500);
+      }
+
+      if (!data || data.length === 0) {
+        throw createError('Member not found', 404);
+      }
+
+      return await this.getHousehold(userId, householdId);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Update household member error:', error);
+      throw createError('Failed to update member', 500);
+    }
+  }
+
+  /**
+   * Remove a member (owners), or leave the household (any member). What they entered stays in the budget.
+   */
+  static async removeMember(userId: string, householdId: string, memberUserId: string): Promise<void> {
+    try {
+      const { household, role } = await this.getMembership(userId, householdId);
+
+      if (memberUserId !== userId && !this.hasRole(role, 'owner')) {
+        throw createError('Only a household owner can do this', 403);
+      }
+
+      if (memberUserId === household.owner_id) {
+        throw createError('The household creator cannot leave. Delete the household instead.', 400);
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('household_members')
+        .delete()
+        .eq('household_id', householdId)
+        .eq('user_id', memberUserId)
+        .select('id');
+
+      if (error) {
+        throw createError('Failed to remove member', 500);
+      }
+
+      if (!data || data.length === 0) {
+        throw createError('Member not found', 404);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Remove household member error:', error);
+      throw createError('Failed to remove member', 500);
+    }
+  }
+}
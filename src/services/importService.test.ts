@@ -0,0 +1,133 @@
+import { ImportService } from './importService';
+import { seed } from '../test/fakeSupabase';
+import { CsvColumnMapping } from '../types';
+
+jest.mock('../config/database', () => require('../test/fakeSupabase').fakeDatabase);
+
+const USER_ID = 'user-1';
+
+const category = (id: string, name: string) => ({ id, name, user_id: null, household_id: null, is_default: true });
+
+const previewCsv = (content: string, mapping: Partial<CsvColumnMapping> = {}) => ImportService.previewImport(USER_ID, {
+  format: 'csv',
+  content,
+  mapping: { date: 'Date', description: 'Description', amount: 'Amount', ...mapping }
+});
+
+describe('ImportService.previewImport', () => {
+  beforeEach(() => {
+    seed({
+      categories: [category('cat-misc', 'Miscellaneous'), category('cat-income', 'Income'), category('cat-food', 'Groceries')],
+      category_rules: [{
+        id: 'rule-1',
+        user_id: USER_ID,
+        priority: 0,
+        is_active: true,
+        conditions: [{ field: 'description', operator: 'contains', value: 'market' }],
+        category_id: 'cat-food',
+        category_name: 'Groceries',
+        created_at: '2024-01-01T00:00:00Z'
+      }],
+      transactions: [{
+        id: 'existing',
+        user_id: USER_ID,
+        household_id: null,
+        deleted_at: null,
+        date: '2024-01-06',
+        amount: 40,
+        description: 'Rent share'
+      }]
+    });
+  });
+
+  it('reads signed amounts, treating negative ones as expenses', async () => {
+    const batch = await previewCsv('Date,Description,Amount\n2024-01-05,Farmers Market,-12.50\n2024-01-31,Salary,2500');
+
+    expect(batch.status).toBe('pending');
+    expect(batch.rows.map(({ date, amount, type, description }) => ({ date, amount, type, description }))).toEqual([
+      { date: '2024-01-05', amount: 12.5, type: 'expense', description: 'Farmers Market' },
+      { date: '2024-01-31', amount: 2500, type: 'income', description: 'Salary' }
+    ]);
+  });
+
+  it('categorizes rows by the rules, falling back to the default category', async () => {
+    const batch = await previewCsv('Date,Description,Amount\n2024-01-05,Farmers Market,-12.50\n2024-01-07,Hardware store,-8\n2024-01-31,Salary,2500');
+
+    expect(batch.rows.map((row) => [row.category_name, row.category_rule_id])).toEqual([
+      ['Groceries', 'rule-1'],
+      ['Miscellaneous', undefined],
+      ['Income', undefined]
+    ]);
+  });
+
+  it('reads separate debit and credit columns, day-first dates and decimal commas', async () => {
+    const batch = await previewCsv(
+      'Datum;Text;Soll;Haben\n05.01.2024;Bakery;1.234,50;\n31.01.2024;Salary;;2.500,00',
+      { date: 'Datum', description: 'Text', amount: undefined, debit: 'Soll', credit: 'Haben', date_format: 'DD.MM.YYYY', delimiter: ';', decimal_separator: ',' }
+    );
+
+    expect(batch.rows.map(({ date, amount, type }) => [date, amount, type])).toEqual([
+      ['2024-01-05', 1234.5, 'expense'],
+      ['2024-01-31', 2500, 'income']
+    ]);
+  });
+
+  it('reads columns by position when there is no header, with expenses as positive amounts', async () => {
+    const batch = await previewCsv('01/05/2024,Coffee,4.20\n01/06/2024,Refund,(3.00)', {
+      date: '0', description: '1', amount: '2', has_header: false, date_format: 'MM/DD/YYYY', expense_sign: 'positive'
+    });
+
+    expect(batch.rows.map(({ date, amount, type }) => [date, amount, type])).toEqual([
+      ['2024-01-05', 4.2, 'expense'],
+      ['2024-01-06', 3, 'income']
+    ]);
+  });
+
+  it('flags invalid rows and duplicates of existing or earlier rows', async () => {
+    const batch = await previewCsv([
+      'Date,Description,Amount',
+      '2024-02-30,Bad date,-1',
+      '2024-01-08,Zero,0',
+      '2024-01-08,,-5',
+      '2024-01-06,RENT SHARE,-40.00',
+      '2024-01-09,Lunch,-9',
+      '2024-01-09,lunch,-9'
+    ].join('\n'));
+
+    expect(batch.rows.map((row) => [row.error, row.duplicate])).toEqual([
+      ['Invalid or missing date', false],
+      ['Invalid or zero amount', false],
+      ['Missing description', false],
+      [undefined, true],
+      [undefined, false],
+      [undefined, true]
+    ]);
+  });
+
+  it('rejects a mapping to a column the file does not have', async () => {
+    await expect(previewCsv('Date,Description,Value\n2024-01-05,Coffee,-4')).rejects.toMatchObject({
+      message: 'Column "Amount" not found in CSV file',
+      statusCode: 400
+    });
+  });
+
+  it('reads OFX statements', async () => {
+    const batch = await ImportService.previewImport(USER_ID, {
+      format: 'ofx',
+      content: '<OFX><STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240105<TRNAMT>-12.50<FITID>1<NAME>FARMERS MARKET</STMTTRN>'
+        + '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240131<TRNAMT>2500.00<FITID>2<MEMO>Payroll</STMTTRN></OFX>'
+    });
+
+    expect(batch.rows.map(({ date, amount, type, description, category_name }) => [date, amount, type, description, category_name])).toEqual([
+      ['2024-01-05', 12.5, 'expense', 'FARMERS MARKET', 'Groceries'],
+      ['2024-01-31', 2500, 'income', 'Payroll', 'Income']
+    ]);
+  });
+
+  it('rejects a file without transactions', async () => {
+    await expect(ImportService.previewImport(USER_ID, { format: 'ofx', content: '<OFX></OFX>' })).rejects.toMatchObject({
+      message: 'No transactions found in file',
+      statusCode: 400
+    });
+  });
+});
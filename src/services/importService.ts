@@ -0,0 +1,475 @@
+import { supabaseAdmin } from '../config/database';
+import {
+  CommitImportRequest,
+  CreateImportRequest,
+  CsvColumnMapping,
+  ImportBatch,
+  ImportRow,
+  TransactionType
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+import { BudgetService } from './budgetService';
+import { CategoryRuleService } from './categoryRuleService';
+import { parseCsv } from '../utils/csv';
+import { parseOfx } from '../utils/ofx';
+
+type ParsedRow = Pick<ImportRow, 'date' | 'amount' | 'type' | 'description' | 'error'> & { category?: string };
+
+export class ImportService {
+  private static readonly MAX_ROWS = 5000;
+  private static readonly PAGE_SIZE = 1000;
+
+  private static parseAmount(value: string | undefined, decimalSeparator: '.' | ','): number {
+    if (!value || value.trim().length === 0) return NaN;
+
+    let text = value.trim();
+    // Accounting style negatives: (12.50)
+    const negative = /^\(.*\)$/.test(text) || text.includes('-');
+    text = text.replace(/[^\d.,]/g, '');
+    text = decimalSeparator === ',' ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+
+    const amount = parseFloat(text);
+    return negative ? -amount : amount;
+  }
+
+  private static parseDate(value: string | undefined, format: NonNullable<CsvColumnMapping['date_format']>): string {
+    const text = (value || '').trim();
+    const parts = text.split(/[-/.]/);
+    if (parts.length < 3) return '';
+
+    let [year, month, day] = ['', '', ''];
+    switch (format) {
+      case 'MM/DD/YYYY':
+        [month, day, year] = parts;
+        break;
+      case 'DD/MM/YYYY':
+      case 'DD.MM.YYYY':
+        [day, month, year] = parts;
+        break;
+      default:
+        [year, month, day] = parts;
+    }
+
+    const date = `${year.slice(0, 4)}-${month.padStart(2, '0')}-${day.slice(0, 2).padStart(2, '0')}`;
+    const parsed = new Date(`${date}T00:00:00Z`);
+    return /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date)
+      ? date
+      : '';
+  }
+
+  private static parseCsvRows(content: string, mapping: CsvColumnMapping): ParsedRow[] {
+    const hasHeader = mapping.has_header !== false;
+    const decimalSeparator = mapping.decimal_separator || '.';
+    const records = parseCsv(content, mapping.delimiter || ',');
+    const header = hasHeader ? (records.shift() || []).map((name) => name.trim().toLowerCase()) : [];
+
+    const column = (name: string | undefined): number => {
+      if (!name) return -1;
+      const index = hasHeader ? header.indexOf(name.trim().toLowerCase()) : parseInt(name, 10);
+      if (index < 0 || isNaN(index)) {
+        throw createError(`Column "${name}" not found in CSV file`, 400);
+      }
+      return index;
+    };
+
+    const dateCol = column(mapping.date);
+    const descriptionCol = column(mapping.description);
+    const amountCol = column(mapping.amount);
+    const debitCol = column(mapping.debit);
+    const creditCol = column(mapping.credit);
+    const categoryCol = column(mapping.category);
+
+    return records.map((record) => {
+      let signed: number;
+      if (amountCol >= 0) {
+        const raw = this.parseAmount(record[amountCol], decimalSeparator);
+        // Normalize so that expenses are negative
+        signed = mapping.expense_sign === 'positive' ? -raw : raw;
+      } else {
+        const debit = this.parseAmount(record[debitCol], decimalSeparator);
+        const credit = this.parseAmount(record[creditCol], decimalSeparator);
+        signed = (isNaN(credit) ? 0 : Math.abs(credit)) - (isNaN(debit) ? 0 : Math.abs(debit));
+      }
+
+      const row: ParsedRow = {
+        date: this.parseDate(record[dateCol], mapping.date_format || 'YYYY-MM-DD'),
+        amount: Math.abs(signed),
+        type: signed > 0 ? 'income' : 'expense',
+        description: (record[descriptionCol] || '').trim().slice(0, 200),
+        category: categoryCol >= 0 ? (record[categoryCol] || '').trim() || undefined : undefined
+      };
+
+      return this.withRowError(row);
+    });
+  }
+
+  private static parseOfxRows(content: string): ParsedRow[] {
+    return parseOfx(content).map((trn) => {
+      const row: ParsedRow = {
+        date: trn.date,
+        amount: Math.abs(trn.amount),
+        type: trn.amount > 0 ? 'income' : 'expense',
+        description: (trn.name || trn.memo).slice(0, 200)
+      };
+
+      return this.withRowError(row);
+    });
+  }
+
+  private static withRowError(row: ParsedRow): ParsedRow {
+    if (!row.date) {
+      return { ...row, error: 'Invalid or missing date' };
+    }
+    if (isNaN(row.amount) || row.amount === 0) {
+      return { ...row, error: 'Invalid or zero amount' };
+    }
+    if (!row.description) {
+      return { ...row, error: 'Missing description' };
+    }
+    return row;
+  }
+
+  private static duplicateKey(date: string, amount: number, description: string): string {
+    return `${date}|${Number(amount).toFixed(2)}|${description.trim().toLowerCase()}`;
+  }
+
+  /**
+   * Keys of the user's existing transactions between two dates, used to flag likely duplicates
+   */
+  private static async getExistingKeys(userId: string, from: string, to: string): Promise<Set<string>> {
+    const keys = new Set<string>();
+
+    for (let offset = 0; ; offset += this.PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('transactions')
+        .select('date,amount,description')
+        .eq('user_id', userId)
+        .is('household_id', null)
+        .is('deleted_at', null)
+        .gte('date', from)
+        .lte('date', to)
+        .order('id')
+        .range(offset, offset + this.PAGE_SIZE - 1);
+
+      if (error) {
+        throw createError('Failed to check for duplicate transactions', 500);
+      }
+
+      (data || []).forEach((trans) => keys.add(this.duplicateKey(trans.date, trans.amount, trans.description)));
+
+      if (!data || data.length < this.PAGE_SIZE) {
+        return keys;
+      }
+    }
+  }
+
+  private static async getOwnedBatch(userId: string, batchId: string): Promise<ImportBatch> {
+    const { data: batch, error } = await supabaseAdmin
+      .from('import_batches')
+      .select('*')
+      .eq('id', batchId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to fetch import', 500);
+    }
+
+    if (!batch) {
+      throw createError('Import not found', 404);
+    }
+
+    return batch as ImportBatch;
+  }
+
+  /**
+   * Parse a bank statement and record it as a pending import (dry run: no transactions are created)
+   */
+  static async previewImport(userId: string, request: CreateImportRequest): Promise<ImportBatch> {
+    try {
+      if (request.format === 'csv' && !request.mapping) {
+        throw createError('A column mapping is required for CSV imports', 400);
+      }
+
+      const parsed = request.format === 'csv'
+        ? this.parseCsvRows(request.content, request.mapping as CsvColumnMapping)
+        : this.parseOfxRows(request.content);
+
+      if (parsed.length === 0) {
+        throw createError('No transactions found in file', 400);
+      }
+      if (parsed.length > this.MAX_ROWS) {
+        throw createError(`Imports are limited to ${this.MAX_ROWS} transactions per file`, 400);
+      }
+
+      const dates = parsed.filter((row) => !row.error).map((row) => row.date).sort();
+      const existingKeys = dates.length > 0
+        ? await this.getExistingKeys(userId, dates[0], dates[dates.length - 1])
+        : new Set<string>();
+      const seenKeys = new Set<string>();
+
+      // Resolve each distinct category name once, without creating anything during the preview
+      const categoryCache = new Map<string, { id: string; name: string } | null>();
+      const resolveCategory = async (name: string) => {
+        if (!categoryCache.has(name)) {
+          categoryCache.set(name, await BudgetService.resolveCategoryId(userId, undefined, name, false));
+        }
+        return categoryCache.get(name) || null;
+      };
+
+      // Rows without a category in the file are categorized by the user's rules
+      const rules = await CategoryRuleService.getActiveRules(userId);
+
+      const rows: ImportRow[] = [];
+      for (const [index, row] of parsed.entries()) {
+        const rule = row.category || row.error ? null : CategoryRuleService.matchRules(rules, row);
+        const categoryName = row.category || rule?.category_name || BudgetService.fallbackCategoryName(row.type);
+        const resolved = row.error ? null : rule ? { id: rule.category_id, name: rule.category_name } : await resolveCategory(categoryName);
+        const key = this.duplicateKey(row.date, row.amount, row.description);
+
+        rows.push({
+          index,
+          date: row.date,
+          amount: row.amount,
+          type: row.type as TransactionType,
+          description: row.description,
+          category_id: resolved?.id || null,
+          category_name: resolved?.name || categoryName,
+          ...(rule ? { category_rule_id: rule.id } : {}),
+          duplicate: !row.error && (existingKeys.has(key) || seenKeys.has(key)),
+          ...(row.error ? { error: row.error } : {})
+        });
+        seenKeys.add(key);
+      }
+
+      const { data: batch, error } = await supabaseAdmin
+        .from('import_batches')
+        .insert({
+          user_id: userId,
+          format: request.format,
+          filename: request.filename || null,
+          status: 'pending',
+          rows,
+          total_rows: rows.length,
+          imported_count: 0,
+          skipped_count: 0
+        })
+        .select()
+        .single();
+
+      if (error || !batch) {
+        throw createError('Failed to create import', 500);
+      }
+
+      return batch as ImportBatch;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Preview import error:', error);
+      throw createError('Failed to create import', 500);
+    }
+  }
+
+  /**
+   * Create transactions for a pending import. Rows flagged as duplicates are skipped unless include_duplicates is set.
+   */
+  static async commitImport(userId: string, batchId: string, options: CommitImportRequest): Promise<ImportBatch> {
+    try {
+      const batch = await this.getOwnedBatch(userId, batchId);
+
+      if (batch.status !== 'pending') {
+        throw createError(`Import has already been ${batch.status}`, 409);
+      }
+
+      // Claim the batch so a second commit request cannot import the rows again
+      const { data: claimed, error: claimError } = await supabaseAdmin
+        .from('import_batches')
+        .update({ status: 'committing', updated_at: new Date().toISOString() })
+        .eq('id', batch.id)
+        .eq('user_id', userId)
+        .eq('status', 'pending')
+        .select('id');
+
+      if (claimError) {
+        throw createError('Failed to commit import', 500);
+      }
+
+      if (!claimed || claimed.length === 0) {
+        throw createError('Import is already being committed', 409);
+      }
+
+      const skipRows = new Set(options.skip_rows || []);
+      let imported = 0;
+      let skipped = 0;
+
+      const rows: ImportRow[] = [];
+      for (const row of batch.rows) {
+        if (row.error || skipRows.has(row.index) || (row.duplicate && !options.include_duplicates)) {
+          skipped++;
+          rows.push(row);
+          continue;
+        }
+
+        try {
+          const transaction = await BudgetService.createTransaction(userId, {
+            category_id: row.category_id || '',
+            category_name: row.category_name,
+            type: row.type,
+            amount: row.amount,
+            description: row.description,
+            date: row.date
+          }, { importBatchId: batch.id, categoryRuleId: row.category_rule_id });
+
+          imported++;
+          rows.push({ ...row, transaction_id: transaction.id });
+        } catch (error) {
+          // Keep going so one bad row (e.g. in a closed month) does not sink the whole file
+          skipped++;
+          rows.push({ ...row, error: error instanceof Error ? error.message : 'Failed to import row' });
+        }
+      }
+
+      const { data: committed, error } = await supabaseAdmin
+        .from('import_batches')
+        .update({
+          status: 'committed',
+          rows,
+          imported_count: imported,
+          skipped_count: skipped,
+          committed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', batch.id)
+        .eq('user_id', userId)
+        .eq('status', 'committing')
+        .select()
+        .single();
+
+      if (error || !committed) {
+        throw createError('Failed to commit import', 500);
+      }
+
+      return committed as ImportBatch;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Commit import error:', error);
+      throw createError('Failed to commit import', 500);
+    }
+  }
+
+  /**
+   * Undo an import as a unit: discard it if pending, or delete every transaction it created
+   */
+  static async undoImport(userId: string, batchId: string): Promise<ImportBatch> {
+    try {
+      const batch = await this.getOwnedBatch(userId, batchId);
+
+      if (batch.status === 'undone') {
+        throw createError('Import has already been undone', 409);
+      }
+
+      if (batch.status === 'committing') {
+        throw createError('Import is still being committed', 409);
+      }
+
+      if (batch.status === 'committed') {
+        const transactions: Array<{ id: string; month: string }> = [];
+        for (let offset = 0; ; offset += this.PAGE_SIZE) {
+          const { data, error: findError } = await supabaseAdmin
+            .from('transactions')
+            .select('id,month')
+            .eq('user_id', userId)
+            .eq('import_batch_id', batch.id)
+            .is('deleted_at', null)
+            .order('id')
+            .range(offset, offset + this.PAGE_SIZE - 1);
+
+          if (findError) {
+            throw createError('Failed to undo import', 500);
+          }
+
+          transactions.push(...(data || []));
+
+          if (!data || data.length < this.PAGE_SIZE) {
+            break;
+          }
+        }
+
+        // Check every month first so the undo cannot stop half way at a closed month
+        await BudgetService.assertMonthsOpen(userId, transactions.map((trans) => trans.month));
+
+        const ids = transactions.map((trans) => trans.id);
+        for (let i = 0; i < ids.length; i += 200) {
+          await BudgetService.deleteTransactions(userId, ids.slice(i, i + 200));
+        }
+      }
+
+      const { data: undone, error } = await supabaseAdmin
+        .from('import_batches')
+        .update({
+          status: 'undone',
+          undone_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', batch.id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error || !undone) {
+        throw createError('Failed to undo import', 500);
+      }
+
+      return undone as ImportBatch;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Undo import error:', error);
+      throw createError('Failed to undo import', 500);
+    }
+  }
+
+  /**
+   * Get user's imports (without their rows)
+   */
+  static async getImports(userId: string): Promise<Omit<ImportBatch, 'rows'>[]> {
+    try {
+      const { data: batches, error } = await supabaseAdmin
+        .from('import_batches')
+        .select('id,user_id,format,filename,status,total_rows,imported_count,skipped_count,committed_at,undone_at,created_at,updated_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw createError('Failed to fetch imports', 500);
+      }
+
+      return (batches || []) as Omit<ImportBatch, 'rows'>[];
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get imports error:', error);
+      throw createError('Failed to fetch imports', 500);
+    }
+  }
+
+  /**
+   * Get a single import with its rows
+   */
+  static async getImport(userId: string, batchId: string): Promise<ImportBatch> {
+    try {
+      return await this.getOwnedBatch(userId, batchId);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get import error:', error);
+      throw createError('Failed to fetch import', 500);
+    }
+  }
+}
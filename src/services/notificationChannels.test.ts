@@ -0,0 +1,58 @@
+import { lookup } from 'dns/promises';
+import { assertPublicUrl } from './notificationChannels';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const mockLookup = lookup as unknown as jest.Mock;
+
+describe('assertPublicUrl', () => {
+  beforeEach(() => {
+    mockLookup.mockReset();
+  });
+
+  it('accepts an https URL whose host resolves to public addresses only', async () => {
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }, { address: '2606:2800:220:1::1', family: 6 }]);
+
+    await expect(assertPublicUrl('https://hooks.example.com/alerts')).resolves.toBeUndefined();
+    expect(mockLookup).toHaveBeenCalledWith('hooks.example.com', { all: true });
+  });
+
+  it('accepts a public IP literal without resolving it', async () => {
+    await expect(assertPublicUrl('https://93.184.216.34/hook')).resolves.toBeUndefined();
+    expect(mockLookup).not.toHaveBeenCalled();
+  });
+
+  it('rejects plain http', async () => {
+    await expect(assertPublicUrl('http://hooks.example.com/alerts')).rejects.toThrow('Webhook URL must use https');
+  });
+
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '224.0.0.1',
+    '[::1]',
+    '[fd00::1]',
+    '[fe80::1]',
+    '[::ffff:127.0.0.1]',
+    '[::ffff:a9fe:a9fe]'
+  ])('rejects the private address %s', async (host) => {
+    await expect(assertPublicUrl(`https://${host}/hook`)).rejects.toThrow('Webhook URL must point to a public host');
+  });
+
+  it('rejects a host with any private address among its records', async () => {
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }]);
+
+    await expect(assertPublicUrl('https://internal.example.com/')).rejects.toThrow('Webhook URL must point to a public host');
+  });
+
+  it('rejects a host that does not resolve', async () => {
+    mockLookup.mockRejectedValue(Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' }));
+
+    await expect(assertPublicUrl('https://nowhere.invalid/')).rejects.toThrow('Webhook URL host could not be resolved');
+  });
+});
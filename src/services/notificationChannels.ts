@@ -0,0 +1,144 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { Notification, NotificationChannel, NotificationChannelName, NotificationRecipient } from '../types';
+
+const DELIVERY_TIMEOUT_MS = 5000;
+
+/**
+ * Loopback, private, link-local, carrier-grade NAT, multicast and other non-public addresses
+ */
+const isPrivateAddress = (address: string): boolean => {
+  const ip = address.toLowerCase();
+
+  // IPv4-mapped IPv6, in dotted or hex form
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 198 && (b === 18 || b === 19));
+  }
+
+  return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || /^ff/.test(ip);
+};
+
+/**
+ * Check that a webhook URL is https and every address its host resolves to is public,
+ * so alert rules cannot be used to reach the server's own network
+ */
+export const assertPublicUrl = async (url: string): Promise<void> => {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'https:') {
+    throw new Error('Webhook URL must use https');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host)
+    ? [host]
+    : await lookup(host, { all: true })
+      .then((entries) => entries.map((entry) => entry.address))
+      .catch(() => { throw new Error('Webhook URL host could not be resolved'); });
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error('Webhook URL must point to a public host');
+  }
+};
+
+const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    // A redirect could lead to an address that was never checked
+    redirect: 'error',
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Delivery failed with status ${response.status}`);
+  }
+};
+
+/**
+ * Send an email through the HTTP mail relay (EMAIL_API_URL, EMAIL_API_KEY, EMAIL_FROM), or log it when
+ * delivery is stubbed (NOTIFICATION_DELIVERY=stub)
+ */
+export const sendEmail = async (to: string, subject: string, text: string): Promise<void> => {
+  if (process.env.NOTIFICATION_DELIVERY === 'stub') {
+    console.log(`📣 [email] ${to}: ${subject} - ${text}`);
+    return;
+  }
+
+  if (!process.env.EMAIL_API_URL) {
+    throw new Error('Email delivery is not configured');
+  }
+
+  await postJson(
+    process.env.EMAIL_API_URL,
+    { from: process.env.EMAIL_FROM, to, subject, text },
+    process.env.EMAIL_API_KEY ? { Authorization: `Bearer ${process.env.EMAIL_API_KEY}` } : {}
+  );
+};
+
+/**
+ * Sends the notification by email
+ */
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'email' as const;
+
+  async deliver(notification: Notification, recipient: NotificationRecipient): Promise<void> {
+    await sendEmail(recipient.email, notification.title, notification.message);
+  }
+}
+
+/**
+ * Posts the notification as JSON to the alert rule's webhook URL
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook' as const;
+
+  async deliver(notification: Notification, recipient: NotificationRecipient): Promise<void> {
+    if (!recipient.webhook_url) {
+      throw new Error('No webhook URL configured');
+    }
+
+    await assertPublicUrl(recipient.webhook_url);
+    await postJson(recipient.webhook_url, {
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      data: notification.data,
+      created_at: notification.created_at
+    });
+  }
+}
+
+/**
+ * Logs instead of sending, for local development (NOTIFICATION_DELIVERY=stub)
+ */
+export class StubChannel implements NotificationChannel {
+  constructor(readonly name: NotificationChannelName) {}
+
+  async deliver(notification: Notification, recipient: NotificationRecipient): Promise<void> {
+    const target = this.name === 'email' ? recipient.email : recipient.webhook_url;
+    console.log(`📣 [${this.name}] ${target}: ${notification.title} - ${notification.message}`);
+  }
+}
+
+export const defaultChannels = (): NotificationChannel[] => {
+  if (process.env.NOTIFICATION_DELIVERY === 'stub') {
+    return [new StubChannel('email'), new StubChannel('webhook')];
+  }
+
+  return [new EmailChannel(), new WebhookChannel()];
+};
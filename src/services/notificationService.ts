@@ -0,0 +1,266 @@
+import { supabaseAdmin } from '../config/database';
+import {
+  AlertRule,
+  Notification,
+  NotificationChannel,
+  NotificationContent,
+  NotificationDelivery,
+  NotificationQuery
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+import { defaultChannels } from './notificationChannels';
+
+export class NotificationService {
+  private static readonly channels = new Map<string, NotificationChannel>(
+    defaultChannels().map((channel) => [channel.name, channel])
+  );
+
+  /**
+   * Add or replace a delivery channel (e.g. a stub in local development)
+   */
+  static registerChannel(channel: NotificationChannel): void {
+    this.channels.set(channel.name, channel);
+  }
+
+  /**
+   * Put a notification in the user's inbox and deliver it over the rule's channels.
+   * Returns null when a notification with the same dedupe key was already sent.
+   */
+  static async notify(userId: string, rule: AlertRule | null, content: NotificationContent): Promise<Notification | null> {
+    const { data: notification, error } = await supabaseAdmin
+      .from('notifications')
+      .insert({
+        user_id: userId,
+        alert_rule_id: rule?.id || null,
+        type: content.type,
+        title: content.title,
+        message: content.message,
+        data: content.data,
+        dedupe_key: content.dedupe_key
+      })
+      .select()
+      .single();
+
+    // 23505 = unique violation on (user_id, dedupe_key): this occurrence was already notified
+    if (error && error.code === '23505') {
+      return null;
+    }
+
+    if (error || !notification) {
+      throw createError('Failed to create notification', 500);
+    }
+
+    if (!rule || rule.channels.length === 0) {
+      return notification as Notification;
+    }
+
+    const { data: user, error: userError } = await supabaseAdmin
+      .from('users')
+      .select('email,name,is_active')
+      .eq('id', userId)
+      .single();
+
+    if (userError || !user) {
+      throw createError('Failed to deliver notification', 500);
+    }
+
+    // Nothing is sent out for an account that is being deleted
+    if (!user.is_active) {
+      return notification as Notification;
+    }
+
+    // A failing channel is recorded on the notification rather than failing the alert
+    const deliveries: NotificationDelivery[] = [];
+    for (const name of rule.channels) {
+      const channel = this.channels.get(name);
+      try {
+        if (!channel) {
+          throw new Error(`Unknown channel ${name}`);
+        }
+        await channel.deliver(notification as Notification, { email: user.email, name: user.name, webhook_url: rule.webhook_url });
+        deliveries.push({ channel: name, status: 'sent', attempted_at: new Date().toISOString() });
+      } catch (deliveryError) {
+        console.error(`Notification delivery over ${name} failed:`, deliveryError);
+        deliveries.push({
+          channel: name,
+          status: 'failed',
+          error: deliveryError instanceof Error ? deliveryError.message : String(deliveryError),
+          attempted_at: new Date().toISOString()
+        });
+      }
+    }
+
+    const { data: delivered, error: updateError } = await supabaseAdmin
+      .from('notifications')
+      .update({ deliveries })
+      .eq('id', notification.id)
+      .select()
+      .single();
+
+    if (updateError || !delivered) {
+      throw createError('Failed to record notification delivery', 500);
+    }
+
+    return delivered as Notification;
+  }
+
+  /**
+   * Get the user's notifications, newest first
+   */
+  static async getNotifications(userId: string, query: NotificationQuery): Promise<{ notifications: Notification[]; total: number }> {
+    try {
+      let request = supabaseAdmin
+        .from('notifications')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId);
+
+      if (query.unread) request = request.is('read_at', null);
+      if (!query.include_dismissed) request = request.is('dismissed_at', null);
+
+      const offset = (query.page - 1) * query.limit;
+      const { data, error, count } = await request
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(offset, offset + query.limit - 1);
+
+      if (error) {
+        throw createError('Failed to fetch notifications', 500);
+      }
+
+      return { notifications: (data || []) as Notification[], total: count || 0 };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get notifications error:', error);
+      throw createError('Failed to fetch notifications', 500);
+    }
+  }
+
+  /**
+   * Count the user's unread notifications that have not been dismissed
+   */
+  static async getUnreadCount(userId: string): Promise<number> {
+    try {
+      const { count, error } = await supabaseAdmin
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null)
+        .is('dismissed_at', null);
+
+      if (error) {
+        throw createError('Failed to count notifications', 500);
+      }
+
+      return count || 0;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Count notifications error:', error);
+      throw createError('Failed to count notifications', 500);
+    }
+  }
+
+  /**
+   * Mark a notification as read
+   */
+  static async markRead(userId: string, notificationId: string): Promise<Notification> {
+    try {
+      const { data: existing, error: findError } = await supabaseAdmin
+        .from('notifications')
+        .select('*')
+        .eq('id', notificationId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (findError) {
+        throw createError('Failed to update notification', 500);
+      }
+
+      if (!existing) {
+        throw createError('Notification not found', 404);
+      }
+
+      if (existing.read_at) {
+        return existing as Notification;
+      }
+
+      const { data: notification, error } = await supabaseAdmin
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', notificationId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error || !notification) {
+        throw createError('Failed to update notification', 500);
+      }
+
+      return notification as Notification;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Mark notification read error:', error);
+      throw createError('Failed to update notification', 500);
+    }
+  }
+
+  /**
+   * Mark all of the user's unread notifications as read, returning how many changed
+   */
+  static async markAllRead(userId: string): Promise<number> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null)
+        .select('id');
+
+      if (error) {
+        throw createError('Failed to update notifications', 500);
+      }
+
+      return (data || []).length;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Mark all notifications read error:', error);
+      throw createError('Failed to update notifications', 500);
+    }
+  }
+
+  /**
+   * Dismiss a notification so it no longer shows in the inbox
+   */
+  static async dismiss(userId: string, notificationId: string): Promise<void> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('notifications')
+        .update({ dismissed_at: new Date().toISOString() })
+        .eq('id', notificationId)
+        .eq('user_id', userId)
+        .select('id')
+        .maybeSingle();
+
+      if (error) {
+        throw createError('Failed to dismiss notification', 500);
+      }
+
+      if (!data) {
+        throw createError('Notification not found', 404);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Dismiss notification error:', error);
+      throw createError('Failed to dismiss notification', 500);
+    }
+  }
+}
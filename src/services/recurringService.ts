@@ -0,0 +1,400 @@
+import { supabaseAdmin } from '../config/database';
+import {
+  CreateRecurringRuleRequest,
+  RecurringRule,
+  UpcomingOccurrence,
+  UpdateRecurringRuleRequest
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+import { BudgetService } from './budgetService';
+import { DEFAULT_TIMEZONE, addDays, addMonths, toLocalDate } from '../utils/date';
+
+export class RecurringService {
+  // Upper bound on occurrences materialized for one rule in a single run (e.g. a rule backdated years)
+  private static readonly MAX_CATCH_UP = 100;
+
+  /**
+   * Date of the occurrence after `date` for the rule's schedule
+   */
+  private static advance(rule: Pick<RecurringRule, 'frequency' | 'interval' | 'start_date'>, date: string): string {
+    const anchorDay = Number(rule.start_date.slice(8, 10));
+    switch (rule.frequency) {
+      case 'daily':
+        return addDays(date, rule.interval);
+      case 'weekly':
+        return addDays(date, rule.interval * 7);
+      case 'monthly':
+        return addMonths(date, rule.interval, anchorDay);
+      case 'yearly':
+        return addMonths(date, rule.interval * 12, anchorDay);
+      default:
+        throw createError(`Unsupported frequency: ${rule.frequency}`, 400);
+    }
+  }
+
+  /**
+   * First occurrence strictly after `after` (or the start date when nothing has been created yet),
+   * or null once the end date or occurrence limit has been reached
+   */
+  private static firstOccurrenceAfter(
+    rule: Pick<RecurringRule, 'frequency' | 'interval' | 'start_date' | 'end_date' | 'max_occurrences' | 'occurrences_created'>,
+    after: string | null
+  ): string | null {
+    if (rule.max_occurrences !== null && rule.occurrences_created >= rule.max_occurrences) {
+      return null;
+    }
+
+    let next = rule.start_date;
+    while (after && next <= after) {
+      next = this.advance(rule, next);
+    }
+
+    if (rule.end_date && next > rule.end_date) {
+      return null;
+    }
+
+    return next;
+  }
+
+  private static async getOwnedRule(userId: string, ruleId: string): Promise<RecurringRule> {
+    const { data: rule, error } = await supabaseAdmin
+      .from('recurring_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to fetch recurring rule', 500);
+    }
+
+    if (!rule) {
+      throw createError('Recurring rule not found', 404);
+    }
+
+    return rule as RecurringRule;
+  }
+
+  /**
+   * Create transactions for every due occurrence of a rule up to `today` and advance the rule
+   */
+  private static async materializeRule(rule: RecurringRule, today: string): Promise<number> {
+    let next = rule.next_occurrence;
+    let occurrencesCreated = rule.occurrences_created;
+    let lastOccurrence = rule.last_occurrence;
+    let created = 0;
+    let processed = 0;
+
+    while (next && next <= today && processed < this.MAX_CATCH_UP) {
+      try {
+        await BudgetService.createTransaction(rule.user_id, {
+          category_id: rule.category_id,
+          category_name: rule.category_name,
+          type: rule.type,
+          amount: Number(rule.amount),
+          description: rule.description,
+          date: next
+        }, { recurringRuleId: rule.id });
+        created++;
+      } catch (error) {
+        // 409 = already materialized or the month is closed; either way this occurrence is done
+        if (!(error instanceof Error && 'statusCode' in error && (error as { statusCode?: number }).statusCode === 409)) {
+          throw error;
+        }
+      }
+
+      processed++;
+      occurrencesCreated++;
+      lastOccurrence = next;
+      next = this.firstOccurrenceAfter({ ...rule, occurrences_created: occurrencesCreated }, next);
+    }
+
+    if (processed > 0) {
+      const { error } = await supabaseAdmin
+        .from('recurring_rules')
+        .update({
+          next_occurrence: next,
+          last_occurrence: lastOccurrence,
+          occurrences_created: occurrencesCreated,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', rule.id);
+
+      if (error) {
+        throw createError('Failed to update recurring rule', 500);
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Get user's recurring rules
+   */
+  static async getRules(userId: string): Promise<RecurringRule[]> {
+    try {
+      const { data: rules, error } = await supabaseAdmin
+        .from('recurring_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .order('next_occurrence', { ascending: true, nullsFirst: false });
+
+      if (error) {
+        throw createError('Failed to fetch recurring rules', 500);
+      }
+
+      return (rules || []) as RecurringRule[];
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get recurring rules error:', error);
+      throw createError('Failed to fetch recurring rules', 500);
+    }
+  }
+
+  /**
+   * Get a single recurring rule
+   */
+  static async getRule(userId: string, ruleId: string): Promise<RecurringRule> {
+    try {
+      return await this.getOwnedRule(userId, ruleId);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get recurring rule error:', error);
+      throw createError('Failed to fetch recurring rule', 500);
+    }
+  }
+
+  /**
+   * Create a recurring rule and materialize any occurrences that are already due
+   */
+  static async createRule(userId: string, ruleData: CreateRecurringRuleRequest): Promise<RecurringRule> {
+    try {
+      const resolved = await BudgetService.resolveCategoryId(userId, ruleData.category_id, ruleData.category_name);
+      if (!resolved) {
+        throw createError('Unknown category. Provide a valid category_id or category_name.', 400);
+      }
+
+      const schedule = {
+        frequency: ruleData.frequency,
+        interval: ruleData.interval || 1,
+        start_date: ruleData.start_date,
+        end_date: ruleData.end_date ?? null,
+        max_occurrences: ruleData.max_occurrences ?? null,
+        occurrences_created: 0
+      };
+
+      const { data: rule, error } = await supabaseAdmin
+        .from('recurring_rules')
+        .insert({
+          user_id: userId,
+          category_id: resolved.id,
+          category_name: resolved.name,
+          type: ruleData.type || 'expense',
+          amount: ruleData.amount,
+          description: ruleData.description,
+          ...schedule,
+          next_occurrence: this.firstOccurrenceAfter(schedule, null),
+          is_active: true
+        })
+        .select()
+        .single();
+
+      if (error || !rule) {
+        throw createError('Failed to create recurring rule', 500);
+      }
+
+      const today = toLocalDate(new Date(), await BudgetService.getUserTimeZone(userId));
+      if (await this.materializeRule(rule as RecurringRule, today) > 0) {
+        return await this.getOwnedRule(userId, rule.id);
+      }
+
+      return rule as RecurringRule;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Create recurring rule error:', error);
+      throw createError('Failed to create recurring rule', 500);
+    }
+  }
+
+  /**
+   * Update a recurring rule. Schedule changes take effect from the day after the last occurrence.
+   */
+  static async updateRule(userId: string, ruleId: string, updates: UpdateRecurringRuleRequest): Promise<RecurringRule> {
+    try {
+      const existing = await this.getOwnedRule(userId, ruleId);
+
+      let categoryId = existing.category_id;
+      let categoryName = existing.category_name;
+      if (updates.category_id || updates.category_name) {
+        const resolved = await BudgetService.resolveCategoryId(userId, updates.category_id, updates.category_name);
+        if (!resolved) {
+          throw createError('Unknown category. Provide a valid category_id or category_name.', 400);
+        }
+        categoryId = resolved.id;
+        categoryName = resolved.name;
+      }
+
+      const schedule = {
+        frequency: updates.frequency ?? existing.frequency,
+        interval: updates.interval ?? existing.interval,
+        start_date: updates.start_date ?? existing.start_date,
+        end_date: updates.end_date !== undefined ? updates.end_date : existing.end_date,
+        max_occurrences: updates.max_occurrences !== undefined ? updates.max_occurrences : existing.max_occurrences,
+        occurrences_created: existing.occurrences_created
+      };
+
+      const { data: rule, error } = await supabaseAdmin
+        .from('recurring_rules')
+        .update({
+          category_id: categoryId,
+          category_name: categoryName,
+          type: updates.type ?? existing.type,
+          amount: updates.amount ?? existing.amount,
+          description: updates.description ?? existing.description,
+          ...schedule,
+          next_occurrence: this.firstOccurrenceAfter(schedule, existing.last_occurrence),
+          is_active: updates.is_active ?? existing.is_active,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', ruleId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error || !rule) {
+        throw createError('Failed to update recurring rule', 500);
+      }
+
+      return rule as RecurringRule;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Update recurring rule error:', error);
+      throw createError('Failed to update recurring rule', 500);
+    }
+  }
+
+  /**
+   * Delete a recurring rule. Transactions it already created are kept.
+   */
+  static async deleteRule(userId: string, ruleId: string): Promise<void> {
+    try {
+      await this.getOwnedRule(userId, ruleId);
+
+      const { error } = await supabaseAdmin
+        .from('recurring_rules')
+        .delete()
+        .eq('id', ruleId)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw createError('Failed to delete recurring rule', 500);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Delete recurring rule error:', error);
+      throw createError('Failed to delete recurring rule', 500);
+    }
+  }
+
+  /**
+   * Preview occurrences of the user's active rules over the next `days` days (nothing is created)
+   */
+  static async getUpcoming(userId: string, days: number): Promise<UpcomingOccurrence[]> {
+    try {
+      const today = toLocalDate(new Date(), await BudgetService.getUserTimeZone(userId));
+      const until = addDays(today, days);
+
+      const { data: rules, error } = await supabaseAdmin
+        .from('recurring_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .not('next_occurrence', 'is', null)
+        .lte('next_occurrence', until);
+
+      if (error) {
+        throw createError('Failed to fetch upcoming bills', 500);
+      }
+
+      const upcoming: UpcomingOccurrence[] = [];
+      for (const rule of (rules || []) as RecurringRule[]) {
+        let next = rule.next_occurrence;
+        let occurrencesCreated = rule.occurrences_created;
+
+        while (next && next <= until) {
+          upcoming.push({
+            rule_id: rule.id,
+            date: next,
+            description: rule.description,
+            category_id: rule.category_id,
+            category_name: rule.category_name,
+            type: rule.type,
+            amount: Number(rule.amount)
+          });
+          occurrencesCreated++;
+          next = this.firstOccurrenceAfter({ ...rule, occurrences_created: occurrencesCreated }, next);
+        }
+      }
+
+      return upcoming.sort((a, b) => a.date.localeCompare(b.date));
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get upcoming bills error:', error);
+      throw createError('Failed to fetch upcoming bills', 500);
+    }
+  }
+
+  /**
+   * Materialize due occurrences for all users' active rules (used by the scheduler)
+   */
+  static async materializeDueOccurrences(): Promise<number> {
+    // Timezones run at most 14 hours ahead of UTC, so nothing later than tomorrow (UTC) can be due
+    const horizon = addDays(toLocalDate(new Date()), 1);
+
+    const { data: rules, error } = await supabaseAdmin
+      .from('recurring_rules')
+      .select('*')
+      .eq('is_active', true)
+      .not('next_occurrence', 'is', null)
+      .lte('next_occurrence', horizon);
+
+    if (error) {
+      throw createError('Failed to load due recurring rules', 500);
+    }
+
+    const dueRules = (rules || []) as RecurringRule[];
+    const userIds = [...new Set(dueRules.map((rule) => rule.user_id))];
+    const { data: users, error: usersError } = userIds.length > 0
+      ? await supabaseAdmin.from('users').select('id,timezone').in('id', userIds)
+      : { data: [], error: null };
+
+    if (usersError) {
+      throw createError('Failed to load due recurring rules', 500);
+    }
+
+    const userToday = new Map((users || []).map((u) => [u.id, toLocalDate(new Date(), u.timezone || DEFAULT_TIMEZONE)]));
+
+    let created = 0;
+    for (const rule of dueRules) {
+      try {
+        created += await this.materializeRule(rule, userToday.get(rule.user_id) || toLocalDate(new Date()));
+      } catch (error) {
+        console.error(`Recurring rule ${rule.id} failed to materialize:`, error);
+      }
+    }
+
+    return created;
+  }
+}
@@ -0,0 +1,351 @@
+import { supabaseAdmin } from '../config/database';
+import {
+  CreateSavingsContributionRequest,
+  CreateSavingsGoalRequest,
+  SavingsContribution,
+  SavingsGoal,
+  SavingsGoalProgress,
+  UpdateSavingsGoalRequest
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+import { BudgetService } from './budgetService';
+import { toLocalDate } from '../utils/date';
+
+// Contributions whose transaction is in the trash do not count towards the balance
+const CONTRIBUTION_COLUMNS = 'id,user_id,savings_goal_id,transaction_id,kind,amount,date,created_at,transactions!inner(deleted_at)';
+
+export class SavingsGoalService {
+  private static readonly SAVINGS_CATEGORY = 'Savings';
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private static monthsBetween(from: string, to: string): number {
+    return (Number(to.slice(0, 4)) - Number(from.slice(0, 4))) * 12 + Number(to.slice(5, 7)) - Number(from.slice(5, 7));
+  }
+
+  private static async getOwnedGoal(userId: string, goalId: string): Promise<SavingsGoal> {
+    const { data: goal, error } = await supabaseAdmin
+      .from('savings_goals')
+      .select('*')
+      .eq('id', goalId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to fetch savings goal', 500);
+    }
+
+    if (!goal) {
+      throw createError('Savings goal not found', 404);
+    }
+
+    return goal as SavingsGoal;
+  }
+
+  private static async getContributions(userId: string, goalIds: string[]): Promise<SavingsContribution[]> {
+    if (goalIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('savings_contributions')
+      .select(CONTRIBUTION_COLUMNS)
+      .eq('user_id', userId)
+      .in('savings_goal_id', goalIds)
+      .is('transactions.deleted_at', null)
+      .order('date', { ascending: false });
+
+    if (error) {
+      throw createError('Failed to fetch savings contributions', 500);
+    }
+
+    return (data || []).map(({ transactions: _transaction, ...contribution }) => contribution as SavingsContribution);
+  }
+
+  /**
+   * Balance, required monthly contribution and on-track status of a goal as of `today`
+   */
+  private static withProgress(goal: SavingsGoal, contributions: SavingsContribution[], today: string): SavingsGoalProgress {
+    const target = Number(goal.target_amount);
+    const balance = this.round(contributions.reduce(
+      (sum, c) => sum + (c.kind === 'withdrawal' ? -Number(c.amount) : Number(c.amount)), 0
+    ));
+    const remaining = this.round(Math.max(target - balance, 0));
+
+    let monthsRemaining: number | null = null;
+    let requiredMonthly: number | null = null;
+    let expectedBalance: number | null = null;
+    let status: SavingsGoalProgress['status'] = remaining === 0 ? 'completed' : 'no_target_date';
+
+    if (goal.target_date) {
+      monthsRemaining = Math.max(this.monthsBetween(today, goal.target_date) + 1, 0);
+      requiredMonthly = remaining === 0 ? 0 : this.round(remaining / Math.max(monthsRemaining, 1));
+
+      // A steady saver would have put aside a share of the target proportional to the time elapsed
+      const start = toLocalDate(goal.created_at);
+      const total = new Date(goal.target_date).getTime() - new Date(start).getTime();
+      const elapsed = new Date(today).getTime() - new Date(start).getTime();
+      const fraction = total > 0 ? Math.min(Math.max(elapsed / total, 0), 1) : 1;
+      expectedBalance = this.round(target * fraction);
+
+      if (remaining > 0) {
+        status = balance >= expectedBalance ? 'on_track' : 'behind';
+      }
+    }
+
+    return {
+      ...goal,
+      balance,
+      remaining,
+      percent_complete: target > 0 ? this.round(Math.min((balance / target) * 100, 100)) : 100,
+      months_remaining: monthsRemaining,
+      required_monthly_contribution: requiredMonthly,
+      expected_balance: expectedBalance,
+      status
+    };
+  }
+
+  private static async getUserToday(userId: string): Promise<string> {
+    return toLocalDate(new Date(), await BudgetService.getUserTimeZone(userId));
+  }
+
+  /**
+   * Get user's savings goals with their progress
+   */
+  static async getGoals(userId: string, includeArchived: boolean = false): Promise<SavingsGoalProgress[]> {
+    try {
+      let request = supabaseAdmin
+        .from('savings_goals')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (!includeArchived) {
+        request = request.eq('is_archived', false);
+      }
+
+      const { data: goals, error } = await request.order('created_at', { ascending: true });
+
+      if (error) {
+        throw createError('Failed to fetch savings goals', 500);
+      }
+
+      const contributions = await this.getContributions(userId, (goals || []).map((goal) => goal.id));
+      const today = await this.getUserToday(userId);
+
+      return ((goals || []) as SavingsGoal[]).map((goal) => this.withProgress(
+        goal,
+        contributions.filter((c) => c.savings_goal_id === goal.id),
+        today
+      ));
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get savings goals error:', error);
+      throw createError('Failed to fetch savings goals', 500);
+    }
+  }
+
+  /**
+   * Get a savings goal with its progress and contribution history
+   */
+  static async getGoal(userId: string, goalId: string): Promise<SavingsGoalProgress> {
+    try {
+      const goal = await this.getOwnedGoal(userId, goalId);
+      const contributions = await this.getContributions(userId, [goal.id]);
+
+      return {
+        ...this.withProgress(goal, contributions, await this.getUserToday(userId)),
+        contributions
+      };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get savings goal error:', error);
+      throw createError('Failed to fetch savings goal', 500);
+    }
+  }
+
+  /**
+   * Create a savings goal
+   */
+  static async createGoal(userId: string, goalData: CreateSavingsGoalRequest): Promise<SavingsGoalProgress> {
+    try {
+      const { data: goal, error } = await supabaseAdmin
+        .from('savings_goals')
+        .insert({
+          user_id: userId,
+          name: goalData.name,
+          target_amount: goalData.target_amount,
+          target_date: goalData.target_date ?? null,
+          is_archived: false
+        })
+        .select()
+        .single();
+
+      if (error || !goal) {
+        throw createError('Failed to create savings goal', 500);
+      }
+
+      return this.withProgress(goal as SavingsGoal, [], await this.getUserToday(userId));
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Create savings goal error:', error);
+      throw createError('Failed to create savings goal', 500);
+    }
+  }
+
+  /**
+   * Update a savings goal
+   */
+  static async updateGoal(userId: string, goalId: string, updates: UpdateSavingsGoalRequest): Promise<SavingsGoalProgress> {
+    try {
+      const existing = await this.getOwnedGoal(userId, goalId);
+
+      const { error } = await supabaseAdmin
+        .from('savings_goals')
+        .update({
+          name: updates.name ?? existing.name,
+          target_amount: updates.target_amount ?? existing.target_amount,
+          target_date: updates.target_date !== undefined ? updates.target_date : existing.target_date,
+          is_archived: updates.is_archived ?? existing.is_archived,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', goalId)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw createError('Failed to update savings goal', 500);
+      }
+
+      return await this.getGoal(userId, goalId);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Update savings goal error:', error);
+      throw createError('Failed to update savings goal', 500);
+    }
+  }
+
+  /**
+   * Delete a savings goal. Its transfer transactions are kept.
+   */
+  static async deleteGoal(userId: string, goalId: string): Promise<void> {
+    try {
+      await this.getOwnedGoal(userId, goalId);
+
+      const { error } = await supabaseAdmin
+        .from('savings_goals')
+        .delete()
+        .eq('id', goalId)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw createError('Failed to delete savings goal', 500);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Delete savings goal error:', error);
+      throw createError('Failed to delete savings goal', 500);
+    }
+  }
+
+  /**
+   * Record a contribution or withdrawal as a transfer transaction linked to the goal
+   */
+  static async addContribution(
+    userId: string,
+    goalId: string,
+    contributionData: CreateSavingsContributionRequest
+  ): Promise<SavingsGoalProgress> {
+    try {
+      const goal = await this.getOwnedGoal(userId, goalId);
+      const kind = contributionData.kind || 'contribution';
+
+      if (kind === 'withdrawal') {
+        const { balance } = this.withProgress(goal, await this.getContributions(userId, [goal.id]), await this.getUserToday(userId));
+        if (Number(contributionData.amount) > balance) {
+          throw createError(`Cannot withdraw more than the goal's balance of ${balance.toFixed(2)}`, 400);
+        }
+      }
+
+      const transaction = await BudgetService.createTransaction(userId, {
+        category_name: this.SAVINGS_CATEGORY,
+        type: 'transfer',
+        amount: contributionData.amount,
+        description: contributionData.description
+          || (kind === 'withdrawal' ? `Withdrawal from ${goal.name}` : `Contribution to ${goal.name}`),
+        date: contributionData.date
+      });
+
+      const { error } = await supabaseAdmin
+        .from('savings_contributions')
+        .insert({
+          user_id: userId,
+          savings_goal_id: goal.id,
+          transaction_id: transaction.id,
+          kind,
+          amount: transaction.amount,
+          date: transaction.date
+        });
+
+      if (error) {
+        // Do not leave an orphaned transfer behind
+        await BudgetService.deleteTransactions(userId, [transaction.id]);
+        throw createError('Failed to record savings contribution', 500);
+      }
+
+      return await this.getGoal(userId, goalId);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Add savings contribution error:', error);
+      throw createError('Failed to record savings contribution', 500);
+    }
+  }
+
+  /**
+   * Remove a contribution or withdrawal by deleting (soft) its transaction; restoring the transaction brings it back
+   */
+  static async deleteContribution(userId: string, goalId: string, contributionId: string): Promise<SavingsGoalProgress> {
+    try {
+      await this.getOwnedGoal(userId, goalId);
+
+      const { data: contribution, error } = await supabaseAdmin
+        .from('savings_contributions')
+        .select('transaction_id,transactions!inner(deleted_at)')
+        .eq('id', contributionId)
+        .eq('savings_goal_id', goalId)
+        .eq('user_id', userId)
+        .is('transactions.deleted_at', null)
+        .maybeSingle();
+
+      if (error) {
+        throw createError('Failed to fetch savings contribution', 500);
+      }
+
+      if (!contribution) {
+        throw createError('Savings contribution not found', 404);
+      }
+
+      await BudgetService.deleteTransactions(userId, [contribution.transaction_id]);
+
+      return await this.getGoal(userId, goalId);
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Delete savings contribution error:', error);
+      throw createError('Failed to delete savings contribution', 500);
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import jwt from 'jsonwebtoken';
+import { supabaseAdmin } from '../config/database';
+import { SessionClient, UserSession } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/okhttp|CFNetwork|Expo/i, 'App']
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iOS|CFNetwork|Darwin/, 'iOS'],
+  [/Android|okhttp/i, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+export class SessionService {
+  // How often a session's last_seen_at is written while it is being used
+  private static readonly TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+  /**
+   * The Supabase Auth session a (Supabase) access token belongs to
+   */
+  static sessionIdOf(accessToken: string): string | null {
+    const payload = jwt.decode(accessToken);
+    return payload && typeof payload === 'object' && typeof payload.session_id === 'string' ? payload.session_id : null;
+  }
+
+  /**
+   * A readable device name such as "Chrome on macOS"
+   */
+  private static describeDevice(userAgent?: string): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    if (browser && platform) return `${browser} on ${platform}`;
+    return browser || platform || 'Unknown device';
+  }
+
+  /**
+   * Record the session behind a new access token with the device it was opened on
+   */
+  static async recordSession(userId: string, accessToken: string, client: SessionClient): Promise<void> {
+    const sessionId = this.sessionIdOf(accessToken);
+    if (!sessionId) {
+      return;
+    }
+
+    const { error } = await supabaseAdmin
+      .from('user_sessions')
+      .upsert({
+        user_id: userId,
+        session_id: sessionId,
+        device_name: client.device_name || this.describeDevice(client.user_agent),
+        user_agent: client.user_agent || null,
+        ip_address: client.ip_address || null,
+        last_seen_at: new Date().toISOString()
+      }, { onConflict: 'session_id' });
+
+    if (error) {
+      throw createError('Failed to record session', 500);
+    }
+  }
+
+  /**
+   * Note a refreshed session's latest address, or record it if it predates session tracking.
+   * Returns false when the session has been revoked.
+   */
+  static async refreshSession(userId: string, accessToken: string, client: SessionClient): Promise<boolean> {
+    const sessionId = this.sessionIdOf(accessToken);
+    if (!sessionId) {
+      return true;
+    }
+
+    const { data: session, error } = await supabaseAdmin
+      .from('user_sessions')
+      .select('id,revoked_at')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to check session', 500);
+    }
+
+    if (!session) {
+      await this.recordSession(userId, accessToken, client);
+      return true;
+    }
+
+    if (session.revoked_at) {
+      return false;
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('user_sessions')
+      .update({
+        ip_address: client.ip_address || null,
+        last_seen_at: new Date().toISOString()
+      })
+      .eq('id', session.id);
+
+    if (updateError) {
+      throw createError('Failed to record session', 500);
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether the session behind an access token may still be used, noting that it was seen.
+   * A session seen for the first time (e.g. one opened before sessions were recorded) is recorded,
+   * so it can be listed and revoked from then on.
+   */
+  static async isActive(userId: string, accessToken: string, client: SessionClient): Promise<boolean> {
+    const sessionId = this.sessionIdOf(accessToken);
+    if (!sessionId) {
+      return false;
+    }
+
+    const { data: session, error } = await supabaseAdmin
+      .from('user_sessions')
+      .select('id,last_seen_at,revoked_at')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      throw createError('Failed to check session', 500);
+    }
+
+    if (!session) {
+      await this.recordSession(userId, accessToken, client);
+      return true;
+    }
+
+    if (session.revoked_at) {
+      return false;
+    }
+
+    if (Date.now() - new Date(session.last_seen_at).getTime() > this.TOUCH_INTERVAL_MS) {
+      const { error: touchError } = await supabaseAdmin
+        .from('user_sessions')
+        .update({ last_seen_at: new Date().toISOString() })
+        .eq('id', session.id);
+
+      if (touchError) {
+        console.error('Touch session error:', touchError);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Get the user's active sessions, most recently used first
+   */
+  static async getSessions(userId: string, currentSessionId?: string | null): Promise<UserSession[]> {
+    try {
+      const { data: sessions, error } = await supabaseAdmin
+        .from('user_sessions')
+        .select('id,session_id,device_name,user_agent,ip_address,created_at,last_seen_at')
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .order('last_seen_at', { ascending: false });
+
+      if (error) {
+        throw createError('Failed to fetch sessions', 500);
+      }
+
+      // The Supabase session id stays server-side; sessions are addressed by their own id
+      return (sessions || []).map(({ session_id, ...session }) => ({
+        ...session,
+        current: session_id === currentSessionId
+      }));
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get sessions error:', error);
+      throw createError('Failed to fetch sessions', 500);
+    }
+  }
+
+  /**
+   * Revoke one of the user's sessions. Its access tokens are refused straight away and it is ended in
+   * Supabase Auth the next time it tries to refresh.
+   */
+  static async revokeSession(userId: string, id: string): Promise<void> {
+    try {
+      if (!UUID_PATTERN.test(id)) {
+        throw createError('Session not found', 404);
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('user_sessions')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .select('id')
+        .maybeSingle();
+
+      if (error) {
+        throw createError('Failed to revoke session', 500);
+      }
+
+      if (!data) {
+        throw createError('Session not found', 404);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Revoke session error:', error);
+      throw createError('Failed to revoke session', 500);
+    }
+  }
+
+  /**
+   * Revoke all of the user's sessions (after a password change or reset). Given one of the user's access tokens,
+   * Supabase Auth signs them out as well, including sessions never recorded here; `keepCurrent` spares that
+   * token's own session.
+   */
+  static async revokeAllSessions(userId: string, accessToken?: string, keepCurrent: boolean = false): Promise<void> {
+    if (accessToken) {
+      const { error: signOutError } = await supabaseAdmin.auth.admin.signOut(accessToken, keepCurrent ? 'others' : 'global');
+      // 401/404 = the token's session is already gone
+      if (signOutError && signOutError.status !== 401 && signOutError.status !== 404) {
+        throw createError('Failed to revoke sessions', 500);
+      }
+    }
+
+    const exceptSessionId = keepCurrent && accessToken ? this.sessionIdOf(accessToken) : null;
+    let request = supabaseAdmin
+      .from('user_sessions')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('revoked_at', null);
+
+    if (exceptSessionId) request = request.neq('session_id', exceptSessionId);
+
+    const { error } = await request;
+
+    if (error) {
+      throw createError('Failed to revoke sessions', 500);
+    }
+  }
+
+  /**
+   * Sign out the session an access token belongs to, in Supabase Auth and here
+   */
+  static async endSession(accessToken: string): Promise<void> {
+    try {
+      const { error } = await supabaseAdmin.auth.admin.signOut(accessToken, 'local');
+      // 401/404 = the session is already gone
+      if (error && error.status !== 401 && error.status !== 404) {
+        throw createError('Failed to sign out', 500);
+      }
+
+      const sessionId = this.sessionIdOf(accessToken);
+      if (!sessionId) {
+        return;
+      }
+
+      const { error: revokeError } = await supabaseAdmin
+        .from('user_sessions')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('session_id', sessionId)
+        .is('revoked_at', null);
+
+      if (revokeError) {
+        throw createError('Failed to sign out', 500);
+      }
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('End session error:', error);
+      throw createError('Failed to sign out', 500);
+    }
+  }
+}
@@ -0,0 +1,350 @@
+import { supabaseAdmin } from '../config/database';
+import { AccountDeletion, UpdatePreferencesRequest, UpdateProfileRequest, User } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { AuthService } from './authService';
+
+// Household tables whose rows record the member who entered them
+const HOUSEHOLD_TABLES = ['categories', 'monthly_goals', 'transactions', 'monthly_history'];
+
+// Every users column except password
+const USER_COLUMNS = 'id,email,name,timezone,base_currency,locale,week_start,pending_email,deleted_at,is_active,created_at,updated_at';
+
+export class UserService {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  private static preferenceChanges(preferences: UpdatePreferencesRequest): Partial<User> {
+    return {
+      ...(preferences.timezone ? { timezone: preferences.timezone } : {}),
+      ...(preferences.base_currency ? { base_currency: preferences.base_currency } : {}),
+      ...(preferences.locale ? { locale: preferences.locale } : {}),
+      ...(preferences.week_start !== undefined ? { week_start: preferences.week_start } : {})
+    };
+  }
+
+  /**
+   * Get the user's profile and preferences
+   */
+  static async getProfile(userId: string): Promise<User> {
+    try {
+      const { data: user, error } = await supabaseAdmin
+        .from('users')
+        .select(USER_COLUMNS)
+        .eq('id', userId)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (error) {
+        throw createError('Failed to fetch profile', 500);
+      }
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      return user as User;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Get profile error:', error);
+      throw createError('Failed to fetch profile', 500);
+    }
+  }
+
+  /**
+   * Update the user's name, email and preferences. A new email is only used once it has been confirmed
+   * through Supabase Auth; until then it is reported as pending_email.
+   */
+  static async updateProfile(userId: string, accessToken: string | undefined, updates: UpdateProfileRequest): Promise<User> {
+    try {
+      const current = await this.getProfile(userId);
+      const changes: Partial<User> = this.preferenceChanges(updates);
+
+      const name = updates.name?.trim();
+      if (name && name !== current.name) {
+        changes.name = name;
+      }
+
+      const email = updates.email?.toLowerCase();
+      if (email && email !== current.email) {
+        if (!accessToken) {
+          throw createError('Please sign in again to change your email', 401);
+        }
+
+        const { data: taken, error: takenError } = await supabaseAdmin
+          .from('users')
+          .select('id')
+          .eq('email', email)
+          .neq('id', userId)
+          .maybeSingle();
+
+        if (takenError) {
+          throw createError('Failed to update profile', 500);
+        }
+
+        if (taken) {
+          throw createError('Email is already in use', 409);
+        }
+
+        // Without email confirmation Supabase switches the address straight away
+        const authEmail = await AuthService.requestEmailChange(accessToken, email);
+        if (authEmail === email) {
+          changes.email = email;
+          changes.pending_email = null;
+        } else {
+          changes.pending_email = email;
+        }
+      }
+
+      if (changes.name) {
+        // Keep the name Supabase Auth was given at signup in step
+        const { error: authError } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+          user_metadata: { name: changes.name }
+        });
+
+        if (authError) {
+          throw createError('Failed to update profile', 500);
+        }
+      }
+
+      const { data: user, error } = await supabaseAdmin
+        .from('users')
+        .update({
+          ...changes,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', userId)
+        .eq('is_active', true)
+        .select(USER_COLUMNS)
+        .single();
+
+      // 23505 = unique violation, i.e. the email was taken in the meantime
+      if (error && error.code === '23505') {
+        throw createError('Email is already in use', 409);
+      }
+
+      if (error || !user) {
+        throw createError('Failed to update profile', 500);
+      }
+
+      return user as User;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Update profile error:', error);
+      throw createError('Failed to update profile', 500);
+    }
+  }
+
+  /**
+   * Copy an email change confirmed through Supabase Auth onto the users row, so the two don't drift.
+   * Returns the (possibly updated) users row; a failed sync is logged and retried on the next request.
+   */
+  static async syncEmail<T extends { id: string; email: string }>(user: T, authEmail?: string): Promise<T> {
+    if (!authEmail || authEmail.toLowerCase() === user.email) {
+      return user;
+    }
+
+    const email = authEmail.toLowerCase();
+    const { error } = await supabaseAdmin
+      .from('users')
+      .update({
+        email,
+        pending_email: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', user.id);
+
+    if (error) {
+      console.error('Sync email error:', error);
+      return user;
+    }
+
+    return { ...user, email, pending_email: null };
+  }
+
+  /**
+   * Update the user's preferences (timezone, base currency, locale, start of the week)
+   */
+  static async updatePreferences(userId: string, preferences: UpdatePreferencesRequest): Promise<User> {
+    try {
+      const { data: user, error } = await supabaseAdmin
+        .from('users')
+        .update({
+          ...this.preferenceChanges(preferences),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', userId)
+        .eq('is_active', true)
+        .select(USER_COLUMNS)
+        .single();
+
+      if (error || !user) {
+        throw createError('Failed to update preferences', 500);
+      }
+
+      return user as User;
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Update preferences error:', error);
+      throw createError('Failed to update preferences', 500);
+    }
+  }
+
+  /**
+   * Deactivate the user's account; it is deleted for good after the grace period unless they sign in again
+   */
+  static async requestDeletion(userId: string, graceDays: number): Promise<AccountDeletion> {
+    try {
+      // Deleting the creator deletes the household, so other members must not lose it unnoticed
+      const { data: owned, error: ownedError } = await supabaseAdmin
+        .from('households')
+        .select('id,household_members(user_id)')
+        .eq('owner_id', userId);
+
+      if (ownedError) {
+        throw createError('Failed to delete account', 500);
+      }
+
+      const shared = (owned || []).filter((household) =>
+        ((household.household_members || []) as Array<{ user_id: string }>).some((member) => member.user_id !== userId));
+      if (shared.length > 0) {
+        throw createError('Delete the households you created that have other members before deleting your account', 409);
+      }
+
+      const deletedAt = new Date();
+      const { data: user, error } = await supabaseAdmin
+        .from('users')
+        .update({
+          is_active: false,
+          deleted_at: deletedAt.toISOString(),
+          updated_at: deletedAt.toISOString()
+        })
+        .eq('id', userId)
+        .eq('is_active', true)
+        .select('id')
+        .maybeSingle();
+
+      if (error) {
+        throw createError('Failed to delete account', 500);
+      }
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      return {
+        deleted_at: deletedAt.toISOString(),
+        purge_after: new Date(deletedAt.getTime() + graceDays * this.DAY_MS).toISOString()
+      };
+    } catch (error) {
+      if (error instanceof Error && 'statusCode' in error) {
+        throw error;
+      }
+      console.error('Request account deletion error:', error);
+      throw createError('Failed to delete account', 500);
+    }
+  }
+
+  /**
+   * Reactivate an account whose deletion is still in its grace period
+   */
+  static async cancelDeletion<T extends { id: string }>(user: T): Promise<T> {
+    const { data: restored, error } = await supabaseAdmin
+      .from('users')
+      .update({
+        is_active: true,
+        deleted_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', user.id)
+      .not('deleted_at', 'is', null)
+      .select()
+      .single();
+
+    if (error || !restored) {
+      throw createError('Failed to restore account', 500);
+    }
+
+    return restored as T;
+  }
+
+  /**
+   * Remove a user from Supabase Auth and the users table; their data goes with the users row.
+   * What they entered in other people's households is handed to the household's creator so it stays in the budget.
+   */
+  private static async purgeUser(userId: string): Promise<void> {
+    const { data: memberships, error: membershipError } = await supabaseAdmin
+      .from('household_members')
+      .select('household_id,households(owner_id)')
+      .eq('user_id', userId);
+
+    if (membershipError) {
+      throw createError('Failed to fetch household memberships', 500);
+    }
+
+    for (const membership of memberships || []) {
+      const ownerId = (membership.households as unknown as { owner_id: string } | null)?.owner_id;
+      if (!ownerId || ownerId === userId) continue;
+
+      for (const table of HOUSEHOLD_TABLES) {
+        const { error } = await supabaseAdmin
+          .from(table)
+          .update({ user_id: ownerId })
+          .eq('household_id', membership.household_id)
+          .eq('user_id', userId);
+
+        if (error) {
+          throw createError(`Failed to hand over household ${table}`, 500);
+        }
+      }
+    }
+
+    // A missing auth user means an earlier purge got this far already
+    const { error: authError } = await supabaseAdmin.auth.admin.deleteUser(userId);
+    if (authError && authError.status !== 404) {
+      throw createError('Failed to delete auth user', 500);
+    }
+
+    const { error } = await supabaseAdmin
+      .from('users')
+      .delete()
+      .eq('id', userId);
+
+    if (error) {
+      throw createError('Failed to delete user', 500);
+    }
+  }
+
+  /**
+   * Permanently delete accounts whose deletion was requested more than `graceDays` ago (used by the scheduler)
+   */
+  static async purgeDeletedUsers(graceDays: number): Promise<number> {
+    const cutoff = new Date(Date.now() - graceDays * this.DAY_MS).toISOString();
+
+    const { data: users, error } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('is_active', false)
+      .lt('deleted_at', cutoff);
+
+    if (error) {
+      throw createError('Failed to fetch deleted accounts', 500);
+    }
+
+    let purged = 0;
+    for (const user of users || []) {
+      try {
+        await this.purgeUser(user.id);
+        purged++;
+      } catch (purgeError) {
+        console.error(`Account purge failed for ${user.id}:`, purgeError);
+      }
+    }
+
+    return purged;
+  }
+}
@@ -0,0 +1,284 @@
+// In-memory stand-in for the Supabase client, enough of the PostgREST query builder for service tests.
+// Use it in place of config/database with:
+//   jest.mock('../config/database', () => require('../test/fakeSupabase').fakeDatabase);
+import { randomUUID } from 'crypto';
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+type Result = { data: unknown; error: { code: string; message: string } | null; count?: number | null };
+
+const tables = new Map<string, Row[]>();
+
+/**
+ * Replace the contents of the fake database
+ */
+export const seed = (data: Record<string, object[]>): void => {
+  tables.clear();
+  Object.entries(data).forEach(([table, rows]) => tables.set(table, rows.map((row) => ({ ...row }) as Row)));
+};
+
+/**
+ * Current rows of a table
+ */
+export const rowsOf = (table: string): Row[] => {
+  if (!tables.has(table)) tables.set(table, []);
+  return tables.get(table) as Row[];
+};
+
+const same = (a: unknown, b: unknown): boolean => (a === null || a === undefined || b === null || b === undefined
+  ? (a ?? null) === (b ?? null)
+  : String(a) === String(b));
+
+const compare = (a: unknown, b: unknown): number => (typeof a === 'number' && typeof b === 'number'
+  ? a - b
+  : String(a ?? '').localeCompare(String(b ?? '')));
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// SQL LIKE pattern: % and _ are wildcards, a backslash escapes the next character
+const likePattern = (pattern: string, flags: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) source += escapeRegExp(pattern[++i]);
+    else if (char === '%') source += '.*';
+    else if (char === '_') source += '.';
+    else source += escapeRegExp(char);
+  }
+  return new RegExp(`^${source}$`, flags);
+};
+
+const operatorFilter = (column: string, operator: string, value: unknown): Filter => {
+  switch (operator) {
+    case 'eq': return (row) => same(row[column], value);
+    case 'neq': return (row) => !same(row[column], value);
+    case 'gt': return (row) => row[column] != null && compare(row[column], value) > 0;
+    case 'gte': return (row) => row[column] != null && compare(row[column], value) >= 0;
+    case 'lt': return (row) => row[column] != null && compare(row[column], value) < 0;
+    case 'lte': return (row) => row[column] != null && compare(row[column], value) <= 0;
+    case 'is': return (row) => (value === null || value === 'null' ? row[column] == null : same(row[column], value));
+    case 'in': return (row) => (value as unknown[]).some((item) => same(row[column], item));
+    case 'like': return (row) => likePattern(String(value), '').test(String(row[column] ?? ''));
+    case 'ilike': return (row) => likePattern(String(value), 'i').test(String(row[column] ?? ''));
+    default: throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+};
+
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    current += char;
+  }
+  return [...parts, current];
+};
+
+// PostgREST logic tree, e.g. "and(user_id.eq.1,household_id.is.null),is_default.eq.true"
+const logicFilter = (expression: string, combine: 'and' | 'or'): Filter => {
+  const filters = splitTopLevel(expression).map((term): Filter => {
+    const group = term.match(/^(and|or)\((.*)\)$/);
+    if (group) return logicFilter(group[2], group[1] as 'and' | 'or');
+
+    const [column, operator, ...rest] = term.split('.');
+    const raw = rest.join('.');
+    const value = operator === 'in' ? raw.replace(/^\(|\)$/g, '').split(',') : raw;
+    return operatorFilter(column, operator, value);
+  });
+
+  return combine === 'and'
+    ? (row) => filters.every((filter) => filter(row))
+    : (row) => filters.some((filter) => filter(row));
+};
+
+class FakeQuery implements PromiseLike<Result> {
+  private action: 'select' | 'insert' | 'update' | 'delete' | 'upsert' = 'select';
+  private payload: Row[] = [];
+  private conflictColumns: string[] = [];
+  private filters: Filter[] = [];
+  private orders: Array<{ column: string; ascending: boolean }> = [];
+  private window: { from: number; to: number } | null = null;
+  private returning = false;
+  private countRows = false;
+  private headOnly = false;
+  private cardinality: 'single' | 'maybeSingle' | null = null;
+
+  constructor(private readonly table: string) {}
+
+  select(_columns?: string, options: { count?: string; head?: boolean } = {}): this {
+    if (this.action !== 'select') {
+      this.returning = true;
+    }
+    this.countRows = !!options.count;
+    this.headOnly = !!options.head;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.action = 'upsert';
+    this.payload = Array.isArray(values) ? values : [values];
+    this.conflictColumns = (options.onConflict || 'id').split(',');
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = 'update';
+    this.payload = [values];
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this { return this.where(operatorFilter(column, 'eq', value)); }
+  neq(column: string, value: unknown): this { return this.where(operatorFilter(column, 'neq', value)); }
+  gt(column: string, value: unknown): this { return this.where(operatorFilter(column, 'gt', value)); }
+  gte(column: string, value: unknown): this { return this.where(operatorFilter(column, 'gte', value)); }
+  lt(column: string, value: unknown): this { return this.where(operatorFilter(column, 'lt', value)); }
+  lte(column: string, value: unknown): this { return this.where(operatorFilter(column, 'lte', value)); }
+  is(column: string, value: unknown): this { return this.where(operatorFilter(column, 'is', value)); }
+  in(column: string, values: unknown[]): this { return this.where(operatorFilter(column, 'in', values)); }
+  like(column: string, pattern: string): this { return this.where(operatorFilter(column, 'like', pattern)); }
+  ilike(column: string, pattern: string): this { return this.where(operatorFilter(column, 'ilike', pattern)); }
+  filter(column: string, operator: string, value: unknown): this { return this.where(operatorFilter(column, operator, value)); }
+  or(expression: string): this { return this.where(logicFilter(expression, 'or')); }
+
+  not(column: string, operator: string, value: unknown): this {
+    const filter = operatorFilter(column, operator, value);
+    return this.where((row) => !filter(row));
+  }
+
+  match(values: Row): this {
+    Object.entries(values).forEach(([column, value]) => this.eq(column, value));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.window = { from, to };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.window = { from: 0, to: count - 1 };
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<T1 = Result, T2 = never>(
+    onFulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onRejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve().then(() => this.execute()).then(onFulfilled, onRejected);
+  }
+
+  private where(filter: Filter): this {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private matching(): Row[] {
+    return rowsOf(this.table).filter((row) => this.filters.every((filter) => filter(row)));
+  }
+
+  private withDefaults(values: Row): Row {
+    const now = new Date().toISOString();
+    return { id: randomUUID(), created_at: now, updated_at: now, ...values };
+  }
+
+  private execute(): Result {
+    const table = rowsOf(this.table);
+    let rows: Row[];
+
+    switch (this.action) {
+      case 'insert':
+        rows = this.payload.map((values) => this.withDefaults(values));
+        table.push(...rows);
+        break;
+      case 'upsert':
+        rows = this.payload.map((values) => {
+          const existing = table.find((row) => this.conflictColumns.every((column) => same(row[column], values[column])));
+          if (existing) return Object.assign(existing, values);
+          const created = this.withDefaults(values);
+          table.push(created);
+          return created;
+        });
+        break;
+      case 'update':
+        rows = this.matching().map((row) => Object.assign(row, this.payload[0]));
+        break;
+      case 'delete':
+        rows = this.matching();
+        tables.set(this.table, table.filter((row) => !rows.includes(row)));
+        break;
+      default:
+        rows = this.matching();
+    }
+
+    if (this.action !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    rows = [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        const order = compare(a[column], b[column]);
+        if (order !== 0) return ascending ? order : -order;
+      }
+      return 0;
+    });
+    const count = rows.length;
+    if (this.window) {
+      rows = rows.slice(this.window.from, this.window.to + 1);
+    }
+    const data = rows.map((row) => ({ ...row }));
+
+    if (this.cardinality) {
+      if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+        return { data: null, error: { code: 'PGRST116', message: `${data.length} rows returned` } };
+      }
+      return { data: data[0] ?? null, error: null };
+    }
+
+    return { data: this.headOnly ? null : data, error: null, count: this.countRows ? count : null };
+  }
+}
+
+const client = {
+  from: (table: string) => new FakeQuery(table)
+};
+
+// Drop-in replacement for the exports of config/database
+export const fakeDatabase = {
+  supabase: client,
+  supabaseAdmin: client,
+  createAuthClient: () => client,
+  connectDatabase: async (): Promise<void> => undefined
+};
@@ -5,6 +5,12 @@ export interface User {
   id: string;
   email: string;
   name: string;
+  timezone: string; // IANA timezone, e.g. "America/New_York"
+  base_currency: string; // ISO 4217 code that reports are converted into
+  locale: string; // BCP 47 tag used to format amounts and dates, e.g. "en-US"
+  week_start: number; // First day of the week, 0 = Sunday
+  pending_email: string | null; // New email waiting for confirmation
+  deleted_at: string | null; // When the user asked to delete their account
   created_at: string;
   updated_at: string;
   is_active: boolean;
@@ -14,17 +20,60 @@ export interface CreateUserRequest {
   email: string;
   password: string;
   name: string;
+  timezone?: string;
+  base_currency?: string;
+  device_name?: string;
+}
+
+export interface UpdatePreferencesRequest {
+  timezone?: string;
+  base_currency?: string;
+  locale?: string;
+  week_start?: number;
+}
+
+export interface UpdateProfileRequest extends UpdatePreferencesRequest {
+  name?: string;
+  email?: string;
+}
+
+export interface AccountDeletion {
+  deleted_at: string;
+  purge_after: string; // The account and its data are removed after this time unless the user signs in
+}
+
+export interface PasswordResetTokenStatus {
+  valid: boolean;
+  expires_at: string;
 }
 
 export interface LoginRequest {
   email: string;
   password: string;
+  device_name?: string; // e.g. "Sam's iPhone"; derived from the user agent when missing
 }
 
 export interface AuthResponse {
   user: User;
   token: string;
-  refreshToken?: string;
+  refreshToken: string;
+}
+
+// Where a sign-in came from, recorded with its session
+export interface SessionClient {
+  device_name?: string;
+  user_agent?: string;
+  ip_address?: string;
+}
+
+export interface UserSession {
+  id: string;
+  device_name: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean;
 }
 
 // Category types
@@ -35,6 +84,7 @@ export interface Category {
   icon: string;
   is_default: boolean;
   user_id?: string;
+  household_id?: string | null;
   created_at: string;
 }
 
@@ -48,6 +98,7 @@ export interface CreateCategoryRequest {
 export interface MonthlyGoal {
   id: string;
   user_id: string;
+  household_id?: string | null; // set for a shared household budget
   month: string; // YYYY-MM format
   income: number;
   expenses: CategoryExpense[];
@@ -55,11 +106,16 @@ export interface MonthlyGoal {
   updated_at: string;
 }
 
+export type RolloverMode = 'none' | 'full' | 'capped';
+
 export interface CategoryExpense {
   category_id: string;
   category_name: string;
   expected_amount: number;
   actual_amount?: number;
+  rollover?: RolloverMode; // carry last month's unspent amount for this category into this month
+  rollover_cap?: number; // maximum carried when rollover is 'capped'
+  rollover_amount?: number; // carried from last month, on top of expected_amount (computed by the server)
 }
 
 export interface CreateMonthlyGoalRequest {
@@ -68,39 +124,800 @@ export interface CreateMonthlyGoalRequest {
   expenses: CategoryExpense[];
 }
 
+// Household types
+export type HouseholdRole = 'owner' | 'editor' | 'viewer';
+
+export type HouseholdInvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked' | 'expired';
+
+export interface Household {
+  id: string;
+  name: string;
+  owner_id: string; // creator; the budget uses their timezone, base currency and exchange rates
+  created_at: string;
+  updated_at: string;
+}
+
+export interface HouseholdWithRole extends Household {
+  role: HouseholdRole; // the caller's role
+}
+
+export interface HouseholdMember {
+  id: string;
+  household_id: string;
+  user_id: string;
+  role: HouseholdRole;
+  name?: string;
+  email?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface HouseholdDetails extends HouseholdWithRole {
+  members: HouseholdMember[];
+}
+
+export interface CreateHouseholdRequest {
+  name: string;
+}
+
+export interface HouseholdInvitation {
+  id: string;
+  household_id: string;
+  household_name?: string;
+  email: string;
+  role: HouseholdRole;
+  invited_by: string;
+  status: HouseholdInvitationStatus;
+  expires_at: string;
+  responded_at: string | null;
+  created_at: string;
+}
+
+export interface CreateHouseholdInvitationRequest {
+  email: string;
+  role: HouseholdRole;
+}
+
+// Whose budget a BudgetService call reads or writes
+export interface BudgetScope {
+  userId: string; // the caller
+  householdId: string | null; // null for the caller's personal budget
+  role: HouseholdRole;
+  settingsUserId: string; // user whose timezone, base currency and exchange rates apply
+}
+
+// Account types
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'cash';
+
+export interface Account {
+  id: string;
+  user_id: string;
+  name: string;
+  type: AccountType;
+  currency: string; // ISO 4217 code
+  opening_balance: number;
+  is_archived: boolean;
+  last_reconciled_date: string | null;
+  last_reconciled_balance: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AccountWithBalance extends Account {
+  balance: number;
+  cleared_balance: number;
+}
+
+export interface CreateAccountRequest {
+  name: string;
+  type: AccountType;
+  currency?: string;
+  opening_balance?: number;
+}
+
+export interface UpdateAccountRequest extends Partial<CreateAccountRequest> {
+  is_archived?: boolean;
+}
+
+export interface CreateTransferRequest {
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  date: string;
+  description?: string;
+}
+
+export interface TransferResult {
+  transfer_id: string;
+  from: Transaction;
+  to: Transaction;
+}
+
+export interface AccountLedgerEntry extends Transaction {
+  running_balance: number;
+}
+
+export interface AccountLedger {
+  account: Account;
+  starting_balance: number; // balance before the first entry shown
+  ending_balance: number;
+  entries: AccountLedgerEntry[];
+}
+
+export interface ReconcileAccountRequest {
+  statement_date: string; // YYYY-MM-DD
+  statement_balance: number;
+  transaction_ids?: string[]; // transactions that appear on the statement
+}
+
+export interface AccountReconciliation {
+  id: string;
+  user_id: string;
+  account_id: string;
+  statement_date: string;
+  statement_balance: number;
+  cleared_balance: number;
+  difference: number; // statement_balance - cleared_balance
+  status: 'balanced' | 'unbalanced';
+  created_at: string;
+}
+
+// Exchange rate types
+export type ExchangeRateSource = 'manual' | 'file';
+
+export interface ExchangeRate {
+  id: string;
+  user_id: string;
+  currency: string;
+  base_currency: string;
+  rate: number; // units of base_currency per unit of currency
+  date: string; // YYYY-MM-DD the rate applies from
+  source: ExchangeRateSource;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SetExchangeRateRequest {
+  currency: string;
+  base_currency?: string; // defaults to the user's base currency
+  rate: number;
+  date: string;
+}
+
+export interface ImportExchangeRatesRequest {
+  content: string; // CSV with date, currency, rate and optional base_currency columns
+  delimiter?: string;
+}
+
+export interface ImportExchangeRatesResult {
+  imported: number;
+  errors: Array<{ row: number; message: string }>;
+}
+
+export interface CurrencyConversion {
+  transactions: Transaction[]; // with exchange_rate and base_amount set
+  unconverted: Transaction[]; // no rate on or before their date
+}
+
+export interface ExchangeRateQuery {
+  currency?: string;
+  from?: string;
+  to?: string;
+}
+
+// Savings goal types
+export type SavingsGoalStatus = 'completed' | 'on_track' | 'behind' | 'no_target_date';
+
+export interface SavingsGoal {
+  id: string;
+  user_id: string;
+  name: string;
+  target_amount: number;
+  target_date: string | null; // YYYY-MM-DD
+  is_archived: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavingsGoalProgress extends SavingsGoal {
+  balance: number; // contributions less withdrawals
+  remaining: number;
+  percent_complete: number;
+  months_remaining: number | null; // including the current month
+  required_monthly_contribution: number | null;
+  expected_balance: number | null; // where a steady saver would be by today
+  status: SavingsGoalStatus;
+  contributions?: SavingsContribution[];
+}
+
+export interface CreateSavingsGoalRequest {
+  name: string;
+  target_amount: number;
+  target_date?: string | null;
+}
+
+export interface UpdateSavingsGoalRequest extends Partial<CreateSavingsGoalRequest> {
+  is_archived?: boolean;
+}
+
+export type SavingsContributionKind = 'contribution' | 'withdrawal';
+
+export interface SavingsContribution {
+  id: string;
+  user_id: string;
+  savings_goal_id: string;
+  transaction_id: string; // the transfer transaction that moved the money
+  kind: SavingsContributionKind;
+  amount: number;
+  date: string;
+  created_at: string;
+}
+
+export interface CreateSavingsContributionRequest {
+  kind?: SavingsContributionKind; // defaults to 'contribution'
+  amount: number;
+  date: string;
+  description?: string;
+}
+
+// Goal template types
+export interface GoalTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  income: number;
+  expenses: CategoryExpense[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateGoalTemplateRequest {
+  name: string;
+  income: number;
+  expenses: CategoryExpense[];
+}
+
+export interface ApplyGoalRequest {
+  source: 'template' | 'previous_month';
+  template_id?: string; // required when source is 'template'
+  month: string; // YYYY-MM, first month to create
+  to_month?: string; // YYYY-MM, last month to create (defaults to month)
+  amounts?: 'source' | 'average'; // 'average' uses the trailing average of actual spending per category
+  average_months?: number; // trailing window for 'average' (default 3)
+  overwrite?: boolean; // replace goals that already exist (default false)
+}
+
+export interface ApplyGoalResult {
+  created: MonthlyGoal[];
+  skipped: Array<{ month: string; reason: string }>;
+}
+
 // Transaction types
+export type TransactionType = 'expense' | 'income' | 'transfer' | 'refund';
+
+export type TransferDirection = 'out' | 'in';
+
+export interface TransactionSplit {
+  category_id: string;
+  category_name: string;
+  amount: number;
+  note?: string;
+}
+
 export interface Transaction {
   id: string;
   user_id: string;
   category_id: string;
   category_name: string;
+  type: TransactionType;
   amount: number;
   description: string;
   date: string;
   month: string; // YYYY-MM format
+  recurring_rule_id?: string | null;
+  import_batch_id?: string | null;
+  category_rule_id?: string | null; // set when the category was chosen by a categorization rule
+  splits?: TransactionSplit[] | null; // per-category lines summing to amount; category_id is then the largest line's
+  account_id?: string | null;
+  cleared?: boolean; // confirmed against a statement
+  transfer_id?: string | null; // shared by both legs of a transfer between accounts
+  transfer_direction?: TransferDirection | null;
+  currency?: string; // ISO 4217 code of amount
+  household_id?: string | null; // set for a shared household budget; user_id is then the member who entered it
+  member?: { id: string; name: string }; // household member who entered it, on household reads
+  exchange_rate?: number; // set when converted: base currency units per unit of currency
+  base_amount?: number; // set when converted: amount in the user's base currency
+  deleted_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
 export interface CreateTransactionRequest {
+  category_id?: string; // when neither id nor name is given, categorization rules pick one
+  category_name?: string;
+  type?: TransactionType;
+  amount: number;
+  description: string;
+  date: string;
+  splits?: CreateTransactionSplit[] | null; // null on update removes the splits
+  account_id?: string | null;
+  cleared?: boolean;
+  currency?: string; // defaults to the account's currency, else the user's base currency
+}
+
+export interface CreateTransactionSplit {
+  category_id?: string;
+  category_name?: string;
+  amount: number;
+  note?: string;
+}
+
+export interface CreateTransactionOptions {
+  recurringRuleId?: string;
+  importBatchId?: string;
+  categoryRuleId?: string;
+  householdId?: string | null;
+  transfer?: { id: string; direction: TransferDirection };
+}
+
+export interface TransactionQuery {
+  month?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  category_id?: string[];
+  type?: TransactionType[];
+  min_amount?: number;
+  max_amount?: number;
+  search?: string;
+  sort: 'date' | 'amount' | 'description' | 'created_at';
+  order: 'asc' | 'desc';
+  page?: number;
+  limit: number;
+  cursor?: string;
+}
+
+export interface TransactionSearchResult {
+  transactions: Transaction[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// Categorization rule types
+export interface CategoryRuleCondition {
+  field: 'description' | 'amount' | 'type';
+  operator: 'contains' | 'equals' | 'starts_with' | 'ends_with' | 'matches' | 'gt' | 'gte' | 'lt' | 'lte';
+  value: string | number; // for "matches", a pattern such as "rent" or "/rent/i"
+}
+
+export interface CategoryRule {
+  id: string;
+  user_id: string;
+  name: string;
+  priority: number; // lower runs first
+  conditions: CategoryRuleCondition[]; // all must match
+  category_id: string;
+  category_name: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateCategoryRuleRequest {
+  name: string;
+  priority?: number;
+  conditions: CategoryRuleCondition[];
+  category_id?: string;
+  category_name?: string;
+  is_active?: boolean;
+}
+
+export interface ApplyCategoryRulesRequest {
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  transaction_ids?: string[]; // apply only to these (as returned by the preview)
+}
+
+export interface ApplyCategoryRuleChangesRequest {
+  changes: Array<Pick<CategoryRuleChange, 'transaction_id' | 'rule_id'>>; // as returned by the preview
+}
+
+export interface CategoryRuleChange {
+  transaction_id: string;
+  date: string;
+  description: string;
+  amount: number;
+  current_category_id: string;
+  current_category_name: string;
+  new_category_id: string;
+  new_category_name: string;
+  rule_id: string;
+}
+
+// Alert and notification types
+export type AlertRuleType = 'category_threshold' | 'large_transaction' | 'bill_due' | 'month_closing';
+export type NotificationChannelName = 'email' | 'webhook';
+
+export interface AlertRule {
+  id: string;
+  user_id: string;
+  name: string;
+  type: AlertRuleType;
+  category_id: string | null; // category_threshold: the category watched, null for the whole budget
+  category_name: string | null;
+  threshold_percent: number | null; // category_threshold: percent of the planned amount
+  amount: number | null; // large_transaction: minimum expense in the base currency
+  days_before: number | null; // bill_due and month_closing: how far ahead to warn
+  channels: NotificationChannelName[]; // delivered in addition to the in-app inbox
+  webhook_url: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateAlertRuleRequest {
+  name: string;
+  type: AlertRuleType;
+  category_id?: string;
+  category_name?: string;
+  threshold_percent?: number;
+  amount?: number;
+  days_before?: number;
+  channels?: NotificationChannelName[];
+  webhook_url?: string | null;
+  is_active?: boolean;
+}
+
+export type UpdateAlertRuleRequest = Partial<Omit<CreateAlertRuleRequest, 'type'>>;
+
+export interface NotificationDelivery {
+  channel: NotificationChannelName;
+  status: 'sent' | 'failed';
+  error?: string;
+  attempted_at: string;
+}
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  alert_rule_id: string | null;
+  type: AlertRuleType;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  dedupe_key: string; // one notification per rule and occurrence
+  deliveries: NotificationDelivery[];
+  read_at: string | null;
+  dismissed_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationContent {
+  type: AlertRuleType;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  dedupe_key: string;
+}
+
+export interface NotificationRecipient {
+  email: string;
+  name: string;
+  webhook_url: string | null;
+}
+
+// A way of delivering notifications outside the app; register replacements with NotificationService.registerChannel
+export interface NotificationChannel {
+  name: NotificationChannelName;
+  deliver(notification: Notification, recipient: NotificationRecipient): Promise<void>;
+}
+
+export interface NotificationQuery {
+  unread?: boolean;
+  include_dismissed?: boolean;
+  page: number;
+  limit: number;
+}
+
+// Recurring transaction types
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringRule {
+  id: string;
+  user_id: string;
+  category_id: string;
+  category_name: string;
+  type: TransactionType;
+  amount: number;
+  description: string;
+  frequency: RecurrenceFrequency;
+  interval: number; // every N days/weeks/months/years
+  start_date: string; // YYYY-MM-DD
+  end_date: string | null;
+  max_occurrences: number | null;
+  occurrences_created: number;
+  next_occurrence: string | null; // null once the rule is exhausted
+  last_occurrence: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateRecurringRuleRequest {
   category_id: string;
   category_name?: string;
+  type?: TransactionType;
   amount: number;
   description: string;
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  start_date: string;
+  end_date?: string | null;
+  max_occurrences?: number | null;
+}
+
+export interface UpdateRecurringRuleRequest extends Partial<CreateRecurringRuleRequest> {
+  is_active?: boolean;
+}
+
+export interface UpcomingOccurrence {
+  rule_id: string;
   date: string;
+  description: string;
+  category_id: string;
+  category_name: string;
+  type: TransactionType;
+  amount: number;
+}
+
+// Import types
+export type ImportFormat = 'csv' | 'ofx' | 'qfx';
+export type ImportBatchStatus = 'pending' | 'committing' | 'committed' | 'undone';
+
+export interface CsvColumnMapping {
+  date: string; // header name (or zero-based index when has_header is false)
+  description: string;
+  amount?: string; // single signed amount column...
+  debit?: string; // ...or separate debit/credit columns
+  credit?: string;
+  category?: string;
+  date_format?: 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY';
+  delimiter?: string;
+  decimal_separator?: '.' | ',';
+  has_header?: boolean;
+  expense_sign?: 'negative' | 'positive'; // sign expenses carry in the amount column
+}
+
+export interface CreateImportRequest {
+  format: ImportFormat;
+  content: string;
+  filename?: string;
+  mapping?: CsvColumnMapping; // required for CSV
+}
+
+export interface CommitImportRequest {
+  include_duplicates?: boolean;
+  skip_rows?: number[];
+}
+
+export interface ImportRow {
+  index: number;
+  date: string;
+  amount: number;
+  type: TransactionType;
+  description: string;
+  category_id: string | null;
+  category_name: string;
+  category_rule_id?: string;
+  duplicate: boolean;
+  error?: string;
+  transaction_id?: string;
+}
+
+export interface ImportBatch {
+  id: string;
+  user_id: string;
+  format: ImportFormat;
+  filename: string | null;
+  status: ImportBatchStatus;
+  rows: ImportRow[];
+  total_rows: number;
+  imported_count: number;
+  skipped_count: number;
+  committed_at: string | null;
+  undone_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Export types
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  include?: Array<'goals' | 'history'>;
+}
+
+// Dashboard types
+export interface DashboardSummary {
+  month: string; // YYYY-MM format
+  isClosed: boolean; // true when served from a monthly_history snapshot
+  monthlyGoal: MonthlyGoal | null;
+  transactions: Transaction[];
+  totalIncome: number;
+  plannedIncome: number;
+  actualIncome: number;
+  totalExpenses: number;
+  actualSavings: number;
+  expectedSavings: number;
+  topCategories: Array<{ category_name: string; amount: number; percentage: number }>;
+  monthlyProgress: number;
+  savingsContributions: number; // net amount moved into savings goals this month
+  baseCurrency: string; // currency all totals are reported in
+  unconvertedCount: number; // transactions left out of the totals for lack of an exchange rate
+}
+
+// Goal progress types
+export type BudgetStatus = 'under' | 'on_budget' | 'over';
+
+export interface CategoryProgress {
+  category_id: string;
+  category_name: string;
+  expected_amount: number;
+  rollover_amount: number;
+  actual_amount: number;
+  remaining: number; // of expected_amount plus rollover_amount; negative when overspent
+  percent_used: number | null; // null when nothing was planned for the category
+  status: BudgetStatus;
+}
+
+export interface GoalProgress {
+  month: string; // YYYY-MM format
+  isClosed: boolean;
+  categories: CategoryProgress[];
+  unplanned: {
+    actual_amount: number;
+    categories: Array<{ category_id: string; category_name: string; actual_amount: number }>;
+  };
+  totalExpected: number;
+  totalActual: number; // planned and unplanned spending
+  totalRemaining: number;
+  percentUsed: number | null;
+  status: BudgetStatus;
+  unconvertedCount: number; // transactions left out of the totals for lack of an exchange rate
+}
+
+// Forecast types
+export type ForecastMethod = 'actual' | 'pace' | 'history' | 'blended' | 'plan';
+export type ForecastConfidence = 'low' | 'medium' | 'high';
+
+export interface CategoryForecast {
+  category_id: string;
+  category_name: string;
+  expected_amount: number; // planned plus rollover; 0 when the goal does not plan the category
+  actual_amount: number; // spent so far
+  upcoming_recurring: number; // recurring bills still due this month
+  projected_amount: number;
+  projected_remaining: number; // negative when the category is projected to overspend
+  status: BudgetStatus;
+  method: ForecastMethod;
+}
+
+export interface SpendingForecast {
+  month: string; // YYYY-MM format
+  isClosed: boolean;
+  baseCurrency: string;
+  daysInMonth: number;
+  daysElapsed: number;
+  historyMonths: number; // closed months the history pattern is based on
+  method: ForecastMethod;
+  confidence: ForecastConfidence;
+  confidenceScore: number; // 0-1, grows with the share of the month elapsed and the history available
+  categories: CategoryForecast[];
+  plannedIncome: number;
+  projectedIncome: number;
+  totalExpected: number;
+  actualExpenses: number;
+  upcomingRecurring: number;
+  projectedExpenses: number;
+  projectedOverspend: number; // projected spending above the plan, 0 when within it
+  expectedSavings: number; // as on the dashboard
+  projectedSavings: number;
+  savingsDifference: number; // projectedSavings - expectedSavings; negative when saving less than planned
+}
+
+// Analytics types
+export interface AnalyticsQuery {
+  from?: string; // YYYY-MM-DD, defaults to the start of the month five months before `to`
+  to?: string; // YYYY-MM-DD, defaults to today
+  limit?: number;
+  type?: 'expense' | 'income' | 'refund';
+}
+
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+  currency: string; // base currency all amounts are converted into
+}
+
+export interface CategoryTrendMonth {
+  month: string; // YYYY-MM format
+  amount: number;
+  change: number | null; // against the previous month in the window
+  change_percent: number | null;
+}
+
+export interface CategoryTrend {
+  category_id: string;
+  category_name: string;
+  total: number;
+  average: number; // per month in the window
+  months: CategoryTrendMonth[];
+}
+
+export interface CategoryTrends extends AnalyticsRange {
+  months: string[];
+  categories: CategoryTrend[];
+}
+
+export interface BurnRateMonth {
+  month: string;
+  days: number; // days of the month inside the range, up to today
+  total: number;
+  average_daily: number;
+}
+
+export interface BurnRate extends AnalyticsRange {
+  days: number;
+  total_spending: number;
+  average_daily: number;
+  months: BurnRateMonth[];
+  projected_month_total: number | null; // current month at its burn rate so far, when the range includes today
+}
+
+export interface DayOfWeekSpending {
+  day: number; // 0 = Sunday
+  name: string;
+  total: number;
+  count: number;
+  average: number; // per occurrence of the weekday in the range
+}
+
+export interface DayOfWeekBreakdown extends AnalyticsRange {
+  days: DayOfWeekSpending[];
+}
+
+export interface MerchantSpending {
+  merchant: string; // most recent description seen for the merchant
+  total: number;
+  count: number;
+  average: number;
+  last_date: string;
+}
+
+export interface MerchantBreakdown extends AnalyticsRange {
+  merchants: MerchantSpending[];
+}
+
+export interface LargestTransactions extends AnalyticsRange {
+  transactions: Transaction[];
 }
 
 // Monthly History types
 export interface MonthlyHistory {
   id: string;
   user_id: string;
+  household_id?: string | null;
   month: string;
   goal: MonthlyGoal;
   transactions: Transaction[];
   total_income: number;
   total_expenses: number;
   actual_savings: number;
+  currency?: string; // base currency the totals were converted into
   finalized_at: string;
+  reopened_at?: string | null; // set while the month is reopened for editing
   created_at: string;
 }
 
@@ -118,6 +935,7 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
     limit: number;
     total: number;
     totalPages: number;
+    nextCursor?: string | null;
   };
 }
 
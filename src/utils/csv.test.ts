@@ -0,0 +1,46 @@
+import { parseCsv, toCsvRow } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('date,amount\n2024-01-05,12.50\n2024-01-06,3')).toEqual([
+      ['date', 'amount'],
+      ['2024-01-05', '12.50'],
+      ['2024-01-06', '3']
+    ]);
+  });
+
+  it('reads quoted fields with delimiters, line breaks and escaped quotes', () => {
+    expect(parseCsv('"Smith, J","say ""hi""","two\nlines"')).toEqual([['Smith, J', 'say "hi"', 'two\nlines']]);
+  });
+
+  it('handles CRLF line endings, blank lines and a byte order mark', () => {
+    expect(parseCsv('\uFEFFa,b\r\n\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('uses another delimiter', () => {
+    expect(parseCsv('date;amount\n05.01.2024;12,50', ';')).toEqual([['date', 'amount'], ['05.01.2024', '12,50']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c\n,,x')).toEqual([['a', '', 'c'], ['', '', 'x']]);
+  });
+});
+
+describe('toCsvRow', () => {
+  it('formats values and ends the line with CRLF', () => {
+    expect(toCsvRow(['a', 12.5, true, null, undefined])).toBe('a,12.5,true,,\r\n');
+  });
+
+  it('quotes fields with delimiters, quotes or line breaks', () => {
+    expect(toCsvRow(['a,b', 'say "hi"', 'two\nlines'])).toBe('"a,b","say ""hi""","two\nlines"\r\n');
+  });
+
+  it('defuses text a spreadsheet would run as a formula', () => {
+    expect(toCsvRow(['=SUM(A1)', '+1', '-2', '@cmd'])).toBe("'=SUM(A1),'+1,'-2,'@cmd\r\n");
+  });
+
+  it('reads back what it writes', () => {
+    const values = ['Coffee, large', 'say "hi"', 'plain'];
+    expect(parseCsv(toCsvRow(values))).toEqual([values]);
+  });
+});
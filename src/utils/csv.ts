@@ -0,0 +1,65 @@
+// Minimal RFC 4180 CSV reader (quoted fields, escaped quotes, CRLF line endings)
+
+export const parseCsv = (content: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Drop a UTF-8 byte order mark left by spreadsheet exports
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter((r) => r.some((value) => value.trim().length > 0));
+};
+
+/**
+ * Format one CSV line (with trailing CRLF). Text that a spreadsheet would run as a formula is prefixed with a quote.
+ */
+export const toCsvRow = (values: Array<string | number | boolean | null | undefined>, delimiter: string = ','): string => {
+  return values.map((value) => {
+    if (value === null || value === undefined) return '';
+    if (typeof value !== 'string') return String(value);
+
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(delimiter) + '\r\n';
+};
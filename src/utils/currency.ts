@@ -0,0 +1,10 @@
+// ISO 4217 currency helpers
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Round a money amount to cents
+ */
+export const roundMoney = (value: number): number => Math.round(value * 100) / 100;
@@ -0,0 +1,89 @@
+// Calendar helpers for bucketing dates into a user's local day and month
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Local calendar date (YYYY-MM-DD) of a date or timestamp in the given timezone.
+ * Plain YYYY-MM-DD input is already a calendar date and is returned unchanged.
+ */
+export const toLocalDate = (input: string | Date, timeZone: string = DEFAULT_TIMEZONE): string => {
+  if (typeof input === 'string' && DATE_ONLY_PATTERN.test(input)) {
+    return input;
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(new Date(input));
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+/**
+ * Month (YYYY-MM) a date or timestamp falls in for the given timezone
+ */
+export const toLocalMonth = (input: string | Date, timeZone: string = DEFAULT_TIMEZONE): string => {
+  return toLocalDate(input, timeZone).slice(0, 7);
+};
+
+/**
+ * Current month (YYYY-MM) in the given timezone
+ */
+export const getCurrentMonth = (timeZone: string = DEFAULT_TIMEZONE): string => {
+  return toLocalMonth(new Date(), timeZone);
+};
+
+const parseDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const daysInMonth = (year: number, monthIndex: number): number => {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+};
+
+/**
+ * Add whole days to a YYYY-MM-DD date
+ */
+export const addDays = (date: string, days: number): string => {
+  const result = parseDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatDate(result);
+};
+
+/**
+ * Add whole months to a YYYY-MM-DD date, keeping anchorDay where the month allows
+ * (e.g. the 31st becomes the 28th/29th in February and the 31st again in March)
+ */
+export const addMonths = (date: string, months: number, anchorDay: number = parseDate(date).getUTCDate()): string => {
+  const current = parseDate(date);
+  const target = new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth() + months, 1));
+  const day = Math.min(anchorDay, daysInMonth(target.getUTCFullYear(), target.getUTCMonth()));
+  target.setUTCDate(day);
+  return formatDate(target);
+};
+
+/**
+ * Number of calendar days from one YYYY-MM-DD date to another, counting both ends
+ */
+export const daysBetween = (from: string, to: string): number => {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / (24 * 60 * 60 * 1000)) + 1;
+};
+
+/**
+ * Day of the week of a YYYY-MM-DD date (0 = Sunday)
+ */
+export const dayOfWeek = (date: string): number => parseDate(date).getUTCDay();
@@ -0,0 +1,51 @@
+import { parseOfx } from './ofx';
+
+describe('parseOfx', () => {
+  it('reads SGML statements without closing tags on leaf elements', () => {
+    const content = [
+      'OFXHEADER:100',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+      '<STMTTRN>',
+      '<TRNTYPE>DEBIT',
+      '<DTPOSTED>20240105120000.000[-5:EST]',
+      '<TRNAMT>-12.50',
+      '<FITID>1001',
+      '<NAME>COFFEE SHOP',
+      '<MEMO>Card 1234',
+      '</STMTTRN>',
+      '<STMTTRN>',
+      '<TRNTYPE>credit',
+      '<DTPOSTED>20240131',
+      '<TRNAMT>2500,00',
+      '<FITID>1002',
+      '<MEMO>Salary',
+      '</STMTTRN>',
+      '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>'
+    ].join('\n');
+
+    expect(parseOfx(content)).toEqual([
+      { fitId: '1001', type: 'DEBIT', date: '2024-01-05', amount: -12.5, name: 'COFFEE SHOP', memo: 'Card 1234' },
+      { fitId: '1002', type: 'CREDIT', date: '2024-01-31', amount: 2500, name: '', memo: 'Salary' }
+    ]);
+  });
+
+  it('reads XML statements', () => {
+    const content = '<?xml version="1.0"?><OFX><BANKTRANLIST>'
+      + '<STMTTRN><TRNTYPE>POS</TRNTYPE><DTPOSTED>20240210</DTPOSTED><TRNAMT>-4.20</TRNAMT>'
+      + '<FITID>A1</FITID><NAME>Bakery</NAME></STMTTRN>'
+      + '</BANKTRANLIST></OFX>';
+
+    expect(parseOfx(content)).toEqual([
+      { fitId: 'A1', type: 'POS', date: '2024-02-10', amount: -4.2, name: 'Bakery', memo: '' }
+    ]);
+  });
+
+  it('leaves the date empty when it is missing or too short', () => {
+    const [transaction] = parseOfx('<STMTTRN><TRNAMT>-1.00<DTPOSTED>2024</STMTTRN>');
+    expect(transaction.date).toBe('');
+  });
+
+  it('returns nothing for a file without transactions', () => {
+    expect(parseOfx('<OFX></OFX>')).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+// Reader for the transaction list of OFX/QFX bank statements (SGML 1.x and XML 2.x)
+
+export interface OfxTransaction {
+  fitId: string;
+  type: string; // TRNTYPE, e.g. DEBIT, CREDIT, POS, ATM
+  date: string; // YYYY-MM-DD
+  amount: number; // negative for money leaving the account
+  name: string;
+  memo: string;
+}
+
+const readTag = (block: string, tag: string): string => {
+  // SGML OFX omits closing tags on leaf elements, so read up to the next tag or line break
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+export const parseOfx = (content: string): OfxTransaction[] => {
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+
+  return blocks.map((raw) => {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    const posted = readTag(block, 'DTPOSTED'); // YYYYMMDD[HHMMSS[.XXX][[+-]TZ]]
+
+    return {
+      fitId: readTag(block, 'FITID'),
+      type: readTag(block, 'TRNTYPE').toUpperCase(),
+      date: posted.length >= 8 ? `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}` : '',
+      amount: parseFloat(readTag(block, 'TRNAMT').replace(',', '.')),
+      name: readTag(block, 'NAME'),
+      memo: readTag(block, 'MEMO')
+    };
+  });
+};
@@ -0,0 +1,52 @@
+import { isSafePattern, MAX_PATTERN_LENGTH } from './regex';
+
+describe('isSafePattern', () => {
+  it.each([
+    'netflix',
+    'netflix|spotify',
+    '^uber\\s+eats',
+    'amzn.*mktp',
+    '(?:coffee)+',
+    '(ab)+',
+    '[(*+]+',
+    'store #\\d{3,5}',
+    '(a+)?',
+    'a{2}b{1,3}c*'
+  ])('accepts %s', (pattern) => {
+    expect(isSafePattern(pattern)).toBe(true);
+  });
+
+  it.each([
+    ['nested quantifiers', '(a+)+$'],
+    ['a repeated alternation', '(a|a)*'],
+    ['a repeated group with a nested group', '((ab)*)+'],
+    ['bounded repetition of a quantified group', '(\\d{2}){2,}'],
+    ['several wildcards', '.*.*.*.*.*.*.*.*!'],
+    ['two unbounded quantifiers', 'a+b*'],
+    ['many optional atoms', 'a?a?a?a?a?a?a?a?aaaaaaaa'],
+    ['wide bounded quantifiers', '.{0,99}.{0,99}x'],
+    ['an open-ended brace quantifier next to another', '\\w{2,}\\s+'],
+    ['backreferences', '([a-z]+)\\1'],
+    ['named backreferences', '(?<w>a)\\k<w>']
+  ])('rejects %s', (_case, pattern) => {
+    expect(isSafePattern(pattern)).toBe(false);
+  });
+
+  it('rejects patterns over the length limit', () => {
+    expect(isSafePattern('x'.repeat(MAX_PATTERN_LENGTH))).toBe(true);
+    expect(isSafePattern('x'.repeat(MAX_PATTERN_LENGTH + 1))).toBe(false);
+  });
+
+  it('ignores quantifier characters that are escaped or inside a class', () => {
+    expect(isSafePattern('\\*\\+\\*[*+]x+')).toBe(true);
+  });
+
+  it('only accepts patterns that finish quickly on long input', () => {
+    for (const pattern of ['^uber\\s+eats', 'amzn.*mktp', '(ab)+c']) {
+      expect(isSafePattern(pattern)).toBe(true);
+      const start = Date.now();
+      new RegExp(pattern, 'i').test('a'.repeat(10000));
+      expect(Date.now() - start).toBeLessThan(1000);
+    }
+  });
+});
@@ -0,0 +1,94 @@
+// Guards for user-supplied regular expressions, which run on the main thread against every transaction
+
+export const MAX_PATTERN_LENGTH = 100;
+
+// Most ways bounded quantifiers ("?", "{n,m}") together may match the same text, e.g. 2 x 3 for "a?b{1,3}"
+const MAX_BOUNDED_VARIANTS = 100;
+
+type Quantifier = { length: number; unbounded: boolean; repeats: boolean; variants: number };
+
+/**
+ * The quantifier starting at `index` ("*", "+", "?" or "{n,m}"), including a lazy "?" after it
+ */
+const quantifierAt = (source: string, index: number): Quantifier | null => {
+  const char = source[index];
+  let quantifier: Quantifier | null = null;
+
+  if (char === '*' || char === '+') {
+    quantifier = { length: 1, unbounded: true, repeats: true, variants: 1 };
+  } else if (char === '?') {
+    quantifier = { length: 1, unbounded: false, repeats: false, variants: 2 };
+  } else if (char === '{') {
+    const braces = source.slice(index).match(/^\{(\d+)(,(\d*))?\}/);
+    if (braces) {
+      const min = Number(braces[1]);
+      const unbounded = braces[2] !== undefined && braces[3] === '';
+      const max = unbounded ? Infinity : Number(braces[3] ?? braces[1]);
+      quantifier = { length: braces[0].length, unbounded, repeats: max > 1, variants: unbounded ? 1 : Math.max(max - min + 1, 1) };
+    }
+  }
+
+  if (quantifier && source[index + quantifier.length] === '?') {
+    quantifier.length++;
+  }
+
+  return quantifier;
+};
+
+/**
+ * Whether a pattern is safe to run: short, without backreferences, with at most one unbounded quantifier
+ * (".*.*x" backtracks polynomially), few bounded ones ("a?a?a?a?a?a?a?aaaaaaa") and no repeated groups
+ * that contain a quantifier or alternation ("(a+)+" backtracks exponentially)
+ */
+export const isSafePattern = (source: string): boolean => {
+  if (source.length > MAX_PATTERN_LENGTH || /\\[1-9]|\\k</.test(source)) {
+    return false;
+  }
+
+  // For each open group: whether it contains a quantifier or alternation
+  const groups: boolean[] = [];
+  const markGroup = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+  let unbounded = 0;
+  let variants = 1;
+  let inClass = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+
+    if (inClass) {
+      inClass = char !== ']';
+      continue;
+    }
+
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+      if (source[i + 1] === '?') i++; // (?: (?= (?! (?<
+    } else if (char === '|') {
+      markGroup();
+    } else {
+      const ambiguous = char === ')' ? groups.pop() ?? false : false;
+      const quantifier = quantifierAt(source, char === ')' ? i + 1 : i);
+
+      if (quantifier) {
+        if (ambiguous && quantifier.repeats) return false;
+        if (quantifier.unbounded && ++unbounded > 1) return false;
+        variants *= quantifier.variants;
+        if (variants > MAX_BOUNDED_VARIANTS) return false;
+        i += char === ')' ? quantifier.length : quantifier.length - 1;
+      }
+
+      if (quantifier || ambiguous) markGroup();
+    }
+  }
+
+  return true;
+};
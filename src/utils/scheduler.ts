@@ -0,0 +1,28 @@
+// Minimal in-process scheduler for periodic background jobs
+type ScheduledTask = () => Promise<unknown>;
+
+const runningJobs = new Set<string>();
+
+export const scheduleJob = (name: string, intervalMs: number, task: ScheduledTask): NodeJS.Timeout => {
+  const run = async () => {
+    // Skip this tick if the previous run has not finished yet
+    if (runningJobs.has(name)) {
+      return;
+    }
+
+    runningJobs.add(name);
+    try {
+      await task();
+    } catch (error) {
+      console.error(`❌ Scheduled job "${name}" failed:`, error);
+    } finally {
+      runningJobs.delete(name);
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  void run();
+
+  return timer;
+};